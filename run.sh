@@ -2,6 +2,7 @@
 set -euo pipefail
 
 ROOT_DIR="$(cd "$(dirname "${BASH_SOURCE[0]}")" && pwd)"
+export IOS_BLOGS_STATE_DIR="${IOS_BLOGS_STATE_DIR:-${ROOT_DIR}/.state}"
 
 usage() {
   cat <<'USAGE'
@@ -0,0 +1,121 @@
+import { createHash } from "node:crypto";
+import type { AnalysisResult } from "./llm-client.js";
+import { readStateFile, STATE_FILE_VERSION, writeStateFile } from "./state-file.js";
+
+export interface AnalysisCacheKey {
+  link: string;
+  contentHash: string;
+  model: string;
+  promptVersion: string;
+}
+
+export interface AnalysisCacheEntry extends AnalysisCacheKey {
+  result: AnalysisResult;
+  analyzedAt: string;
+}
+
+export interface AnalysisCacheOptions {
+  clock?: () => number;
+}
+
+interface AnalysisCachePayload {
+  version: number;
+  entries: AnalysisCacheEntry[];
+}
+
+export function hashContent(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+// Persistent store of LLM decisions so unchanged posts are not re-sent to the model on every run.
+export class AnalysisCache {
+  private readonly entries = new Map<string, AnalysisCacheEntry>();
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly filePath: string,
+    options: AnalysisCacheOptions = {},
+  ) {
+    this.clock = options.clock ?? (() => Date.now());
+  }
+
+  static async load(filePath: string, options: AnalysisCacheOptions = {}): Promise<AnalysisCache> {
+    const cache = new AnalysisCache(filePath, options);
+    const payload = await readStateFile<Partial<AnalysisCachePayload>>(filePath, {});
+
+    if (payload.version === STATE_FILE_VERSION && Array.isArray(payload.entries)) {
+      for (const entry of payload.entries) {
+        if (isValidEntry(entry)) {
+          cache.entries.set(createEntryId(entry), entry);
+        }
+      }
+    }
+
+    return cache;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  lookup(key: AnalysisCacheKey): AnalysisResult | undefined {
+    const entry = this.entries.get(createEntryId(key));
+    if (!entry || entry.contentHash !== key.contentHash) {
+      return undefined;
+    }
+    return entry.result;
+  }
+
+  store(key: AnalysisCacheKey, result: AnalysisResult): void {
+    // An edited post replaces the previous decision for the same link/model/prompt combination.
+    this.entries.set(createEntryId(key), {
+      ...key,
+      result,
+      analyzedAt: new Date(this.clock()).toISOString(),
+    });
+  }
+
+  prune(maxAgeMs: number): number {
+    const threshold = this.clock() - maxAgeMs;
+    let removed = 0;
+
+    for (const [id, entry] of this.entries) {
+      const analyzedAt = Date.parse(entry.analyzedAt);
+      if (Number.isNaN(analyzedAt) || analyzedAt < threshold) {
+        this.entries.delete(id);
+        removed += 1;
+      }
+    }
+
+    return removed;
+  }
+
+  async save(): Promise<void> {
+    const payload: AnalysisCachePayload = {
+      version: STATE_FILE_VERSION,
+      entries: Array.from(this.entries.values()),
+    };
+    await writeStateFile(this.filePath, payload);
+  }
+}
+
+function createEntryId(key: Pick<AnalysisCacheKey, "link" | "model" | "promptVersion">): string {
+  return [key.model, key.promptVersion, key.link].join("\u0000");
+}
+
+function isValidEntry(entry: unknown): entry is AnalysisCacheEntry {
+  if (!entry || typeof entry !== "object") {
+    return false;
+  }
+
+  const record = entry as Record<string, unknown>;
+  return (
+    typeof record.link === "string" &&
+    typeof record.contentHash === "string" &&
+    typeof record.model === "string" &&
+    typeof record.promptVersion === "string" &&
+    typeof record.analyzedAt === "string" &&
+    !!record.result &&
+    typeof (record.result as { relevant?: unknown }).relevant === "boolean"
+  );
+}
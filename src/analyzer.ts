@@ -1,26 +1,74 @@
-import { fetchFeed as defaultFetchFeed } from "./rss-parser.js";
-import type { AnalysisResult } from "./ollama-client.js";
-import type { FeedItem, FetchFeedOptions, ParsedFeed } from "./types.js";
-import { asyncPool } from "./utils.js";
+import { fetchFeed as defaultFetchFeed, fetchPage as defaultFetchPage } from "./rss-parser.js";
+import type { ArticleCache } from "./article-cache.js";
+import { extractArticleText } from "./article-extractor.js";
+import { canonicalizeUrl, findCanonicalLink } from "./canonical-url.js";
+import { reduceChunkAnalyses, splitIntoChunks } from "./chunked-analysis.js";
+import type { FirstSeenLedger } from "./first-seen-ledger.js";
+import { htmlToText } from "./html-text.js";
+import type { AnalysisResult } from "./llm-client.js";
+import { hashContent, type AnalysisCache } from "./analysis-cache.js";
+import { HostLimiter, type HostLimits } from "./host-limiter.js";
+import { resolvePublishDate, type PublishDateSource } from "./publish-date.js";
+import type { CompiledRuleSet, RuleEvaluation, RuleInput } from "./keyword-rules.js";
+import { createTopicRules, DEFAULT_TOPIC_PROFILE, type TopicProfile } from "./topics.js";
+import type { FeedCacheStatus, FeedItem, FetchFeedOptions, ParsedFeed } from "./types.js";
+import { asyncPool, createLimiter, type TaskLimiter } from "./utils.js";
 
 export const DEFAULT_PARALLEL = 3;
+export const DEFAULT_LLM_PARALLEL = 2;
 export const DEFAULT_MONTH_WINDOW = 3;
+export const DEFAULT_FULL_ARTICLE_MIN_CHARS = 500;
+export const DEFAULT_MAX_CHUNKS = 4;
 
 export interface FeedAnalysisResult {
   feedUrl: string;
-  status: "fulfilled" | "rejected";
+  // "skipped" feeds were not started because the run was stopped.
+  status: "fulfilled" | "rejected" | "skipped";
   feed?: ParsedFeed;
   error?: Error;
+  // From the start of the fetch to the feed's last analyzed post, including time queued behind other feeds' posts.
   durationMs?: number;
   analyzedItems?: number;
   relevantPosts?: RelevantPost[];
+  cacheStatus?: FeedCacheStatus;
+  // Working feed found on the site after the configured feed URL failed.
+  discoveredUrl?: string;
+  // Character encoding the feed body was decoded with.
+  encoding?: string;
+  cachedAnalyses?: number;
+  // Posts analyzed from their fetched article page instead of the feed text.
+  fullArticles?: number;
+  // Posts too long for one prompt, classified in chunks.
+  chunkedAnalyses?: number;
+  // Posts skipped because no publish date could be found in the feed, the URL, or the first-seen ledger.
+  undatedItems?: number;
+  // Posts not analyzed here because an earlier feed (or item) carried the same canonical post.
+  duplicatePosts?: number;
+  // Posts left unanalyzed because the run was stopped; the feed's other fields only cover the posts analyzed in time.
+  unanalyzedPosts?: number;
+  // Posts whose analysis threw; the feed still reports the others.
+  failedPosts?: number;
+  schemaViolations?: number;
+  // Posts the model marked relevant but the confirmation rules rejected for every topic.
+  rejectedPosts?: RelevantPost[];
 }
 
 export interface RelevantPost {
   title: string;
   link: string;
+  guid?: string;
   publishedAt?: string;
+  // Set when the feed had no usable date and `publishedAt` was inferred.
+  publishedAtSource?: Exclude<PublishDateSource, "feed">;
+  // Normalized URL the post is de-duplicated by; the page's rel=canonical when the article was fetched.
+  canonicalUrl?: string;
+  // URLs of every feed that carried the post, starting with the one it was analyzed from.
+  feeds?: string[];
   analysis: AnalysisResult;
+  // Names of the topics the post was confirmed for, in profile order.
+  topics?: string[];
+  // Confirmation rule results for every topic the model marked relevant, keyed by topic name.
+  confirmation?: Record<string, RuleEvaluation>;
 }
 
 export interface ProgressUpdate {
@@ -31,19 +79,42 @@ export interface ProgressUpdate {
   feed?: ParsedFeed;
   error?: Error;
   durationMs?: number;
+  posts: PostProgress;
+}
+
+// Run-wide post counts: `queued` grows as feeds are fetched, so it is only final once every feed has been.
+export interface PostProgress {
+  analyzed: number;
+  queued: number;
+}
+
+export interface PostProgressUpdate extends PostProgress {
+  feedUrl: string;
+  title: string;
+  link: string;
 }
 
 export interface AnalysisClient {
+  readonly model?: string;
+  readonly promptVersion?: string;
   analyze(description: string, options?: { gracefulDegradation?: boolean }): Promise<AnalysisResult>;
 }
 
 export interface AnalyzerDependencies {
   fetchFeed: typeof defaultFetchFeed;
+  fetchPage: typeof defaultFetchPage;
   analysisClient: AnalysisClient;
 }
 
+export interface FullArticleOptions {
+  // Posts whose feed text (without markup) is shorter than this are fetched in full.
+  minChars?: number;
+  cache?: ArticleCache;
+}
+
 const defaultDependencies: AnalyzerDependencies = {
   fetchFeed: defaultFetchFeed,
+  fetchPage: defaultFetchPage,
   analysisClient: {
     async analyze() {
       throw new Error("analysisClient dependency is required");
@@ -52,14 +123,52 @@ const defaultDependencies: AnalyzerDependencies = {
 };
 
 export interface AnalyzeFeedsOptions {
-  parallel?: number;
+  // Feeds fetched at once (stage one); a fetched feed queues its posts and frees its slot for the next feed.
+  fetchParallel?: number;
+  // Model requests in flight at once across all feeds (stage two).
+  llmParallel?: number;
+  // Stops the run gracefully: feeds and posts not started yet are skipped, work in flight finishes, and the partial
+  // results are returned.
   signal?: AbortSignal;
   fetchOptions?: FetchFeedOptions;
+  // Site URL per feed URL, searched when autodiscovery is enabled in `fetchOptions`.
+  siteUrls?: ReadonlyMap<string, string>;
+  // Per-host overrides for the limiter created when `fetchOptions` has none.
+  hostLimits?: HostLimits;
+  // Called when a feed is done: fetched, and every one of its posts analyzed.
   onProgress?: (update: ProgressUpdate) => void;
+  // Called after each post is analyzed, whichever feed it came from.
+  onPostProgress?: (update: PostProgressUpdate) => void;
   dependencies?: Partial<AnalyzerDependencies>;
   clock?: () => number;
   months?: number;
+  // Explicit publish-date window; replaces the `months` cutoff when set.
+  window?: PublishWindow;
   onVerboseMessage?: (entry: VerboseLogEntry) => void;
+  analysisCache?: AnalysisCache;
+  // Supply the confirmation rules applied to model decisions; defaults to the AI profile.
+  topics?: readonly TopicProfile[];
+  // Analyze the linked article instead of short feed summaries; pages are fetched like feeds (timeout, host limits).
+  fullArticles?: FullArticleOptions;
+  // Cap on the chunks a long post is split into; 1 truncates long posts to a single prompt.
+  maxChunks?: number;
+  // Dates posts that have no date in the feed or their URL by when they first appeared.
+  firstSeen?: FirstSeenLedger;
+}
+
+// One canonical post shared by every feed that carried it; `feeds` keeps growing while other feeds are analyzed.
+interface CanonicalPost {
+  canonicalUrl: string;
+  feeds: string[];
+  // Resolves true once the claiming feed has analyzed the post, or false if it gave the post up.
+  analyzed: Promise<boolean>;
+  settle(analyzed: boolean): void;
+}
+
+export interface PublishWindow {
+  since: Date;
+  // Exclusive; without it the window is open-ended.
+  until?: Date;
 }
 
 export interface VerboseLogEntry {
@@ -69,16 +178,29 @@ export interface VerboseLogEntry {
 }
 
 const MAX_ANALYSIS_CHARS = 3000;
+const CHUNK_OVERLAP_CHARS = 300;
+
+export interface AnalysisChunks {
+  // Title plus every analyzed part of the body, without the per-chunk title repeats.
+  text: string;
+  // Prompts sent to the model, each starting with the title.
+  chunks: string[];
+  truncated: boolean;
+}
 
 export async function analyzeFeeds(feedUrls: readonly string[], options: AnalyzeFeedsOptions = {}): Promise<FeedAnalysisResult[]> {
   if (!Array.isArray(feedUrls)) {
     throw new TypeError("feedUrls must be an array");
   }
 
-  const parallel = options.parallel ?? DEFAULT_PARALLEL;
+  const fetchParallel = options.fetchParallel ?? DEFAULT_PARALLEL;
+  if (!Number.isInteger(fetchParallel) || fetchParallel <= 0) {
+    throw new RangeError("fetchParallel must be a positive integer");
+  }
 
-  if (!Number.isInteger(parallel) || parallel <= 0) {
-    throw new RangeError("parallel must be a positive integer");
+  const llmParallel = options.llmParallel ?? DEFAULT_LLM_PARALLEL;
+  if (!Number.isInteger(llmParallel) || llmParallel <= 0) {
+    throw new RangeError("llmParallel must be a positive integer");
   }
 
   const dependencies: AnalyzerDependencies = {
@@ -87,29 +209,79 @@ export async function analyzeFeeds(feedUrls: readonly string[], options: Analyze
   };
 
   const months = normalizeMonths(options.months);
+  const maxChunks = options.maxChunks ?? DEFAULT_MAX_CHUNKS;
+  if (!Number.isInteger(maxChunks) || maxChunks <= 0) {
+    throw new RangeError("maxChunks must be a positive integer");
+  }
 
   const clock = options.clock ?? (() => Date.now());
+  const topics = (options.topics?.length ? options.topics : [DEFAULT_TOPIC_PROFILE]).map((profile) => ({
+    profile,
+    rules: createTopicRules(profile),
+  }));
 
   const total = feedUrls.length;
   let completed = 0;
+  const posts: PostProgress = { analyzed: 0, queued: 0 };
   // Cache parsed feeds and any in-flight fetches so duplicate URLs do not re-hit the network.
   const feedCache = new Map<string, ParsedFeed>();
   const inflightFetches = new Map<string, Promise<ParsedFeed>>();
+  // Canonical post URL (and any alias it was reached by) to the post, so mirrors in other feeds are analyzed once.
+  const canonicalPosts = new Map<string, CanonicalPost>();
+  // The pool caps feeds in flight overall; the limiter keeps them from piling onto one host.
+  const hostLimiter = options.fetchOptions?.hostLimiter ?? new HostLimiter({ limits: options.hostLimits });
+  // Every feed's posts share one model queue, so a feed with many posts neither idles the model nor floods it.
+  const llmLimit = createLimiter({ concurrency: llmParallel, signal: options.signal });
+
+  const finishFeed = (result: FeedAnalysisResult, startedAt: number): FeedAnalysisResult => {
+    const finishedAt = clock();
+    if (Number.isFinite(finishedAt) && Number.isFinite(startedAt)) {
+      const duration = finishedAt - startedAt;
+      result.durationMs = Number.isFinite(duration) ? Math.max(0, duration) : undefined;
+    }
+
+    completed += 1;
+    options.onProgress?.({
+      feedUrl: result.feedUrl,
+      completed,
+      total,
+      status: result.status,
+      feed: result.feed,
+      error: result.error,
+      durationMs: result.durationMs,
+      posts: { ...posts },
+    });
+
+    return result;
+  };
 
-  const results = await asyncPool(
+  // Stage one: the fetch pool fetches each feed (and, with full articles, its post pages) and queues the posts for
+  // stage two. The pool moves on to the next feed without waiting for the model.
+  const pending = await asyncPool(
     feedUrls,
     async (feedUrl) => {
+      if (options.signal?.aborted) {
+        const skipped: FeedAnalysisResult = { feedUrl, status: "skipped" };
+        return { settled: Promise.resolve(skipped) };
+      }
+
       const result: FeedAnalysisResult = { feedUrl, status: "fulfilled" };
       const startedAt = clock();
+      let analysis: Promise<void> | undefined;
 
       try {
         let feed = feedCache.get(feedUrl);
-        if (!feed) {
+        if (feed) {
+          result.cacheStatus = "hit";
+        } else {
           // Deduplicate concurrent fetches for identical feed URLs.
           let inflight = inflightFetches.get(feedUrl);
           if (!inflight) {
+            const siteUrl = options.siteUrls?.get(feedUrl);
             inflight = dependencies.fetchFeed(feedUrl, {
               ...options.fetchOptions,
+              hostLimiter,
+              ...(siteUrl ? { siteUrl } : {}),
             });
             inflightFetches.set(feedUrl, inflight);
           }
@@ -119,50 +291,103 @@ export async function analyzeFeeds(feedUrls: readonly string[], options: Analyze
           } finally {
             inflightFetches.delete(feedUrl);
           }
+          result.cacheStatus = feed.fetchInfo?.cacheStatus;
         }
         result.feed = feed;
+        result.encoding = feed.fetchInfo?.encoding;
+        if (feed.fetchInfo?.discoveredUrl) {
+          result.discoveredUrl = feed.fetchInfo.discoveredUrl;
+          emitVerbose(
+            { feedUrl, feedTitle: feed.title ?? undefined, onVerboseMessage: options.onVerboseMessage },
+            `Feed URL failed; analyzing the feed discovered at ${feed.fetchInfo.discoveredUrl} instead.`,
+          );
+        }
         if (feed.items?.length) {
-          const referenceDate = new Date(clock());
-          const cutoffDate = subtractMonths(referenceDate, months);
-          const analysis = await analyzeFeedItems(feed.items, cutoffDate, dependencies.analysisClient, {
+          const window = options.window ?? { since: subtractMonths(new Date(clock()), months) };
+          const context: FeedPostContext = {
             feedUrl,
             feedTitle: feed.title ?? undefined,
-            months,
             onVerboseMessage: options.onVerboseMessage,
+            onPostProgress: options.onPostProgress,
+            analysisClient: dependencies.analysisClient,
+            analysisCache: options.analysisCache,
+            llmLimit,
+            signal: options.signal,
+            posts,
+            topics,
+            maxChunks,
+            canonicalPosts,
+            fullArticles: options.fullArticles
+              ? {
+                  minChars: options.fullArticles.minChars ?? DEFAULT_FULL_ARTICLE_MIN_CHARS,
+                  cache: options.fullArticles.cache,
+                  fetchPage: dependencies.fetchPage,
+                  fetchOptions: { ...options.fetchOptions, hostLimiter },
+                }
+              : undefined,
+          };
+          const prepared = await prepareFeedPosts(feed.items, window, {
+            ...context,
+            windowDescription: options.window ? describePublishWindow(options.window) : `within the last ${formatMonthsLabel(months)}`,
+            firstSeen: options.firstSeen,
           });
-          result.analyzedItems = analysis.analyzedCount;
-          if (analysis.relevantPosts.length > 0) {
-            result.relevantPosts = analysis.relevantPosts;
+          if (prepared.undatedCount > 0) {
+            result.undatedItems = prepared.undatedCount;
           }
+
+          posts.queued += prepared.posts.filter((post) => post.kind === "prepared").length;
+          analysis = analyzeFeedPosts(prepared.posts, context).then((analyzed) => {
+            result.analyzedItems = analyzed.analyzedCount;
+            if (analyzed.fullArticleCount > 0) {
+              result.fullArticles = analyzed.fullArticleCount;
+            }
+            if (analyzed.chunkedCount > 0) {
+              result.chunkedAnalyses = analyzed.chunkedCount;
+            }
+            if (analyzed.duplicateCount > 0) {
+              result.duplicatePosts = analyzed.duplicateCount;
+            }
+            const unanalyzedPosts = prepared.unanalyzedCount + analyzed.unanalyzedCount;
+            if (unanalyzedPosts > 0) {
+              result.unanalyzedPosts = unanalyzedPosts;
+            }
+            if (options.analysisCache) {
+              result.cachedAnalyses = analyzed.cachedCount;
+            }
+            if (analyzed.failedCount > 0) {
+              result.failedPosts = analyzed.failedCount;
+            }
+            if (analyzed.schemaViolationCount > 0) {
+              result.schemaViolations = analyzed.schemaViolationCount;
+            }
+            if (analyzed.relevantPosts.length > 0) {
+              result.relevantPosts = analyzed.relevantPosts;
+            }
+            if (analyzed.rejectedPosts.length > 0) {
+              result.rejectedPosts = analyzed.rejectedPosts;
+            }
+          });
         }
       } catch (error) {
-        result.status = "rejected";
-        result.error = error instanceof Error ? error : new Error(String(error));
-      } finally {
-        const finishedAt = clock();
-        if (Number.isFinite(finishedAt) && Number.isFinite(startedAt)) {
-          const duration = finishedAt - startedAt;
-          result.durationMs = Number.isFinite(duration) ? Math.max(0, duration) : undefined;
-        }
+        rejectFeed(result, error);
       }
 
-      completed += 1;
-      options.onProgress?.({
-        feedUrl,
-        completed,
-        total,
-        status: result.status,
-        feed: result.feed,
-        error: result.error,
-        durationMs: result.durationMs,
-      });
-
-      return result;
+      // Wrapped so the pool does not wait for stage two; the wrapped promise never rejects.
+      const settled = (analysis ?? Promise.resolve())
+        .catch((error: unknown) => rejectFeed(result, error))
+        .then(() => finishFeed(result, startedAt));
+      return { settled };
     },
-    { concurrency: parallel, signal: options.signal },
+    // The pool itself is not given the signal: after a stop it drains by marking the remaining feeds skipped.
+    { concurrency: fetchParallel },
   );
 
-  return results;
+  return Promise.all(pending.map((entry) => entry.settled));
+}
+
+function rejectFeed(result: FeedAnalysisResult, error: unknown): void {
+  result.status = "rejected";
+  result.error = error instanceof Error ? error : new Error(String(error));
 }
 
 function normalizeMonths(value: number | undefined): number {
@@ -204,106 +429,527 @@ function formatMonthsLabel(months: number): string {
   return `${safeMonths} month${safeMonths === 1 ? "" : "s"}`;
 }
 
-async function analyzeFeedItems(
+function describePublishWindow(window: PublishWindow): string {
+  return `published between ${window.since.toISOString()} and ${window.until?.toISOString() ?? "now"}`;
+}
+
+// Shared by both stages of one feed.
+interface FeedPostContext {
+  feedUrl: string;
+  feedTitle?: string;
+  onVerboseMessage?: (entry: VerboseLogEntry) => void;
+  onPostProgress?: (update: PostProgressUpdate) => void;
+  analysisClient: AnalysisClient;
+  analysisCache?: AnalysisCache;
+  llmLimit: TaskLimiter;
+  signal?: AbortSignal;
+  // Run-wide counters, updated as posts are queued and analyzed.
+  posts: PostProgress;
+  topics: ReadonlyArray<{ profile: TopicProfile; rules: CompiledRuleSet }>;
+  fullArticles?: ResolvedFullArticleOptions;
+  maxChunks: number;
+  canonicalPosts: Map<string, CanonicalPost>;
+}
+
+// A post ready for the model: dated, claimed for this feed, and with its analysis text built.
+interface PreparedPost {
+  kind: "prepared";
+  item: FeedItem;
+  publishedAtSource?: Exclude<PublishDateSource, "feed">;
+  canonical: CanonicalPost;
+  prepared: AnalysisChunks;
+  fullArticle: boolean;
+}
+
+// A post another feed claimed first; it takes over if that feed gives the post up.
+interface StandbyPost {
+  kind: "standby";
+  item: FeedItem;
+  publishedAtSource?: Exclude<PublishDateSource, "feed">;
+  claim: CanonicalPost;
+}
+
+type PostOutcome =
+  | { kind: "analyzed"; post: PreparedPost; analysis: AnalysisResult; cached: boolean }
+  | { kind: "duplicate"; post: StandbyPost }
+  | { kind: "unanalyzed"; post?: PreparedPost }
+  | { kind: "empty" };
+
+// Stage one for a feed's items: the publish window, cross-feed de-duplication, and full-article fetches.
+async function prepareFeedPosts(
   items: FeedItem[],
-  cutoffDate: Date,
-  analysisClient: AnalysisClient,
-  options: { feedUrl: string; feedTitle?: string; months: number; onVerboseMessage?: (entry: VerboseLogEntry) => void },
-): Promise<{ analyzedCount: number; relevantPosts: RelevantPost[] }> {
+  window: PublishWindow,
+  options: FeedPostContext & {
+    windowDescription: string;
+    firstSeen?: FirstSeenLedger;
+  },
+): Promise<{
+  posts: Array<PreparedPost | StandbyPost>;
+  undatedCount: number;
+  unanalyzedCount: number;
+}> {
+  const posts: Array<PreparedPost | StandbyPost> = [];
+  let unanalyzedCount = 0;
+
+  const { itemsWithinWindow, undatedCount } = selectItemsWithinWindow(items ?? [], window, options);
+  emitVerbose(options, `Found ${itemsWithinWindow.length} posts ${options.windowDescription}.`);
+  if (undatedCount > 0) {
+    emitVerbose(options, `Skipped ${undatedCount} ${undatedCount === 1 ? "post" : "posts"} without a publish date.`);
+  }
+
+  for (const dated of itemsWithinWindow) {
+    // After a stop, the remaining posts are neither fetched nor queued.
+    if (options.signal?.aborted) {
+      unanalyzedCount += 1;
+      continue;
+    }
+
+    const post = await preparePost(dated, options);
+    if (post) {
+      posts.push(post);
+    }
+  }
+
+  return { posts, undatedCount, unanalyzedCount };
+}
+
+// Fetches the full article and builds the analysis text, then claims the post unless another feed already has.
+async function preparePost(dated: DatedItem, context: FeedPostContext): Promise<PreparedPost | StandbyPost | undefined> {
+  const { item, publishedAtSource } = dated;
+  const itemUrl = canonicalizeUrl(item.link);
+  const claimed = findCanonicalPost(context.canonicalPosts, [itemUrl], context.feedUrl);
+  if (claimed) {
+    return { kind: "standby", item, publishedAtSource, claim: claimed };
+  }
+
+  const article = context.fullArticles ? await loadFullArticle(item, context.fullArticles, context) : undefined;
+  const prepared = article?.text
+    ? chunkAnalysisText(item.title, article.text, context.maxChunks)
+    : buildAnalysisChunks(item, context.maxChunks);
+  if (!prepared) {
+    return undefined;
+  }
+
+  // The article page may name another URL as the original, and another feed may have claimed it while it loaded.
+  const urls = article?.canonicalUrl ? [canonicalizeUrl(article.canonicalUrl), itemUrl] : [itemUrl];
+  const claim = claimCanonicalPost(context.canonicalPosts, urls, context.feedUrl);
+  if (claim.duplicate) {
+    return { kind: "standby", item, publishedAtSource, claim: claim.post };
+  }
+  return { kind: "prepared", item, publishedAtSource, canonical: claim.post, prepared, fullArticle: Boolean(article?.text) };
+}
+
+// Stage two for a feed's posts: each post waits for a slot in the shared model queue; results keep the feed's order.
+async function analyzeFeedPosts(
+  posts: ReadonlyArray<PreparedPost | StandbyPost>,
+  context: FeedPostContext,
+): Promise<{
+  analyzedCount: number;
+  cachedCount: number;
+  schemaViolationCount: number;
+  fullArticleCount: number;
+  chunkedCount: number;
+  duplicateCount: number;
+  unanalyzedCount: number;
+  failedCount: number;
+  relevantPosts: RelevantPost[];
+  rejectedPosts: RelevantPost[];
+}> {
   const relevantPosts: RelevantPost[] = [];
+  const rejectedPosts: RelevantPost[] = [];
   let analyzedCount = 0;
+  let cachedCount = 0;
+  let schemaViolationCount = 0;
+  let fullArticleCount = 0;
+  let chunkedCount = 0;
+  let duplicateCount = 0;
+  let unanalyzedCount = 0;
+  let failedCount = 0;
+
+  // One post failing (an unparseable reply, say) must not take the feed's other posts with it.
+  const settled = await Promise.allSettled(posts.map((post) => settlePost(post, context)));
+
+  for (const [index, entry] of settled.entries()) {
+    if (entry.status === "rejected") {
+      const message = entry.reason instanceof Error ? entry.reason.message : String(entry.reason);
+      failedCount += 1;
+      emitVerbose(context, `Could not analyze "${posts[index].item.title}" (${message}).`);
+      continue;
+    }
+
+    const outcome = entry.value;
+    if (outcome.kind === "empty") {
+      continue;
+    }
+    if (outcome.kind === "duplicate") {
+      const { item, claim } = outcome.post;
+      duplicateCount += 1;
+      emitVerbose(
+        context,
+        claim.canonicalUrl === canonicalizeUrl(item.link)
+          ? `Skipping "${item.title}" – already analyzed from ${claim.feeds[0]}.`
+          : `Skipping "${item.title}" – its canonical URL ${claim.canonicalUrl} was already analyzed from ${claim.feeds[0]}.`,
+      );
+      continue;
+    }
 
-  const itemsWithinWindow = (items ?? []).filter((item) => shouldAnalyzeItem(item, cutoffDate));
-  emitVerbose(options, `Found ${itemsWithinWindow.length} posts within the last ${formatMonthsLabel(options.months)}.`);
+    if (outcome.post?.fullArticle) {
+      fullArticleCount += 1;
+    }
+    if (outcome.post && outcome.post.prepared.chunks.length > 1) {
+      chunkedCount += 1;
+    }
+    if (outcome.kind === "unanalyzed") {
+      unanalyzedCount += 1;
+      continue;
+    }
+
+    analyzedCount += 1;
+    const { item, publishedAtSource, canonical, prepared } = outcome.post;
+    const { analysis, cached } = outcome;
+    if (cached) {
+      cachedCount += 1;
+    } else if (analysis.schemaViolation) {
+      schemaViolationCount += 1;
+    }
+
+    if (prepared.chunks.length > 1) {
+      emitVerbose(
+        context,
+        `Analyzed "${item.title}" in ${prepared.chunks.length} chunks; ${analysis.chunks?.relevant ?? 0} marked relevant.`,
+      );
+    }
 
-  for (const item of itemsWithinWindow) {
-    const text = buildAnalysisText(item);
-    if (!text) {
+    if (!analysis.relevant) {
       continue;
     }
 
+    const ruleInput = buildRuleInput(item, prepared.text, analysis);
+    const confirmedTopics: string[] = [];
+    const confirmation: Record<string, RuleEvaluation> = {};
+    for (const { profile, rules } of context.topics) {
+      // Clients without per-topic decisions (older cache entries, yes/no fallbacks) apply the flat decision to every topic.
+      if (!(analysis.topics?.[profile.name]?.relevant ?? !analysis.topics)) {
+        continue;
+      }
+
+      const evaluation = rules.evaluate(ruleInput);
+      confirmation[profile.name] = evaluation;
+      if (evaluation.confirmed) {
+        confirmedTopics.push(profile.name);
+      } else if (evaluation.vetoedBy) {
+        emitVerbose(context, `Skipping "${item.title}" – matches ${profile.label} exclusion "${evaluation.vetoedBy}".`);
+      } else if (evaluation.matches.length === 0) {
+        emitVerbose(context, `Skipping "${item.title}" – marked relevant but no ${profile.label} signals detected.`);
+      } else {
+        emitVerbose(
+          context,
+          `Skipping "${item.title}" – scored ${evaluation.score} on ${profile.label} rules (minimum ${evaluation.minScore}).`,
+        );
+      }
+    }
+
+    const post: RelevantPost = {
+      title: item.title,
+      link: item.link,
+      guid: item.guid,
+      publishedAt: item.publishedAt,
+      ...(publishedAtSource ? { publishedAtSource } : {}),
+      canonicalUrl: canonical.canonicalUrl,
+      feeds: canonical.feeds,
+      analysis,
+      topics: confirmedTopics,
+      confirmation,
+    };
+    if (confirmedTopics.length > 0) {
+      relevantPosts.push(post);
+    } else if (Object.keys(confirmation).length > 0) {
+      rejectedPosts.push(post);
+    }
+  }
+
+  return {
+    analyzedCount,
+    cachedCount,
+    schemaViolationCount,
+    fullArticleCount,
+    chunkedCount,
+    duplicateCount,
+    unanalyzedCount,
+    failedCount,
+    relevantPosts,
+    rejectedPosts,
+  };
+}
+
+// A standby post waits for the feed that claimed it; if that feed gives the post up, the standby copy takes over.
+async function settlePost(post: PreparedPost | StandbyPost, context: FeedPostContext): Promise<PostOutcome> {
+  if (post.kind === "standby") {
+    if (await post.claim.analyzed) {
+      return { kind: "duplicate", post };
+    }
+    if (context.signal?.aborted) {
+      return { kind: "unanalyzed" };
+    }
+    // Another standby copy may claim the post first, in which case this one waits on that claim instead.
+    const next = await preparePost(post, context);
+    if (!next) {
+      return { kind: "empty" };
+    }
+    if (next.kind === "prepared") {
+      context.posts.queued += 1;
+    }
+    return settlePost(next, context);
+  }
+
+  let outcome: { analysis: AnalysisResult; cached: boolean };
+  try {
+    outcome = await analyzePost(post, context);
+  } catch (error) {
+    releaseCanonicalPost(context.canonicalPosts, post.canonical);
+    // Posts still queued when the run is stopped are rejected by the queue without reaching the model.
+    if (context.signal?.aborted) {
+      return { kind: "unanalyzed", post };
+    }
+    throw error;
+  }
+
+  post.canonical.settle(true);
+  context.posts.analyzed += 1;
+  context.onPostProgress?.({
+    feedUrl: context.feedUrl,
+    title: post.item.title,
+    link: post.item.link,
+    ...context.posts,
+  });
+  return { kind: "analyzed", post, ...outcome };
+}
+
+async function analyzePost(post: PreparedPost, context: FeedPostContext): Promise<{ analysis: AnalysisResult; cached: boolean }> {
+  const { item, prepared } = post;
+  const { analysisClient, analysisCache } = context;
+  const cacheKey = analysisCache
+    ? {
+        link: item.link,
+        contentHash: hashContent(prepared.text),
+        model: analysisClient.model ?? "unknown",
+        promptVersion: analysisClient.promptVersion ?? "unknown",
+      }
+    : undefined;
+
+  const cachedAnalysis = cacheKey ? analysisCache?.lookup(cacheKey) : undefined;
+  if (cachedAnalysis) {
+    emitVerbose(context, `Reusing cached analysis for "${item.title}".`);
+    return { analysis: cachedAnalysis, cached: true };
+  }
+
+  const analysis = await context.llmLimit(() => {
     emitVerbose(
-      options,
+      context,
       `Analyzing post "${item.title}" (${item.link}) published ${item.publishedAt ?? "on an unknown date"}.`,
     );
+    return analyzeChunks(prepared, analysisClient);
+  });
+  // Degraded fallbacks describe an outage, not the post, and partial decisions lack some votes, so both are retried next run.
+  if (cacheKey && !analysis.degraded && !analysis.partial) {
+    analysisCache?.store(cacheKey, analysis);
+  }
+  return { analysis, cached: false };
+}
 
-    analyzedCount += 1;
-    const analysis = await analysisClient.analyze(text, { gracefulDegradation: true });
+interface DatedItem {
+  item: FeedItem;
+  publishedAtSource?: Exclude<PublishDateSource, "feed">;
+}
 
-    if (analysis.relevant && isLikelyAiPost(text, analysis)) {
-      relevantPosts.push({
-        title: item.title,
-        link: item.link,
-        publishedAt: item.publishedAt,
-        analysis,
-      });
-    } else if (analysis.relevant) {
-      emitVerbose(options, `Skipping "${item.title}" – marked relevant but no AI/ML signals detected.`);
+// Inferred dates replace `publishedAt` so reports and the verbose log show the date the window was applied to.
+function selectItemsWithinWindow(
+  items: readonly FeedItem[],
+  window: PublishWindow,
+  options: {
+    feedUrl: string;
+    feedTitle?: string;
+    onVerboseMessage?: (entry: VerboseLogEntry) => void;
+    firstSeen?: FirstSeenLedger;
+  },
+): { itemsWithinWindow: DatedItem[]; undatedCount: number } {
+  const itemsWithinWindow: DatedItem[] = [];
+  let undatedCount = 0;
+
+  for (const item of items) {
+    const firstSeen = options.firstSeen;
+    const resolved = resolvePublishDate(item, firstSeen ? () => firstSeen.firstSeen(item) : undefined);
+    if (!resolved) {
+      undatedCount += 1;
+      continue;
+    }
+    if (resolved.date < window.since || (window.until && resolved.date >= window.until)) {
+      continue;
+    }
+
+    if (resolved.source === "feed") {
+      itemsWithinWindow.push({ item });
+    } else {
+      const publishedAt = resolved.date.toISOString();
+      const origin = resolved.source === "url" ? "its URL" : "when it was first seen";
+      emitVerbose(options, `No usable date in the feed for "${item.title}"; dated ${publishedAt} from ${origin}.`);
+      itemsWithinWindow.push({ item: { ...item, publishedAt }, publishedAtSource: resolved.source });
     }
   }
 
-  return { analyzedCount, relevantPosts };
-}
-
-const AI_KEYWORDS = [
-  /\bai\b/i,
-  /\bartificial intelligence/i,
-  /\bmachine learning\b/i,
-  /\bml\b/i,
-  /\bllm\b/i,
-  /\bgpt\b/i,
-  /\bclaude\b/i,
-  /\bllama\b/i,
-  /\bcore\s*ml\b/i,
-  /\btransformer\b/i,
-  /\bdiffusion\b/i,
-  /\blangchain\b/i,
-  /\bopenai\b/i,
-  /\banthropic\b/i,
-  /\bstable diffusion\b/i,
-];
-
-function buildAnalysisText(item: FeedItem): string | undefined {
-  const content = item.content ?? item.description;
-  const body = content?.trim() ? stripHtml(content.trim()) : undefined;
-  if (!body) {
+  return { itemsWithinWindow, undatedCount };
+}
+
+// Finds the post claimed under any of the URLs, recording this feed as another carrier and the other URLs as aliases.
+function findCanonicalPost(
+  canonicalPosts: Map<string, CanonicalPost>,
+  urls: readonly string[],
+  feedUrl: string,
+): CanonicalPost | undefined {
+  const existing = urls.map((url) => canonicalPosts.get(url)).find((post) => post !== undefined);
+  if (!existing) {
     return undefined;
   }
 
-  const parts: string[] = [];
-  if (item.title?.trim()) {
-    parts.push(item.title.trim());
+  addFeed(existing, feedUrl);
+  for (const url of urls) {
+    if (!canonicalPosts.has(url)) {
+      canonicalPosts.set(url, existing);
+    }
+  }
+  return existing;
+}
+
+// Claims the post under its canonical URL (`urls[0]`) and aliases for this feed unless another feed claimed it first.
+function claimCanonicalPost(
+  canonicalPosts: Map<string, CanonicalPost>,
+  urls: readonly string[],
+  feedUrl: string,
+): { post: CanonicalPost; duplicate: boolean } {
+  const existing = findCanonicalPost(canonicalPosts, urls, feedUrl);
+  if (existing) {
+    return { post: existing, duplicate: true };
+  }
+
+  let settle: (analyzed: boolean) => void = () => undefined;
+  const analyzed = new Promise<boolean>((resolve) => {
+    settle = resolve;
+  });
+  const post: CanonicalPost = { canonicalUrl: urls[0], feeds: [feedUrl], analyzed, settle };
+  for (const url of urls) {
+    canonicalPosts.set(url, post);
+  }
+  return { post, duplicate: false };
+}
+
+// Drops a claim whose post was not analyzed, so copies in other feeds are analyzed instead of skipped.
+function releaseCanonicalPost(canonicalPosts: Map<string, CanonicalPost>, post: CanonicalPost): void {
+  for (const [url, claimed] of canonicalPosts) {
+    if (claimed === post) {
+      canonicalPosts.delete(url);
+    }
+  }
+  post.settle(false);
+}
+
+function addFeed(post: CanonicalPost, feedUrl: string): void {
+  if (!post.feeds.includes(feedUrl)) {
+    post.feeds.push(feedUrl);
   }
-  parts.push(body);
+}
 
-  const combined = parts.join("\n\n").trim();
-  if (combined.length <= MAX_ANALYSIS_CHARS) {
-    return combined;
+async function analyzeChunks(prepared: AnalysisChunks, analysisClient: AnalysisClient): Promise<AnalysisResult> {
+  if (prepared.chunks.length === 1) {
+    return analysisClient.analyze(prepared.chunks[0], { gracefulDegradation: true });
   }
 
-  return combined.slice(0, MAX_ANALYSIS_CHARS);
+  // Chunks go out one at a time in the post's queue slot, so a long article takes no more of the model than a short one.
+  const results: AnalysisResult[] = [];
+  for (const chunk of prepared.chunks) {
+    results.push(await analysisClient.analyze(chunk, { gracefulDegradation: true }));
+  }
+  return reduceChunkAnalyses(results, { truncated: prepared.truncated });
 }
 
-function stripHtml(value: string): string {
-  return value.replace(/<[^>]*>/g, " ").replace(/\s+/g, " ").trim();
+interface ResolvedFullArticleOptions {
+  minChars: number;
+  cache?: ArticleCache;
+  fetchPage: AnalyzerDependencies["fetchPage"];
+  fetchOptions: FetchFeedOptions;
 }
 
-function isLikelyAiPost(text: string | undefined, analysis: AnalysisResult): boolean {
-  const haystacks = [text ?? "", analysis.reason ?? "", (analysis.tags ?? []).join(" ")];
-  return AI_KEYWORDS.some((pattern) => haystacks.some((text) => pattern.test(text)));
+// Returns the article text to analyze instead of the feed text (undefined keeps the feed text) and the page's canonical URL.
+async function loadFullArticle(
+  item: FeedItem,
+  fullArticles: ResolvedFullArticleOptions,
+  verbose: { feedUrl: string; feedTitle?: string; onVerboseMessage?: (entry: VerboseLogEntry) => void },
+): Promise<{ text?: string; canonicalUrl?: string } | undefined> {
+  const feedText = htmlToText(item.content ?? item.description ?? "");
+  if (feedText.length >= fullArticles.minChars) {
+    return undefined;
+  }
+
+  const cached = fullArticles.cache?.get(item.link);
+  if (cached) {
+    return { text: cached, canonicalUrl: fullArticles.cache?.canonicalUrl(item.link) };
+  }
+
+  try {
+    const html = await fullArticles.fetchPage(item.link, fullArticles.fetchOptions);
+    const canonicalUrl = findCanonicalLink(html, item.link);
+    const articleText = extractArticleText(html);
+    if (!articleText || articleText.length <= feedText.length) {
+      emitVerbose(verbose, `No article text longer than the feed summary found at ${item.link}; using the feed text.`);
+      return { canonicalUrl };
+    }
+    fullArticles.cache?.store(item.link, articleText, canonicalUrl);
+    emitVerbose(verbose, `Fetched the full article for "${item.title}" (${articleText.length} characters).`);
+    return { text: articleText, canonicalUrl };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    emitVerbose(verbose, `Could not fetch the full article for "${item.title}" (${message}); using the feed text.`);
+    return undefined;
+  }
 }
 
-function shouldAnalyzeItem(item: FeedItem, cutoffDate: Date): boolean {
-  const publishedAt = item.publishedAt;
+export function buildAnalysisText(item: FeedItem): string | undefined {
+  return buildAnalysisChunks(item, 1)?.text;
+}
 
-  if (!publishedAt) {
-    return false;
+// Short posts become a single prompt; longer ones are split into overlapping chunks that each repeat the title.
+export function buildAnalysisChunks(item: FeedItem, maxChunks = DEFAULT_MAX_CHUNKS): AnalysisChunks | undefined {
+  const content = item.content ?? item.description;
+  const body = content?.trim() ? htmlToText(content.trim()) : undefined;
+  if (!body) {
+    return undefined;
   }
+  return chunkAnalysisText(item.title, body, maxChunks);
+}
 
-  const publishedDate = new Date(publishedAt);
-  if (Number.isNaN(publishedDate.getTime())) {
-    return false;
+// Takes text that is already plain (extracted articles included): running it through htmlToText again would drop
+// anything that looks like a tag, such as `Array<Int>`, and decode entities a second time.
+function chunkAnalysisText(itemTitle: string | undefined, body: string, maxChunks: number): AnalysisChunks {
+  const title = itemTitle?.trim();
+  const prefix = title ? `${title}\n\n` : "";
+  const combined = `${prefix}${body}`;
+  if (combined.length <= MAX_ANALYSIS_CHARS || maxChunks === 1) {
+    const text = combined.slice(0, MAX_ANALYSIS_CHARS);
+    return { text, chunks: [text], truncated: combined.length > MAX_ANALYSIS_CHARS };
   }
 
-  return publishedDate >= cutoffDate;
+  // A title long enough to crowd out the body still leaves room for progress between chunks.
+  const size = Math.max(MAX_ANALYSIS_CHARS - prefix.length, CHUNK_OVERLAP_CHARS * 2);
+  const { chunks, truncated } = splitIntoChunks(body, { size, overlap: CHUNK_OVERLAP_CHARS, maxChunks });
+  return {
+    text: `${prefix}${chunks.join("\n\n")}`,
+    chunks: chunks.map((chunk) => `${prefix}${chunk}`),
+    truncated,
+  };
+}
+
+// The body is the analysis text minus its leading title, so title-only rules do not fire on the body and vice versa.
+function buildRuleInput(item: FeedItem, text: string, analysis: AnalysisResult): RuleInput {
+  const title = item.title?.trim() ?? "";
+  const body = title && text.startsWith(title) ? text.slice(title.length).trim() : text;
+  return { title, body, reason: analysis.reason ?? "", tags: (analysis.tags ?? []).join(" ") };
 }
@@ -0,0 +1,90 @@
+import { readStateFile, STATE_FILE_VERSION, writeStateFile } from "./state-file.js";
+
+export interface ArticleCacheEntry {
+  link: string;
+  text: string;
+  // The page's rel=canonical URL, when it declared one.
+  canonicalUrl?: string;
+  fetchedAt: string;
+}
+
+export interface ArticleCacheOptions {
+  clock?: () => number;
+}
+
+interface ArticleCachePayload {
+  version: number;
+  entries: ArticleCacheEntry[];
+}
+
+// Extracted article text keyed by post link, so full-article runs fetch each post page only once.
+export class ArticleCache {
+  private readonly entries = new Map<string, ArticleCacheEntry>();
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly filePath: string,
+    options: ArticleCacheOptions = {},
+  ) {
+    this.clock = options.clock ?? (() => Date.now());
+  }
+
+  static async load(filePath: string, options: ArticleCacheOptions = {}): Promise<ArticleCache> {
+    const cache = new ArticleCache(filePath, options);
+    const payload = await readStateFile<Partial<ArticleCachePayload>>(filePath, {});
+
+    if (payload.version === STATE_FILE_VERSION && Array.isArray(payload.entries)) {
+      for (const entry of payload.entries) {
+        if (entry && typeof entry.link === "string" && typeof entry.text === "string" && typeof entry.fetchedAt === "string") {
+          cache.entries.set(entry.link, entry);
+        }
+      }
+    }
+
+    return cache;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(link: string): string | undefined {
+    return this.entries.get(link)?.text;
+  }
+
+  canonicalUrl(link: string): string | undefined {
+    return this.entries.get(link)?.canonicalUrl;
+  }
+
+  store(link: string, text: string, canonicalUrl?: string): void {
+    this.entries.set(link, {
+      link,
+      text,
+      ...(canonicalUrl ? { canonicalUrl } : {}),
+      fetchedAt: new Date(this.clock()).toISOString(),
+    });
+  }
+
+  prune(maxAgeMs: number): number {
+    const threshold = this.clock() - maxAgeMs;
+    let removed = 0;
+
+    for (const [link, entry] of this.entries) {
+      const fetchedAt = Date.parse(entry.fetchedAt);
+      if (Number.isNaN(fetchedAt) || fetchedAt < threshold) {
+        this.entries.delete(link);
+        removed += 1;
+      }
+    }
+
+    return removed;
+  }
+
+  async save(): Promise<void> {
+    const payload: ArticleCachePayload = {
+      version: STATE_FILE_VERSION,
+      entries: Array.from(this.entries.values()),
+    };
+    await writeStateFile(this.filePath, payload);
+  }
+}
@@ -0,0 +1,66 @@
+import { htmlToText } from "./html-text.js";
+
+// Blocks that never hold the article body, removed before anything is scored.
+const BOILERPLATE_PATTERN =
+  /<(script|style|noscript|svg|iframe|template|form|nav|header|footer|aside|button|select)\b[\s\S]*?<\/\1\s*>/gi;
+const TEXT_BLOCK_PATTERN = /<(p|h[1-6]|li|pre|blockquote|figcaption|td)\b[^>]*>([\s\S]*?)<\/\1\s*>/gi;
+const LINK_TEXT_PATTERN = /<a\b[^>]*>([\s\S]*?)<\/a\s*>/gi;
+
+// Paragraphs shorter than this are usually bylines, share prompts or "Read more" links.
+const MIN_BLOCK_CHARS = 40;
+// Blocks that are mostly link text are navigation or related-post lists.
+const MAX_LINK_DENSITY = 0.5;
+
+// Readability-style extraction without a DOM: narrow the page to its <article> (or <main>, or <body>), drop
+// boilerplate elements, and keep the paragraph-like blocks with enough text that are not mostly links.
+export function extractArticleText(html: string): string | undefined {
+  const withoutComments = html.replace(/<!--[\s\S]*?-->/g, "");
+  const region = (selectRegion(withoutComments) ?? withoutComments).replace(BOILERPLATE_PATTERN, " ");
+
+  const blocks: string[] = [];
+  for (const [, tag, inner] of region.matchAll(TEXT_BLOCK_PATTERN)) {
+    const text = htmlToPlainText(inner);
+    if (!text) {
+      continue;
+    }
+
+    const isHeading = /^h[1-6]$/i.test(tag);
+    if (!isHeading && text.length < MIN_BLOCK_CHARS) {
+      continue;
+    }
+
+    const linkText = Array.from(inner.matchAll(LINK_TEXT_PATTERN), ([, anchor]) => htmlToPlainText(anchor)).join("");
+    if (linkText.length / text.length > MAX_LINK_DENSITY) {
+      continue;
+    }
+
+    blocks.push(text);
+  }
+
+  // Headings alone are not an article.
+  if (blocks.every((block) => block.length < MIN_BLOCK_CHARS)) {
+    const fallback = htmlToPlainText(region);
+    return fallback.length >= MIN_BLOCK_CHARS ? fallback : undefined;
+  }
+
+  return blocks.join("\n\n");
+}
+
+function selectRegion(html: string): string | undefined {
+  for (const pattern of [
+    /<article\b[^>]*>([\s\S]*)<\/article\s*>/i,
+    /<main\b[^>]*>([\s\S]*)<\/main\s*>/i,
+    /<[a-z]+\b[^>]*\brole\s*=\s*["']main["'][^>]*>([\s\S]*)$/i,
+    /<body\b[^>]*>([\s\S]*)<\/body\s*>/i,
+  ]) {
+    const match = pattern.exec(html);
+    if (match) {
+      return match[1];
+    }
+  }
+  return undefined;
+}
+
+function htmlToPlainText(html: string): string {
+  return htmlToText(html).replace(/\s+/g, " ");
+}
@@ -48,12 +48,53 @@ export async function loadBlogs(options: LoadBlogsOptions = {}): Promise<BlogsDi
   if (!validator(parsed)) {
     const message = validator.errors?.map((err) => `${err.instancePath || "/"} ${err.message ?? "is invalid"}`).join("; ") ||
       "Blogs file failed schema validation";
-    throw new BlogDataError(message, "validation-error");
+    throw new BlogDataError(`${filePath}: ${message}`, "validation-error");
   }
 
   return normalizeBlogsDirectory(parsed as BlogsDirectory);
 }
 
+// Files are merged in order. A site listed in several files (same `feed_url`) keeps the language group and
+// category where it first appeared, while its metadata comes from the last file listing it, field by field.
+export function mergeBlogDirectories(directories: readonly BlogsDirectory[]): BlogsDirectory {
+  const merged: BlogsDirectory = [];
+  const sitesByFeedUrl = new Map<string, BlogSite>();
+
+  for (const directory of directories) {
+    for (const group of directory) {
+      let mergedGroup = merged.find((candidate) => candidate.language.toLowerCase() === group.language.toLowerCase());
+      if (!mergedGroup) {
+        mergedGroup = { ...group, categories: [] };
+        merged.push(mergedGroup);
+      }
+
+      for (const category of group.categories) {
+        let mergedCategory = mergedGroup.categories.find((candidate) => candidate.slug === category.slug);
+        if (!mergedCategory) {
+          mergedCategory = { ...category, sites: [] };
+          mergedGroup.categories.push(mergedCategory);
+        }
+
+        for (const site of category.sites) {
+          const existing = sitesByFeedUrl.get(site.feed_url);
+          if (existing) {
+            Object.assign(existing, site);
+            continue;
+          }
+          const copy = { ...site };
+          sitesByFeedUrl.set(site.feed_url, copy);
+          mergedCategory.sites.push(copy);
+        }
+      }
+    }
+  }
+
+  return merged.map((group) => ({
+    ...group,
+    categories: group.categories.filter((category) => category.sites.length > 0),
+  }));
+}
+
 export interface ExtractFeedUrlsOptions {
   maxBlogs?: number;
   language?: string;
@@ -112,7 +153,34 @@ function getValidator(schemaPath: string): ValidateFunction<BlogsDirectory> {
   return validator;
 }
 
-function normalizeBlogsDirectory(directory: BlogsDirectory): BlogsDirectory {
+export function buildSiteUrlIndex(blogs: BlogsDirectory): Map<string, string> {
+  const index = new Map<string, string>();
+  for (const group of blogs) {
+    for (const category of group.categories) {
+      for (const site of category.sites) {
+        if (site.site_url && !index.has(site.feed_url)) {
+          index.set(site.feed_url, site.site_url);
+        }
+      }
+    }
+  }
+  return index;
+}
+
+// Keeps only the sites whose feed URL is listed, dropping categories and groups left empty.
+export function filterBlogsDirectory(blogs: BlogsDirectory, feedUrls: Iterable<string>): BlogsDirectory {
+  const wanted = new Set(feedUrls);
+  return blogs
+    .map((group) => ({
+      ...group,
+      categories: group.categories
+        .map((category) => ({ ...category, sites: category.sites.filter((site) => wanted.has(site.feed_url)) }))
+        .filter((category) => category.sites.length > 0),
+    }))
+    .filter((group) => group.categories.length > 0);
+}
+
+export function normalizeBlogsDirectory(directory: BlogsDirectory): BlogsDirectory {
   return directory.map((group) => ({
     ...group,
     categories: group.categories.map((category) => ({
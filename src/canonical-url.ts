@@ -0,0 +1,62 @@
+import { hasRel, readTags, resolveHttpUrl } from "./html-tags.js";
+
+// Query parameters that only record where a click came from; stripping them lets mirrors of one post compare equal.
+const TRACKING_PARAMETERS = new Set([
+  "source",
+  "ref",
+  "ref_src",
+  "ref_url",
+  "fbclid",
+  "gclid",
+  "dclid",
+  "msclkid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_hsenc",
+  "_hsmi",
+  "mkt_tok",
+  "ck_subscriber_id",
+  "cmpid",
+]);
+const TRACKING_PREFIXES = ["utm_", "pk_", "oly_"];
+
+// Normalizes a post URL for comparison: https, lower-case host without "www.", no default port, fragment, tracking
+// parameters or trailing slash, and the remaining parameters sorted. Values that are not http(s) URLs are only trimmed.
+export function canonicalizeUrl(link: string): string {
+  const text = link.trim();
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return text;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return text;
+  }
+
+  url.protocol = "https:";
+  url.hostname = url.hostname.toLowerCase().replace(/^www\./, "");
+  url.port = url.port === "80" || url.port === "443" ? "" : url.port;
+  url.hash = "";
+  url.username = "";
+  url.password = "";
+
+  const parameters = Array.from(url.searchParams).filter(([name]) => !isTrackingParameter(name));
+  parameters.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  url.search = new URLSearchParams(parameters).toString();
+
+  url.pathname = url.pathname.replace(/\/{2,}/g, "/").replace(/(.)\/$/, "$1");
+  return url.toString().replace(/\/$/, "");
+}
+
+// Reads `<link rel="canonical" href="...">` from a fetched page, resolving relative hrefs against the page URL.
+export function findCanonicalLink(html: string, pageUrl: string): string | undefined {
+  const canonical = readTags(html, "link").find((attributes) => hasRel(attributes, "canonical"));
+  return canonical?.href ? resolveHttpUrl(canonical.href, pageUrl) : undefined;
+}
+
+function isTrackingParameter(name: string): boolean {
+  const lower = name.toLowerCase();
+  return TRACKING_PARAMETERS.has(lower) || TRACKING_PREFIXES.some((prefix) => lower.startsWith(prefix));
+}
@@ -0,0 +1,95 @@
+import { readTags } from "./html-tags.js";
+
+export type CharsetSource = "header" | "xml-declaration" | "meta" | "bom" | "default";
+
+export const DEFAULT_CHARSET = "utf-8";
+
+export interface DecodedBody {
+  text: string;
+  // WHATWG encoding name, e.g. "windows-1252" for a feed declared as ISO-8859-1.
+  encoding: string;
+  source: CharsetSource;
+}
+
+const CONTENT_TYPE_CHARSET_PATTERN = /;\s*charset\s*=\s*["']?([^"';\s]+)/i;
+const XML_DECLARATION_PATTERN = /^\s*<\?xml\b[^>]*?\bencoding\s*=\s*["']([^"']+)["']/i;
+// The XML declaration must sit at the very start of the document, so a short ASCII-compatible prefix is enough to read it.
+const DECLARATION_SNIFF_BYTES = 512;
+// Browsers look for a `<meta>` charset in the first 1024 bytes of an HTML page.
+const META_SNIFF_BYTES = 1024;
+const HTML_CONTENT_TYPE_PATTERN = /^\s*(?:text\/html|application\/xhtml\+xml)\b/i;
+const HTML_START_PATTERN = /^\s*(?:<!--[\s\S]*?-->\s*)*<(?:!doctype\s+html|html|head|meta)\b/i;
+
+// Node 20 decodes windows-1252 as ISO-8859-1, leaving 0x80-0x9F (curly quotes, dashes, the euro sign) as C1 controls.
+const WINDOWS_1252_C1 = "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ";
+
+const BOMS: Array<{ bytes: number[]; encoding: string }> = [
+  { bytes: [0xef, 0xbb, 0xbf], encoding: "utf-8" },
+  { bytes: [0xfe, 0xff], encoding: "utf-16be" },
+  { bytes: [0xff, 0xfe], encoding: "utf-16le" },
+];
+
+// Checks the Content-Type charset, then the XML declaration, then an HTML page's `<meta>` charset, then a byte order mark; unknown
+// labels fall through to the next source.
+export function detectCharset(bytes: Uint8Array, contentType?: string | null): { encoding: string; source: CharsetSource } {
+  const fromHeader = normalizeEncoding(contentType ? CONTENT_TYPE_CHARSET_PATTERN.exec(contentType)?.[1] : undefined);
+  if (fromHeader) {
+    return { encoding: fromHeader, source: "header" };
+  }
+
+  const prefix = new TextDecoder("latin1").decode(bytes.subarray(0, META_SNIFF_BYTES)).replace(/^ï»¿/, "");
+  const fromDeclaration = normalizeEncoding(XML_DECLARATION_PATTERN.exec(prefix.slice(0, DECLARATION_SNIFF_BYTES))?.[1]);
+  // A declaration readable as ASCII cannot be UTF-16, whatever it claims.
+  if (fromDeclaration && !fromDeclaration.startsWith("utf-16")) {
+    return { encoding: fromDeclaration, source: "xml-declaration" };
+  }
+
+  const isHtml = contentType ? HTML_CONTENT_TYPE_PATTERN.test(contentType) : HTML_START_PATTERN.test(prefix);
+  const fromMeta = isHtml ? normalizeEncoding(findMetaCharset(prefix)) : undefined;
+  if (fromMeta && !fromMeta.startsWith("utf-16")) {
+    return { encoding: fromMeta, source: "meta" };
+  }
+
+  const bom = BOMS.find((candidate) => candidate.bytes.every((byte, index) => bytes[index] === byte));
+  if (bom) {
+    return { encoding: bom.encoding, source: "bom" };
+  }
+
+  return { encoding: DEFAULT_CHARSET, source: "default" };
+}
+
+export function decodeBody(bytes: Uint8Array, contentType?: string | null): DecodedBody {
+  const { encoding, source } = detectCharset(bytes, contentType);
+  let text = new TextDecoder(encoding).decode(bytes);
+  if (encoding === "windows-1252") {
+    text = text.replace(/[\u0080-\u009f]/g, (character) => WINDOWS_1252_C1[character.charCodeAt(0) - 0x80]);
+  }
+  return { text, encoding, source };
+}
+
+// Reads `<meta charset="...">` or `<meta http-equiv="Content-Type" content="...; charset=...">`, whichever comes first.
+function findMetaCharset(html: string): string | undefined {
+  for (const meta of readTags(html, "meta")) {
+    if (meta.charset) {
+      return meta.charset;
+    }
+    if (meta["http-equiv"]?.toLowerCase() === "content-type" && meta.content) {
+      const charset = CONTENT_TYPE_CHARSET_PATTERN.exec(meta.content)?.[1];
+      if (charset) {
+        return charset;
+      }
+    }
+  }
+  return undefined;
+}
+
+function normalizeEncoding(label: string | undefined): string | undefined {
+  if (!label) {
+    return undefined;
+  }
+  try {
+    return new TextDecoder(label.trim()).encoding;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,128 @@
+import type { AnalysisResult, ChunkSummary, TopicDecision } from "./llm-client.js";
+
+export interface ChunkOptions {
+  // Maximum characters per chunk.
+  size: number;
+  // Characters repeated at the start of the next chunk so a sentence on a boundary is seen whole once.
+  overlap: number;
+  maxChunks: number;
+}
+
+// Splits text into overlapping chunks, preferring paragraph and then word boundaries; text past the chunk cap is dropped.
+export function splitIntoChunks(text: string, options: ChunkOptions): { chunks: string[]; truncated: boolean } {
+  const { size, overlap, maxChunks } = options;
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new RangeError("size must be a positive integer");
+  }
+  if (!Number.isInteger(overlap) || overlap < 0 || overlap >= size) {
+    throw new RangeError("overlap must be a non-negative integer smaller than size");
+  }
+  if (!Number.isInteger(maxChunks) || maxChunks <= 0) {
+    throw new RangeError("maxChunks must be a positive integer");
+  }
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length && chunks.length < maxChunks) {
+    const end = start + size >= text.length ? text.length : findBreak(text, start, start + size);
+    chunks.push(text.slice(start, end).trim());
+    if (end >= text.length) {
+      return { chunks, truncated: false };
+    }
+
+    // Begin the next chunk on a word boundary inside the overlap, never at or before this chunk's start.
+    const overlapStart = Math.max(end - overlap, start + 1);
+    const boundary = text.slice(overlapStart, end).search(/\s/);
+    start = boundary === -1 ? end : overlapStart + boundary + 1;
+  }
+
+  return { chunks, truncated: start < text.length };
+}
+
+// Combines per-chunk decisions into one: a post is relevant when any chunk is, so an AI section near the end counts.
+export function reduceChunkAnalyses(results: readonly AnalysisResult[], options: { truncated?: boolean } = {}): AnalysisResult {
+  if (results.length === 0) {
+    throw new RangeError("At least one chunk result is required");
+  }
+
+  // Degraded fallbacks describe an outage rather than the chunk, so they do not take part in the decision.
+  const counted = results.filter((result) => !result.degraded);
+  const relevantCount = counted.filter((result) => result.relevant).length;
+  const chunks: ChunkSummary = {
+    count: results.length,
+    relevant: relevantCount,
+    ...(options.truncated ? { truncated: true } : {}),
+  };
+  if (counted.length === 0) {
+    return { ...results[0], chunks };
+  }
+
+  const relevant = relevantCount > 0;
+  const side = relevant ? counted.filter((result) => result.relevant) : counted;
+  const spokesperson = side.reduce((best, result) => ((result.confidence ?? 0) > (best.confidence ?? 0) ? result : best));
+
+  return {
+    relevant,
+    confidence: mergeConfidence(side, relevant),
+    reason: spokesperson.reason,
+    tags: mergeTags(side),
+    rawResponse: spokesperson.rawResponse,
+    // A negative decision with unanswered chunks is incomplete; marking it partial keeps it out of the analysis cache.
+    partial: (!relevant && counted.length < results.length) || counted.some((result) => result.partial) || undefined,
+    schemaViolation: results.some((result) => result.schemaViolation) || undefined,
+    topics: mergeTopics(counted),
+    votes: spokesperson.votes,
+    chunks,
+  };
+}
+
+function findBreak(text: string, start: number, limit: number): number {
+  // Only break early when that keeps at least half a chunk; otherwise cut mid-word.
+  const minimum = start + Math.floor((limit - start) / 2);
+  for (const separator of ["\n\n", "\n", " "]) {
+    const index = text.lastIndexOf(separator, limit - separator.length);
+    if (index >= minimum) {
+      return index + separator.length;
+    }
+  }
+  return limit;
+}
+
+// Relevant means "some chunk is", so the strongest chunk speaks for the post; irrelevant means "every chunk is", so the weakest does.
+function mergeConfidence(decisions: readonly TopicDecision[], relevant: boolean): number | undefined {
+  const confidences = decisions
+    .map((decision) => decision.confidence)
+    .filter((value): value is number => value !== undefined);
+  if (confidences.length === 0) {
+    return undefined;
+  }
+  return relevant ? Math.max(...confidences) : Math.min(...confidences);
+}
+
+function mergeTags(results: readonly AnalysisResult[]): string[] | undefined {
+  const tags = new Map<string, string>();
+  for (const tag of results.flatMap((result) => result.tags ?? [])) {
+    const key = tag.trim().toLowerCase();
+    if (key && !tags.has(key)) {
+      tags.set(key, tag.trim());
+    }
+  }
+  return tags.size > 0 ? Array.from(tags.values()) : undefined;
+}
+
+function mergeTopics(results: readonly AnalysisResult[]): Record<string, TopicDecision> | undefined {
+  if (!results.every((result) => result.topics)) {
+    return undefined;
+  }
+
+  const names = Array.from(new Set(results.flatMap((result) => Object.keys(result.topics ?? {}))));
+  return Object.fromEntries(
+    names.map((name) => {
+      const decisions = results.map((result) => result.topics?.[name] ?? { relevant: false });
+      const relevant = decisions.some((decision) => decision.relevant);
+      const side = relevant ? decisions.filter((decision) => decision.relevant) : decisions;
+      return [name, { relevant, confidence: mergeConfidence(side, relevant) }];
+    }),
+  );
+}
@@ -0,0 +1,60 @@
+import Ajv, { type ValidateFunction } from "ajv";
+
+// Sent as Ollama's `format` parameter and reused to validate whatever the model returns.
+export const ANALYSIS_DECISION_SCHEMA = {
+  type: "object",
+  properties: {
+    relevant: { type: "boolean" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    reason: { type: "string" },
+    tags: { type: "array", items: { type: "string" }, maxItems: 3 },
+  },
+  required: ["relevant", "confidence", "reason", "tags"],
+} as const;
+
+// Multi-topic runs ask for one relevance/confidence pair per topic name in a single reply.
+export function createMultiTopicDecisionSchema(topicNames: readonly string[]) {
+  const topicDecision = {
+    type: "object",
+    properties: {
+      relevant: { type: "boolean" },
+      confidence: { type: "number", minimum: 0, maximum: 1 },
+    },
+    required: ["relevant", "confidence"],
+  };
+
+  return {
+    type: "object",
+    properties: {
+      topics: {
+        type: "object",
+        properties: Object.fromEntries(topicNames.map((name) => [name, topicDecision])),
+        required: [...topicNames],
+      },
+      reason: { type: "string" },
+      tags: { type: "array", items: { type: "string" }, maxItems: 3 },
+    },
+    required: ["topics", "reason", "tags"],
+  };
+}
+
+const validators = new WeakMap<object, ValidateFunction>();
+
+export function validateAnalysisDecision(
+  value: unknown,
+  schema: object = ANALYSIS_DECISION_SCHEMA,
+): { valid: true } | { valid: false; errors: string } {
+  let validator = validators.get(schema);
+  if (!validator) {
+    validator = new Ajv({ allErrors: true, strict: false }).compile(schema);
+    validators.set(schema, validator);
+  }
+
+  if (validator(value)) {
+    return { valid: true };
+  }
+
+  const errors = validator.errors?.map((err) => `${err.instancePath || "/"} ${err.message ?? "is invalid"}`).join("; ") ||
+    "Response failed schema validation";
+  return { valid: false, errors };
+}
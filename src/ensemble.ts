@@ -0,0 +1,169 @@
+import type { AnalysisResult, ModelVote, TopicDecision } from "./llm-client.js";
+import type { ProviderClient } from "./providers.js";
+
+export type EnsembleMode = "all" | "cascade";
+export type VoteStrategy = "majority" | "unanimous" | "weighted";
+
+export const ENSEMBLE_MODES: EnsembleMode[] = ["all", "cascade"];
+export const VOTE_STRATEGIES: VoteStrategy[] = ["majority", "unanimous", "weighted"];
+export const DEFAULT_ENSEMBLE_MODE: EnsembleMode = "all";
+export const DEFAULT_VOTE_STRATEGY: VoteStrategy = "majority";
+export const DEFAULT_CASCADE_THRESHOLD = 0.75;
+
+// Weighted votes without a reported confidence count as a coin flip.
+const UNKNOWN_CONFIDENCE_WEIGHT = 0.5;
+
+export interface EnsembleMember {
+  model: string;
+  client: ProviderClient;
+}
+
+export interface EnsembleOptions {
+  mode?: EnsembleMode;
+  vote?: VoteStrategy;
+  // In cascade mode the first model's decision stands when its confidence reaches this value.
+  cascadeThreshold?: number;
+}
+
+interface Ballot {
+  relevant: boolean;
+  confidence?: number;
+}
+
+// Classifies each post with several models and combines their decisions; every vote is kept on the result.
+export class EnsembleClient implements ProviderClient {
+  private readonly mode: EnsembleMode;
+  private readonly vote: VoteStrategy;
+  private readonly cascadeThreshold: number;
+
+  constructor(
+    private readonly members: readonly EnsembleMember[],
+    options: EnsembleOptions = {},
+  ) {
+    if (members.length === 0) {
+      throw new RangeError("An ensemble needs at least one model");
+    }
+
+    this.mode = options.mode ?? DEFAULT_ENSEMBLE_MODE;
+    this.vote = options.vote ?? DEFAULT_VOTE_STRATEGY;
+    this.cascadeThreshold = options.cascadeThreshold ?? DEFAULT_CASCADE_THRESHOLD;
+  }
+
+  get model(): string {
+    return this.members.map((member) => member.model).join("+");
+  }
+
+  // Cached decisions depend on how votes are combined, not just on the prompt.
+  get promptVersion(): string {
+    const threshold = this.mode === "cascade" ? `@${this.cascadeThreshold}` : "";
+    return `${this.members[0].client.promptVersion ?? "unknown"}:${this.mode}${threshold}:${this.vote}`;
+  }
+
+  async checkConnection(options: { signal?: AbortSignal } = {}): Promise<boolean> {
+    for (const member of this.members) {
+      await member.client.checkConnection(options);
+    }
+    return true;
+  }
+
+  async analyze(description: string, options: { gracefulDegradation?: boolean } = {}): Promise<AnalysisResult> {
+    const [first, ...rest] = this.members;
+    const results: Array<{ model: string; result: AnalysisResult }> = [
+      { model: first.model, result: await first.client.analyze(description, options) },
+    ];
+
+    if (this.mode === "all" || !this.isConfident(results[0].result)) {
+      // One model at a time, so a post holds a single request per slot of the analyzer's model queue (--llm-parallel).
+      for (const member of rest) {
+        results.push({ model: member.model, result: await member.client.analyze(description, options) });
+      }
+    }
+
+    const votes: ModelVote[] = results.map(({ model, result }) => ({
+      model,
+      relevant: result.relevant,
+      confidence: result.confidence,
+      reason: result.reason,
+      degraded: result.degraded,
+    }));
+
+    // Degraded fallbacks describe an outage rather than the post, so they do not get a vote.
+    const counted = results.filter(({ result }) => !result.degraded);
+    if (counted.length === 0) {
+      return { ...results[0].result, votes };
+    }
+
+    const decision = this.combine(counted.map(({ result }) => result));
+    const spokesperson = this.pickSpokesperson(counted.map(({ result }) => result), decision.relevant);
+
+    return {
+      relevant: decision.relevant,
+      confidence: decision.confidence,
+      reason: spokesperson.reason,
+      tags: spokesperson.tags,
+      rawResponse: spokesperson.rawResponse,
+      schemaViolation: counted.some(({ result }) => result.schemaViolation) || undefined,
+      topics: this.combineTopics(counted.map(({ result }) => result)),
+      votes,
+      // A decision missing some votes still stands, but is retried on the next run instead of being cached.
+      partial: counted.length < results.length || counted.some(({ result }) => result.partial) || undefined,
+    };
+  }
+
+  private isConfident(result: AnalysisResult): boolean {
+    return !result.degraded && result.confidence !== undefined && result.confidence >= this.cascadeThreshold;
+  }
+
+  private combine(ballots: readonly Ballot[]): Ballot {
+    const yes = ballots.filter((ballot) => ballot.relevant);
+    const no = ballots.filter((ballot) => !ballot.relevant);
+
+    if (this.vote === "weighted") {
+      const yesWeight = sumWeights(yes);
+      const noWeight = sumWeights(no);
+      const total = yesWeight + noWeight;
+      return {
+        relevant: yesWeight > noWeight,
+        confidence: total > 0 ? Math.max(yesWeight, noWeight) / total : undefined,
+      };
+    }
+
+    const relevant = this.vote === "unanimous" ? no.length === 0 : yes.length > no.length;
+    return { relevant, confidence: averageConfidence(relevant ? yes : no) };
+  }
+
+  private combineTopics(results: readonly AnalysisResult[]): Record<string, TopicDecision> | undefined {
+    if (!results.every((result) => result.topics)) {
+      return undefined;
+    }
+
+    const names = Object.keys(results[0].topics ?? {});
+    return Object.fromEntries(
+      names.map((name) => [
+        name,
+        this.combine(results.map((result) => result.topics?.[name] ?? { relevant: false })),
+      ]),
+    );
+  }
+
+  // The reason and tags come from the most confident model on the winning side.
+  private pickSpokesperson(results: readonly AnalysisResult[], relevant: boolean): AnalysisResult {
+    const winners = results.filter((result) => result.relevant === relevant);
+    const candidates = winners.length > 0 ? winners : results;
+    return candidates.reduce((best, result) => ((result.confidence ?? 0) > (best.confidence ?? 0) ? result : best));
+  }
+}
+
+function sumWeights(ballots: readonly Ballot[]): number {
+  return ballots.reduce((sum, ballot) => sum + (ballot.confidence ?? UNKNOWN_CONFIDENCE_WEIGHT), 0);
+}
+
+function averageConfidence(ballots: readonly Ballot[]): number | undefined {
+  const confidences = ballots
+    .map((ballot) => ballot.confidence)
+    .filter((value): value is number => value !== undefined);
+  if (confidences.length === 0) {
+    return undefined;
+  }
+  return confidences.reduce((sum, value) => sum + value, 0) / confidences.length;
+}
@@ -0,0 +1,313 @@
+import { readFile } from "node:fs/promises";
+import Ajv, { type ValidateFunction } from "ajv";
+import { buildAnalysisText, type AnalysisClient } from "./analyzer.js";
+import type { AnalysisResult } from "./llm-client.js";
+import { asyncPool } from "./utils.js";
+
+export type EvaluationDatasetErrorKind = "read-error" | "parse-error" | "validation-error";
+
+export class EvaluationDatasetError extends Error {
+  constructor(message: string, public readonly kind: EvaluationDatasetErrorKind, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "EvaluationDatasetError";
+  }
+}
+
+export interface EvaluationExample {
+  id?: string;
+  title: string;
+  content: string;
+  link?: string;
+  relevant: boolean;
+  tags?: string[];
+}
+
+export type Outcome = "true-positive" | "false-positive" | "false-negative" | "true-negative";
+
+export interface EvaluatedExample {
+  id: string;
+  title: string;
+  expected: boolean;
+  predicted?: boolean;
+  // Undefined when the client could not produce a decision (degraded or empty text); such examples are skipped.
+  outcome?: Outcome;
+  confidence?: number;
+  reason?: string;
+  tags?: string[];
+  expectedTags?: string[];
+  // Set when the client threw for this example; failed examples are counted apart from skipped ones.
+  error?: string;
+}
+
+export interface ConfusionMatrix {
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+}
+
+export interface ClassificationMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  accuracy: number;
+}
+
+export interface TagMetrics {
+  examples: number;
+  precision: number;
+  recall: number;
+}
+
+export interface EvaluationReport {
+  generatedAt: string;
+  dataset: string;
+  model?: string;
+  promptVersion?: string;
+  total: number;
+  evaluated: number;
+  skipped: number;
+  failed: number;
+  confusionMatrix: ConfusionMatrix;
+  metrics: ClassificationMetrics;
+  tagMetrics?: TagMetrics;
+  examples: EvaluatedExample[];
+}
+
+export interface EvaluateOptions {
+  dataset: string;
+  parallel?: number;
+  clock?: () => number;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+const DATASET_SCHEMA = {
+  type: "array",
+  items: {
+    type: "object",
+    required: ["title", "content", "relevant"],
+    properties: {
+      id: { type: "string" },
+      title: { type: "string" },
+      content: { type: "string", minLength: 1 },
+      link: { type: "string" },
+      relevant: { type: "boolean" },
+      tags: { type: "array", items: { type: "string" } },
+    },
+  },
+} as const;
+
+let datasetValidator: ValidateFunction<EvaluationExample[]> | undefined;
+
+export async function loadEvaluationDataset(filePath: string): Promise<EvaluationExample[]> {
+  let rawContents: string;
+  try {
+    rawContents = await readFile(filePath, "utf8");
+  } catch (error) {
+    throw new EvaluationDatasetError(`Unable to read evaluation dataset at ${filePath}`, "read-error", { cause: error });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawContents) as unknown;
+  } catch (error) {
+    throw new EvaluationDatasetError(`Unable to parse evaluation dataset at ${filePath}`, "parse-error", { cause: error });
+  }
+
+  datasetValidator ??= new Ajv({ allErrors: true, strict: false }).compile<EvaluationExample[]>(DATASET_SCHEMA);
+  if (!datasetValidator(parsed)) {
+    const message = datasetValidator.errors?.map((err) => `${err.instancePath || "/"} ${err.message ?? "is invalid"}`).join("; ") ||
+      "Evaluation dataset failed schema validation";
+    throw new EvaluationDatasetError(`${filePath}: ${message}`, "validation-error");
+  }
+
+  return parsed;
+}
+
+export async function evaluateClassifier(
+  examples: readonly EvaluationExample[],
+  client: AnalysisClient,
+  options: EvaluateOptions,
+): Promise<EvaluationReport> {
+  const clock = options.clock ?? (() => Date.now());
+  let completed = 0;
+
+  const evaluated = await asyncPool(
+    examples,
+    async (example, index) => {
+      const result = await classifyExample(example, index, client).catch(
+        (error: unknown): EvaluatedExample => ({
+          ...describeExample(example, index),
+          error: error instanceof Error ? error.message : String(error),
+        }),
+      );
+      completed += 1;
+      options.onProgress?.(completed, examples.length);
+      return result;
+    },
+    { concurrency: options.parallel ?? 1 },
+  );
+
+  const confusionMatrix = buildConfusionMatrix(evaluated);
+  const failed = evaluated.filter((example) => example.error !== undefined).length;
+  const skipped = evaluated.filter((example) => !example.outcome).length - failed;
+
+  return {
+    generatedAt: new Date(clock()).toISOString(),
+    dataset: options.dataset,
+    model: client.model,
+    promptVersion: client.promptVersion,
+    total: examples.length,
+    evaluated: examples.length - skipped - failed,
+    skipped,
+    failed,
+    confusionMatrix,
+    metrics: computeMetrics(confusionMatrix),
+    tagMetrics: computeTagMetrics(evaluated),
+    examples: evaluated,
+  };
+}
+
+export function computeMetrics(matrix: ConfusionMatrix): ClassificationMetrics {
+  const { truePositives: tp, falsePositives: fp, falseNegatives: fn, trueNegatives: tn } = matrix;
+  const precision = ratio(tp, tp + fp);
+  const recall = ratio(tp, tp + fn);
+  return {
+    precision,
+    recall,
+    f1: ratio(2 * precision * recall, precision + recall),
+    accuracy: ratio(tp + tn, tp + fp + fn + tn),
+  };
+}
+
+export function formatEvaluationSummary(report: EvaluationReport): string {
+  const { confusionMatrix: matrix, metrics } = report;
+  const notes = [
+    report.skipped > 0 ? `${report.skipped} skipped without a decision` : undefined,
+    report.failed > 0 ? `${report.failed} failed` : undefined,
+  ].filter((note) => note !== undefined);
+  const lines = [
+    `Evaluated ${report.evaluated} of ${report.total} examples from ${report.dataset}` +
+      (report.model ? ` with ${report.model}` : "") +
+      (notes.length > 0 ? ` (${notes.join(", ")})` : "") +
+      ".",
+    `Precision: ${formatMetric(metrics.precision)}  Recall: ${formatMetric(metrics.recall)}  F1: ${formatMetric(metrics.f1)}  Accuracy: ${formatMetric(metrics.accuracy)}`,
+  ];
+
+  if (report.tagMetrics) {
+    lines.push(
+      `Tags (${report.tagMetrics.examples} labeled examples): precision ${formatMetric(report.tagMetrics.precision)}, recall ${formatMetric(report.tagMetrics.recall)}`,
+    );
+  }
+
+  lines.push(
+    "Confusion matrix:",
+    "                     predicted relevant  predicted not relevant",
+    `  actual relevant     ${String(matrix.truePositives).padStart(18)}  ${String(matrix.falseNegatives).padStart(22)}`,
+    `  actual not relevant ${String(matrix.falsePositives).padStart(18)}  ${String(matrix.trueNegatives).padStart(22)}`,
+  );
+
+  const misclassified = report.examples.filter(
+    (example) => example.outcome === "false-positive" || example.outcome === "false-negative",
+  );
+  if (misclassified.length > 0) {
+    lines.push("Misclassified examples:");
+    for (const example of misclassified) {
+      const reason = example.reason ? ` — ${example.reason}` : "";
+      lines.push(`- [${example.outcome}] ${example.title} (${example.id})${reason}`);
+    }
+  }
+
+  const failedExamples = report.examples.filter((example) => example.error !== undefined);
+  if (failedExamples.length > 0) {
+    lines.push("Failed examples:");
+    for (const example of failedExamples) {
+      lines.push(`- ${example.title} (${example.id}) — ${example.error}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function describeExample(example: EvaluationExample, index: number): EvaluatedExample {
+  return {
+    id: example.id ?? example.link ?? `#${index + 1}`,
+    title: example.title,
+    expected: example.relevant,
+    expectedTags: example.tags,
+  };
+}
+
+async function classifyExample(example: EvaluationExample, index: number, client: AnalysisClient): Promise<EvaluatedExample> {
+  const base = describeExample(example, index);
+  const text = buildAnalysisText({ title: example.title, link: example.link ?? base.id, content: example.content });
+  if (!text) {
+    return base;
+  }
+
+  const analysis: AnalysisResult = await client.analyze(text, { gracefulDegradation: true });
+  if (analysis.degraded) {
+    return { ...base, reason: analysis.reason };
+  }
+
+  return {
+    ...base,
+    predicted: analysis.relevant,
+    outcome: classifyOutcome(example.relevant, analysis.relevant),
+    confidence: analysis.confidence,
+    reason: analysis.reason,
+    tags: analysis.tags,
+  };
+}
+
+function classifyOutcome(expected: boolean, predicted: boolean): Outcome {
+  if (predicted) {
+    return expected ? "true-positive" : "false-positive";
+  }
+  return expected ? "false-negative" : "true-negative";
+}
+
+function buildConfusionMatrix(examples: readonly EvaluatedExample[]): ConfusionMatrix {
+  const matrix: ConfusionMatrix = { truePositives: 0, falsePositives: 0, falseNegatives: 0, trueNegatives: 0 };
+  for (const example of examples) {
+    if (example.outcome === "true-positive") {
+      matrix.truePositives += 1;
+    } else if (example.outcome === "false-positive") {
+      matrix.falsePositives += 1;
+    } else if (example.outcome === "false-negative") {
+      matrix.falseNegatives += 1;
+    } else if (example.outcome === "true-negative") {
+      matrix.trueNegatives += 1;
+    }
+  }
+  return matrix;
+}
+
+// Micro-averaged over examples that carry expected tags and received a decision.
+function computeTagMetrics(examples: readonly EvaluatedExample[]): TagMetrics | undefined {
+  const labeled = examples.filter((example) => example.outcome && example.expectedTags?.length);
+  if (labeled.length === 0) {
+    return undefined;
+  }
+
+  let matched = 0;
+  let predicted = 0;
+  let expected = 0;
+  for (const example of labeled) {
+    const expectedTags = new Set((example.expectedTags ?? []).map((tag) => tag.toLowerCase()));
+    const predictedTags = example.tags ?? [];
+    matched += predictedTags.filter((tag) => expectedTags.has(tag)).length;
+    predicted += predictedTags.length;
+    expected += expectedTags.size;
+  }
+
+  return { examples: labeled.length, precision: ratio(matched, predicted), recall: ratio(matched, expected) };
+}
+
+function ratio(numerator: number, denominator: number): number {
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function formatMetric(value: number): string {
+  return value.toFixed(3);
+}
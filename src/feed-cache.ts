@@ -0,0 +1,93 @@
+import { readStateFile, STATE_FILE_VERSION, writeStateFile } from "./state-file.js";
+import type { FeedCacheEntry, FeedCacheStore } from "./types.js";
+
+export const DEFAULT_FEED_CACHE_TTL_MS = 1000 * 60 * 60;
+
+export interface FeedCacheOptions {
+  ttlMs?: number;
+  clock?: () => number;
+}
+
+interface FeedCachePayload {
+  version: number;
+  entries: Record<string, FeedCacheEntry>;
+}
+
+// On-disk store of parsed feeds plus their HTTP validators so later runs can issue conditional GETs.
+export class FeedCache implements FeedCacheStore {
+  private readonly entries = new Map<string, FeedCacheEntry>();
+  private readonly ttlMs: number;
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly filePath: string,
+    options: FeedCacheOptions = {},
+  ) {
+    this.ttlMs = options.ttlMs ?? DEFAULT_FEED_CACHE_TTL_MS;
+    this.clock = options.clock ?? (() => Date.now());
+  }
+
+  static async load(filePath: string, options: FeedCacheOptions = {}): Promise<FeedCache> {
+    const cache = new FeedCache(filePath, options);
+    const payload = await readStateFile<Partial<FeedCachePayload>>(filePath, {});
+
+    if (payload.version === STATE_FILE_VERSION && payload.entries && typeof payload.entries === "object") {
+      for (const [url, entry] of Object.entries(payload.entries)) {
+        if (entry && entry.feed && Array.isArray(entry.feed.items)) {
+          // Entries written by older versions also carried the raw body, which nothing reads.
+          const { body: _body, ...rest } = entry as FeedCacheEntry & { body?: unknown };
+          cache.entries.set(url, rest);
+        }
+      }
+    }
+
+    return cache;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(url: string): FeedCacheEntry | undefined {
+    return this.entries.get(url);
+  }
+
+  isFresh(entry: FeedCacheEntry): boolean {
+    if (this.ttlMs <= 0) {
+      return false;
+    }
+
+    const fetchedAt = Date.parse(entry.fetchedAt);
+    if (Number.isNaN(fetchedAt)) {
+      return false;
+    }
+
+    return this.clock() - fetchedAt < this.ttlMs;
+  }
+
+  store(url: string, entry: Omit<FeedCacheEntry, "fetchedAt">): void {
+    const { fetchInfo: _fetchInfo, ...feed } = entry.feed;
+    this.entries.set(url, {
+      ...entry,
+      feed,
+      fetchedAt: new Date(this.clock()).toISOString(),
+    });
+  }
+
+  touch(url: string): void {
+    const existing = this.entries.get(url);
+    if (!existing) {
+      return;
+    }
+
+    this.entries.set(url, { ...existing, fetchedAt: new Date(this.clock()).toISOString() });
+  }
+
+  async save(): Promise<void> {
+    const payload: FeedCachePayload = {
+      version: STATE_FILE_VERSION,
+      entries: Object.fromEntries(this.entries),
+    };
+    await writeStateFile(this.filePath, payload);
+  }
+}
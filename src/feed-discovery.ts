@@ -0,0 +1,36 @@
+import { hasRel, readTags, resolveHttpUrl } from "./html-tags.js";
+
+// Tried on the site's origin after any feeds the page advertises, in this order.
+export const COMMON_FEED_PATHS = ["/feed", "/rss.xml", "/index.xml", "/feed.xml", "/atom.xml", "/rss"];
+
+const FEED_LINK_TYPE_PATTERN = /^application\/(?:rss\+xml|atom\+xml|feed\+json)$/i;
+
+// Returns the feeds advertised by `<link rel="alternate">` tags, resolved against the page URL, in document order.
+export function extractFeedLinks(html: string, pageUrl: string): string[] {
+  const links: string[] = [];
+
+  for (const attributes of readTags(html, "link")) {
+    if (!hasRel(attributes, "alternate") || !FEED_LINK_TYPE_PATTERN.test(attributes.type ?? "") || !attributes.href) {
+      continue;
+    }
+
+    const resolved = resolveHttpUrl(attributes.href, pageUrl);
+    if (resolved && !links.includes(resolved)) {
+      links.push(resolved);
+    }
+  }
+
+  return links;
+}
+
+// Advertised feeds first, then the common paths; the broken feed URL itself is never retried.
+export function buildDiscoveryCandidates(feedUrl: string, siteUrl: string, html?: string, pageUrl: string = siteUrl): string[] {
+  const candidates = [
+    ...(html ? extractFeedLinks(html, pageUrl) : []),
+    ...COMMON_FEED_PATHS.map((feedPath) => resolveHttpUrl(feedPath, siteUrl)),
+  ];
+
+  return Array.from(new Set(candidates.filter((candidate): candidate is string => Boolean(candidate)))).filter(
+    (candidate) => candidate !== feedUrl,
+  );
+}
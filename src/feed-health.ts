@@ -0,0 +1,300 @@
+import type { FeedAnalysisResult } from "./analyzer.js";
+import { FeedFetchError, type FeedFetchErrorKind } from "./rss-parser.js";
+import { readStateFile, STATE_FILE_VERSION, writeStateFile } from "./state-file.js";
+
+export type FeedHealthStatus = "healthy" | "flaky" | "moved" | "dead" | "dormant";
+
+// Most urgent first; reports list feeds in this order.
+export const FEED_HEALTH_STATUSES: FeedHealthStatus[] = ["dead", "moved", "flaky", "dormant", "healthy"];
+
+// Number of checks kept per feed; flakiness is judged over this window.
+export const FEED_HEALTH_HISTORY_LIMIT = 10;
+
+export const DEFAULT_FEED_HEALTH_THRESHOLDS: FeedHealthThresholds = {
+  deadAfterFailures: 3,
+  deadAfterDays: 30,
+  flakyFailures: 2,
+  dormantAfterDays: 180,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface FeedHealthThresholds {
+  // A feed is dead after this many failures in a row with no success for `deadAfterDays`.
+  deadAfterFailures: number;
+  deadAfterDays: number;
+  // Failures among the recent checks that make a working feed flaky.
+  flakyFailures: number;
+  // A working feed whose newest post is older than this is dormant.
+  dormantAfterDays: number;
+}
+
+export interface FeedHealthCheck {
+  checkedAt: string;
+  ok: boolean;
+  errorKind?: FeedFetchErrorKind;
+  httpStatus?: number;
+}
+
+export interface FeedHealthEntry {
+  feedUrl: string;
+  // Oldest first, capped at FEED_HEALTH_HISTORY_LIMIT.
+  checks: FeedHealthCheck[];
+  consecutiveFailures: number;
+  lastSuccessAt?: string;
+  newestItemAt?: string;
+  // Permanent redirect target or discovered feed seen on the latest successful check.
+  movedTo?: string;
+}
+
+export interface FeedHealthObservation {
+  feedUrl: string;
+  ok: boolean;
+  errorKind?: FeedFetchErrorKind;
+  httpStatus?: number;
+  movedTo?: string;
+  newestItemAt?: string;
+}
+
+export interface FeedHealthReportEntry {
+  feedUrl: string;
+  status: FeedHealthStatus;
+  reason: string;
+  checks: number;
+  recentFailures: number;
+  consecutiveFailures: number;
+  lastCheckedAt?: string;
+  lastSuccessAt?: string;
+  lastErrorKind?: FeedFetchErrorKind;
+  lastHttpStatus?: number;
+  newestItemAt?: string;
+  movedTo?: string;
+}
+
+export interface FeedHealthStoreOptions {
+  clock?: () => number;
+}
+
+interface FeedHealthPayload {
+  version: number;
+  feeds: FeedHealthEntry[];
+}
+
+// Keeps a short per-feed fetch history across runs so a flaky feed can be told apart from one that has been dead for months.
+export class FeedHealthStore {
+  private readonly entries = new Map<string, FeedHealthEntry>();
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly filePath: string,
+    options: FeedHealthStoreOptions = {},
+  ) {
+    this.clock = options.clock ?? (() => Date.now());
+  }
+
+  static async load(filePath: string, options: FeedHealthStoreOptions = {}): Promise<FeedHealthStore> {
+    const store = new FeedHealthStore(filePath, options);
+    const payload = await readStateFile<Partial<FeedHealthPayload>>(filePath, {});
+
+    if (payload.version === STATE_FILE_VERSION && Array.isArray(payload.feeds)) {
+      for (const entry of payload.feeds) {
+        if (entry && typeof entry.feedUrl === "string" && Array.isArray(entry.checks)) {
+          store.entries.set(entry.feedUrl, { ...entry, consecutiveFailures: entry.consecutiveFailures ?? 0 });
+        }
+      }
+    }
+
+    return store;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  get(feedUrl: string): FeedHealthEntry | undefined {
+    return this.entries.get(feedUrl);
+  }
+
+  record(observation: FeedHealthObservation): void {
+    const checkedAt = new Date(this.clock()).toISOString();
+    const previous = this.entries.get(observation.feedUrl);
+    const check: FeedHealthCheck = { checkedAt, ok: observation.ok };
+    if (observation.errorKind) {
+      check.errorKind = observation.errorKind;
+    }
+    if (observation.httpStatus !== undefined) {
+      check.httpStatus = observation.httpStatus;
+    }
+
+    const entry: FeedHealthEntry = {
+      feedUrl: observation.feedUrl,
+      checks: [...(previous?.checks ?? []), check].slice(-FEED_HEALTH_HISTORY_LIMIT),
+      consecutiveFailures: observation.ok ? 0 : (previous?.consecutiveFailures ?? 0) + 1,
+      lastSuccessAt: observation.ok ? checkedAt : previous?.lastSuccessAt,
+      newestItemAt: latestDate(previous?.newestItemAt, observation.newestItemAt),
+      // A failed check says nothing about where the feed lives, so the last known move is kept.
+      movedTo: observation.ok ? observation.movedTo : previous?.movedTo,
+    };
+
+    this.entries.set(observation.feedUrl, entry);
+  }
+
+  report(thresholds: FeedHealthThresholds = DEFAULT_FEED_HEALTH_THRESHOLDS): FeedHealthReportEntry[] {
+    const now = this.clock();
+    const entries = Array.from(this.entries.values()).map((entry) => buildReportEntry(entry, thresholds, now));
+    return entries.sort(
+      (left, right) =>
+        FEED_HEALTH_STATUSES.indexOf(left.status) - FEED_HEALTH_STATUSES.indexOf(right.status) ||
+        left.feedUrl.localeCompare(right.feedUrl),
+    );
+  }
+
+  async save(): Promise<void> {
+    const payload: FeedHealthPayload = {
+      version: STATE_FILE_VERSION,
+      feeds: Array.from(this.entries.values()),
+    };
+    await writeStateFile(this.filePath, payload);
+  }
+}
+
+// A feed counts as fetched whenever the analyzer got a parsed feed back, even if analyzing its posts failed later.
+export function observeFeedResult(result: FeedAnalysisResult): FeedHealthObservation {
+  if (!result.feed) {
+    const error = result.error;
+    return {
+      feedUrl: result.feedUrl,
+      ok: false,
+      errorKind: error instanceof FeedFetchError ? error.kind : undefined,
+      httpStatus: error instanceof FeedFetchError ? error.status : undefined,
+    };
+  }
+
+  const fetchInfo = result.feed.fetchInfo;
+  const newestItemAt = result.feed.items.reduce<string | undefined>(
+    (newest, item) => latestDate(newest, item.publishedAt),
+    undefined,
+  );
+
+  return {
+    feedUrl: result.feedUrl,
+    ok: true,
+    movedTo: fetchInfo?.discoveredUrl ?? fetchInfo?.permanentRedirect,
+    newestItemAt,
+  };
+}
+
+export function classifyFeedHealth(
+  entry: FeedHealthEntry,
+  thresholds: FeedHealthThresholds,
+  now: number,
+): { status: FeedHealthStatus; reason: string } {
+  const lastCheck = entry.checks[entry.checks.length - 1];
+  const daysSinceSuccess = entry.lastSuccessAt ? daysBetween(entry.lastSuccessAt, now) : undefined;
+
+  if (
+    entry.consecutiveFailures >= thresholds.deadAfterFailures &&
+    (daysSinceSuccess === undefined || daysSinceSuccess >= thresholds.deadAfterDays)
+  ) {
+    const since = entry.lastSuccessAt ? `last success ${entry.lastSuccessAt.slice(0, 10)}` : "never fetched successfully";
+    return {
+      status: "dead",
+      reason: `${entry.consecutiveFailures} consecutive failures${describeFailure(lastCheck)}; ${since}`,
+    };
+  }
+
+  if (entry.movedTo) {
+    return { status: "moved", reason: `now served from ${entry.movedTo}` };
+  }
+
+  const recentFailures = entry.checks.filter((check) => !check.ok).length;
+  if (recentFailures >= thresholds.flakyFailures || (lastCheck && !lastCheck.ok)) {
+    return {
+      status: "flaky",
+      reason: `${recentFailures} of the last ${entry.checks.length} checks failed${describeFailure(lastCheck)}`,
+    };
+  }
+
+  const daysSincePost = entry.newestItemAt ? daysBetween(entry.newestItemAt, now) : undefined;
+  if (daysSincePost === undefined || daysSincePost >= thresholds.dormantAfterDays) {
+    return {
+      status: "dormant",
+      reason: entry.newestItemAt ? `newest post ${entry.newestItemAt.slice(0, 10)}` : "no dated posts",
+    };
+  }
+
+  return { status: "healthy", reason: `newest post ${entry.newestItemAt?.slice(0, 10)}` };
+}
+
+export function formatFeedHealthReport(entries: readonly FeedHealthReportEntry[], thresholds: FeedHealthThresholds): string {
+  if (entries.length === 0) {
+    return "No feed health history yet; run an analysis with --state-dir first.\n";
+  }
+
+  const counts = FEED_HEALTH_STATUSES.map(
+    (status) => `${status} ${entries.filter((entry) => entry.status === status).length}`,
+  );
+  const lines = [
+    `Feed health for ${entries.length} ${entries.length === 1 ? "feed" : "feeds"}: ${counts.join(", ")}.`,
+    `Thresholds: dead after ${thresholds.deadAfterFailures} failures and ${thresholds.deadAfterDays} days without success, ` +
+      `flaky at ${thresholds.flakyFailures} failures in the last ${FEED_HEALTH_HISTORY_LIMIT} checks, ` +
+      `dormant after ${thresholds.dormantAfterDays} days without new posts.`,
+  ];
+
+  // Healthy feeds only appear in the counts.
+  for (const status of FEED_HEALTH_STATUSES.filter((value) => value !== "healthy")) {
+    const matching = entries.filter((entry) => entry.status === status);
+    if (matching.length === 0) {
+      continue;
+    }
+    lines.push(`${status[0].toUpperCase()}${status.slice(1)}:`);
+    for (const entry of matching) {
+      lines.push(`  - ${entry.feedUrl}: ${entry.reason}`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function buildReportEntry(entry: FeedHealthEntry, thresholds: FeedHealthThresholds, now: number): FeedHealthReportEntry {
+  const { status, reason } = classifyFeedHealth(entry, thresholds, now);
+  const lastCheck = entry.checks[entry.checks.length - 1];
+  return {
+    feedUrl: entry.feedUrl,
+    status,
+    reason,
+    checks: entry.checks.length,
+    recentFailures: entry.checks.filter((check) => !check.ok).length,
+    consecutiveFailures: entry.consecutiveFailures,
+    lastCheckedAt: lastCheck?.checkedAt,
+    lastSuccessAt: entry.lastSuccessAt,
+    lastErrorKind: lastCheck?.errorKind,
+    lastHttpStatus: lastCheck?.httpStatus,
+    newestItemAt: entry.newestItemAt,
+    movedTo: entry.movedTo,
+  };
+}
+
+function describeFailure(check: FeedHealthCheck | undefined): string {
+  if (!check || check.ok) {
+    return "";
+  }
+  const details = [check.errorKind, check.httpStatus !== undefined ? `HTTP ${check.httpStatus}` : undefined].filter(Boolean);
+  return details.length > 0 ? ` (latest: ${details.join(", ")})` : "";
+}
+
+function latestDate(left: string | undefined, right: string | undefined): string | undefined {
+  const leftTime = left ? Date.parse(left) : Number.NaN;
+  const rightTime = right ? Date.parse(right) : Number.NaN;
+  if (Number.isNaN(rightTime)) {
+    return Number.isNaN(leftTime) ? undefined : left;
+  }
+  if (Number.isNaN(leftTime) || rightTime > leftTime) {
+    return new Date(rightTime).toISOString();
+  }
+  return left;
+}
+
+function daysBetween(date: string, now: number): number {
+  return (now - Date.parse(date)) / DAY_MS;
+}
@@ -0,0 +1,77 @@
+import { readStateFile, STATE_FILE_VERSION, writeStateFile } from "./state-file.js";
+
+export interface FirstSeenPostRef {
+  guid?: string;
+  link: string;
+}
+
+export interface FirstSeenEntry {
+  id: string;
+  link: string;
+  firstSeenAt: string;
+}
+
+export interface FirstSeenLedgerOptions {
+  clock?: () => number;
+}
+
+interface FirstSeenLedgerPayload {
+  version: number;
+  entries: FirstSeenEntry[];
+}
+
+// Remembers when each undated post first appeared in its feed, the publish date of last resort.
+export class FirstSeenLedger {
+  private readonly entries = new Map<string, FirstSeenEntry>();
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly filePath: string,
+    options: FirstSeenLedgerOptions = {},
+  ) {
+    this.clock = options.clock ?? (() => Date.now());
+  }
+
+  static async load(filePath: string, options: FirstSeenLedgerOptions = {}): Promise<FirstSeenLedger> {
+    const ledger = new FirstSeenLedger(filePath, options);
+    const payload = await readStateFile<Partial<FirstSeenLedgerPayload>>(filePath, {});
+
+    if (payload.version === STATE_FILE_VERSION && Array.isArray(payload.entries)) {
+      for (const entry of payload.entries) {
+        if (entry && typeof entry.id === "string" && typeof entry.link === "string" && typeof entry.firstSeenAt === "string") {
+          ledger.entries.set(entry.id, entry);
+        }
+      }
+    }
+
+    return ledger;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  // Returns when the post was first seen, recording it as seen now on its first appearance.
+  firstSeen(post: FirstSeenPostRef): Date {
+    const id = createPostId(post);
+    let entry = this.entries.get(id);
+    if (!entry) {
+      entry = { id, link: post.link, firstSeenAt: new Date(this.clock()).toISOString() };
+      this.entries.set(id, entry);
+    }
+    return new Date(entry.firstSeenAt);
+  }
+
+  async save(): Promise<void> {
+    const payload: FirstSeenLedgerPayload = {
+      version: STATE_FILE_VERSION,
+      entries: Array.from(this.entries.values()),
+    };
+    await writeStateFile(this.filePath, payload);
+  }
+}
+
+function createPostId(post: FirstSeenPostRef): string {
+  const guid = post.guid?.trim();
+  return guid ? `guid:${guid}` : `link:${post.link.trim()}`;
+}
@@ -0,0 +1,133 @@
+import type { HostRequestLimiter } from "./types.js";
+
+export interface HostLimit {
+  // Requests to the host that may be in flight at once.
+  concurrency: number;
+  // Minimum gap between the starts of two requests to the host.
+  minDelayMs: number;
+}
+
+export type HostLimits = Record<string, Partial<HostLimit>>;
+
+// Applies to every host without a more specific entry; overridden with the "*" key.
+export const DEFAULT_HOST_LIMIT: HostLimit = { concurrency: 2, minDelayMs: 0 };
+export const DEFAULT_HOST_KEY = "*";
+
+// Multi-tenant platforms host many directory entries on subdomains of one service, so each entry is a single bucket shared by all of them.
+export const KNOWN_HOST_LIMITS: Record<string, HostLimit> = {
+  "medium.com": { concurrency: 1, minDelayMs: 1000 },
+  "substack.com": { concurrency: 2, minDelayMs: 500 },
+  "github.io": { concurrency: 2, minDelayMs: 250 },
+  "wordpress.com": { concurrency: 2, minDelayMs: 250 },
+  "blogspot.com": { concurrency: 2, minDelayMs: 250 },
+  "hashnode.dev": { concurrency: 2, minDelayMs: 250 },
+  "dev.to": { concurrency: 1, minDelayMs: 500 },
+};
+
+export interface HostLimiterOptions {
+  // Merged over KNOWN_HOST_LIMITS; keys match the host and all of its subdomains.
+  limits?: HostLimits;
+  clock?: () => number;
+  sleep?: (milliseconds: number) => Promise<void>;
+}
+
+interface HostBucket {
+  limit: HostLimit;
+  active: number;
+  nextStartAt: number;
+  waiters: Array<() => void>;
+}
+
+export class HostLimiter implements HostRequestLimiter {
+  private readonly limits: Record<string, HostLimit>;
+  private readonly buckets = new Map<string, HostBucket>();
+  private readonly clock: () => number;
+  private readonly sleep: (milliseconds: number) => Promise<void>;
+
+  constructor(options: HostLimiterOptions = {}) {
+    this.clock = options.clock ?? (() => Date.now());
+    this.sleep = options.sleep ?? ((milliseconds) => new Promise((resolve) => setTimeout(resolve, milliseconds)));
+    this.limits = {};
+
+    const overrides = options.limits ?? {};
+    const defaultLimit = { ...DEFAULT_HOST_LIMIT, ...overrides[DEFAULT_HOST_KEY] };
+    for (const host of new Set([...Object.keys(KNOWN_HOST_LIMITS), ...Object.keys(overrides)])) {
+      const key = host.toLowerCase();
+      this.limits[key] = { ...(KNOWN_HOST_LIMITS[key] ?? defaultLimit), ...overrides[host] };
+    }
+    this.limits[DEFAULT_HOST_KEY] = defaultLimit;
+  }
+
+  // The bucket a URL belongs to: the longest configured host it falls under, or its own hostname.
+  resolve(url: string): { key: string; limit: HostLimit } {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      return { key: url, limit: this.limits[DEFAULT_HOST_KEY] };
+    }
+
+    const match = Object.keys(this.limits)
+      .filter((host) => host !== DEFAULT_HOST_KEY && (hostname === host || hostname.endsWith(`.${host}`)))
+      .sort((left, right) => right.length - left.length)[0];
+
+    return match ? { key: match, limit: this.limits[match] } : { key: hostname, limit: this.limits[DEFAULT_HOST_KEY] };
+  }
+
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const bucket = this.getBucket(url);
+    await this.acquire(bucket);
+    try {
+      return await task();
+    } finally {
+      bucket.active -= 1;
+      bucket.waiters.shift()?.();
+    }
+  }
+
+  // Holds back every request to the URL's host for `delayMs`, e.g. after a 429 with Retry-After.
+  defer(url: string, delayMs: number): void {
+    const bucket = this.getBucket(url);
+    bucket.nextStartAt = Math.max(bucket.nextStartAt, this.clock() + delayMs);
+  }
+
+  private getBucket(url: string): HostBucket {
+    const { key, limit } = this.resolve(url);
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = { limit, active: 0, nextStartAt: 0, waiters: [] };
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  private async acquire(bucket: HostBucket): Promise<void> {
+    while (bucket.active >= bucket.limit.concurrency) {
+      await new Promise<void>((resolve) => bucket.waiters.push(resolve));
+    }
+    bucket.active += 1;
+
+    // Start times are reserved up front so concurrent slots still respect the minimum gap.
+    const now = this.clock();
+    const startAt = Math.max(now, bucket.nextStartAt);
+    bucket.nextStartAt = startAt + bucket.limit.minDelayMs;
+    if (startAt > now) {
+      await this.sleep(startAt - now);
+    }
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date; returns the wait in milliseconds.
+export function parseRetryAfter(value: string | null | undefined, now: number): number | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+
+  if (/^\d+$/.test(trimmed)) {
+    return Number.parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
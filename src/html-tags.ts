@@ -0,0 +1,35 @@
+import { decodeEntities } from "./html-text.js";
+
+const ATTRIBUTE_PATTERN = /([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+// Returns the attributes of every `<tagName ...>` start tag in document order. Names are lower-cased, values are
+// entity-decoded and trimmed, and when an attribute repeats the first one wins, as in browsers.
+export function readTags(html: string, tagName: string): Record<string, string>[] {
+  const tagPattern = new RegExp(`<${tagName}(?=[\\s/>])((?:"[^"]*"|'[^']*'|[^'">])*)>`, "gi");
+  const tags: Record<string, string>[] = [];
+
+  for (const [, rawAttributes] of html.matchAll(tagPattern)) {
+    const attributes: Record<string, string> = {};
+    for (const [, name, doubleQuoted, singleQuoted, unquoted] of rawAttributes.matchAll(ATTRIBUTE_PATTERN)) {
+      attributes[name.toLowerCase()] ??= decodeEntities(doubleQuoted ?? singleQuoted ?? unquoted ?? "").trim();
+    }
+    tags.push(attributes);
+  }
+
+  return tags;
+}
+
+// Whether a space-separated `rel` value contains the given link type.
+export function hasRel(attributes: Record<string, string>, type: string): boolean {
+  return (attributes.rel ?? "").toLowerCase().split(/\s+/).includes(type);
+}
+
+// Resolves an href against the page URL, keeping only http(s) results.
+export function resolveHttpUrl(href: string, base: string): string | undefined {
+  try {
+    const url = new URL(href, base);
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,115 @@
+// Elements whose contents are never prose worth analyzing.
+const DROPPED_ELEMENT_PATTERN = /<(script|style|noscript|template|svg|iframe|head|nav|footer)\b[\s\S]*?<\/\1\s*>/gi;
+const CODE_BLOCK_PATTERN = /<pre\b([^>]*)>([\s\S]*?)<\/pre\s*>/gi;
+const LANGUAGE_CLASS_PATTERN = /\bclass\s*=\s*["'][^"']*\b(?:language|lang|highlight-source)-([\w+#-]+)/i;
+const BLOCK_TAG_PATTERN =
+  /<\/?(?:p|div|section|article|main|aside|header|h[1-6]|ul|ol|dl|dt|dd|table|thead|tbody|tr|blockquote|figure|figcaption|hr|details|summary)\b[^>]*>/gi;
+
+// HTML names for U+00A0–U+00FF, in code point order.
+const LATIN1_ENTITY_NAMES = [
+  "nbsp", "iexcl", "cent", "pound", "curren", "yen", "brvbar", "sect", "uml", "copy", "ordf", "laquo", "not", "shy", "reg", "macr",
+  "deg", "plusmn", "sup2", "sup3", "acute", "micro", "para", "middot", "cedil", "sup1", "ordm", "raquo", "frac14", "frac12", "frac34", "iquest",
+  "Agrave", "Aacute", "Acirc", "Atilde", "Auml", "Aring", "AElig", "Ccedil", "Egrave", "Eacute", "Ecirc", "Euml", "Igrave", "Iacute", "Icirc", "Iuml",
+  "ETH", "Ntilde", "Ograve", "Oacute", "Ocirc", "Otilde", "Ouml", "times", "Oslash", "Ugrave", "Uacute", "Ucirc", "Uuml", "Yacute", "THORN", "szlig",
+  "agrave", "aacute", "acirc", "atilde", "auml", "aring", "aelig", "ccedil", "egrave", "eacute", "ecirc", "euml", "igrave", "iacute", "icirc", "iuml",
+  "eth", "ntilde", "ograve", "oacute", "ocirc", "otilde", "ouml", "divide", "oslash", "ugrave", "uacute", "ucirc", "uuml", "yacute", "thorn", "yuml",
+];
+
+const NAMED_ENTITIES: Record<string, string> = {
+  ...Object.fromEntries(LATIN1_ENTITY_NAMES.map((name, index) => [name, String.fromCodePoint(0xa0 + index)])),
+  // Plain text has no use for unbreakable or optional-break spacing.
+  nbsp: " ",
+  shy: "",
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  OElig: "Œ",
+  oelig: "œ",
+  Scaron: "Š",
+  scaron: "š",
+  Yuml: "Ÿ",
+  fnof: "ƒ",
+  circ: "ˆ",
+  tilde: "˜",
+  ensp: "\u2002",
+  emsp: "\u2003",
+  thinsp: "\u2009",
+  zwnj: "\u200c",
+  zwj: "\u200d",
+  hellip: "…",
+  mdash: "—",
+  ndash: "–",
+  minus: "−",
+  lsquo: "‘",
+  rsquo: "’",
+  sbquo: "‚",
+  ldquo: "“",
+  rdquo: "”",
+  bdquo: "„",
+  lsaquo: "‹",
+  rsaquo: "›",
+  prime: "′",
+  Prime: "″",
+  dagger: "†",
+  Dagger: "‡",
+  permil: "‰",
+  bull: "•",
+  frasl: "⁄",
+  trade: "™",
+  euro: "€",
+  larr: "←",
+  uarr: "↑",
+  rarr: "→",
+  darr: "↓",
+  harr: "↔",
+};
+
+// Converts feed or page HTML into plain text with paragraph breaks: boilerplate elements are dropped, entities decoded,
+// headings, list items and link text kept, and code blocks collapsed to a summary so they do not eat the analysis budget.
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(DROPPED_ELEMENT_PATTERN, "\n")
+    .replace(
+      CODE_BLOCK_PATTERN,
+      (_match, attributes: string, code: string) => `\n\n${summarizeCodeBlock(attributes + code, stripTags(code))}\n\n`,
+    )
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/\s*<li\b[^>]*>/gi, "\n- ")
+    .replace(/<\/li\s*>/gi, "")
+    .replace(BLOCK_TAG_PATTERN, "\n\n")
+    .replace(/<\/?t[dh]\b[^>]*>/gi, " ");
+
+  return decodeEntities(stripTags(text))
+    .split("\n")
+    .map((line) => line.replace(/[^\S\n]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function decodeEntities(value: string): string {
+  return value.replace(/&(#x[\da-f]+|#\d+|[a-z][a-z\d]*);/gi, (entity, code: string) => {
+    const lower = code.toLowerCase();
+    if (lower.startsWith("#")) {
+      const codePoint = lower.startsWith("#x") ? Number.parseInt(lower.slice(2), 16) : Number.parseInt(lower.slice(1), 10);
+      return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity;
+    }
+    // Exact names first so `&Eacute;` stays upper-case; otherwise accept any casing, as in `&AMP;`.
+    return NAMED_ENTITIES[code] ?? NAMED_ENTITIES[lower] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, "");
+}
+
+function summarizeCodeBlock(markup: string, code: string): string {
+  const lines = decodeEntities(code)
+    .split("\n")
+    .filter((line) => line.trim().length > 0);
+  const language = LANGUAGE_CLASS_PATTERN.exec(markup)?.[1]?.toLowerCase();
+  return `[${language ? `${language} ` : ""}code: ${lines.length} ${lines.length === 1 ? "line" : "lines"}]`;
+}
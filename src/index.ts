@@ -1,28 +1,112 @@
 import { writeFile, readFile } from "node:fs/promises";
+import path from "node:path";
 import yargs, { type ArgumentsCamelCase } from "yargs";
-import { extractFeedUrls, loadBlogs } from "./blogs.js";
-import { analyzeFeeds, DEFAULT_MONTH_WINDOW, DEFAULT_PARALLEL, type FeedAnalysisResult, type RelevantPost } from "./analyzer.js";
-import { OllamaClient } from "./ollama-client.js";
+import { buildSiteUrlIndex, extractFeedUrls, filterBlogsDirectory, loadBlogs, mergeBlogDirectories } from "./blogs.js";
+import { loadOpml, serializeOpml } from "./opml.js";
+import {
+  analyzeFeeds,
+  DEFAULT_FULL_ARTICLE_MIN_CHARS,
+  DEFAULT_LLM_PARALLEL,
+  DEFAULT_MAX_CHUNKS,
+  DEFAULT_MONTH_WINDOW,
+  DEFAULT_PARALLEL,
+  type AnalysisClient,
+  type FeedAnalysisResult,
+  type RelevantPost,
+} from "./analyzer.js";
+import { evaluateClassifier, formatEvaluationSummary, loadEvaluationDataset } from "./evaluation.js";
+import { DEFAULT_TOPIC, loadDefaultTopicProfile, loadTopicProfile, type TopicProfile } from "./topics.js";
+import { createProviderClient, DEFAULT_PROVIDER, isProviderName, PROVIDER_NAMES, type ProviderName } from "./providers.js";
 import { loadFilterConfig, type NormalizedFilterConfig } from "./config.js";
+import { FeedCache } from "./feed-cache.js";
+import { AnalysisCache } from "./analysis-cache.js";
+import { ArticleCache } from "./article-cache.js";
+import { SeenLedger } from "./seen-ledger.js";
+import { FirstSeenLedger } from "./first-seen-ledger.js";
+import {
+  formatWindow,
+  isValidTimeZone,
+  parseWindowBound,
+  resolveAnalysisWindow,
+  systemTimeZone,
+  WINDOW_PRESETS,
+  type AnalysisWindow,
+  type WindowBound,
+} from "./time-window.js";
+import {
+  DEFAULT_FEED_HEALTH_THRESHOLDS,
+  FeedHealthStore,
+  formatFeedHealthReport,
+  observeFeedResult,
+  type FeedHealthThresholds,
+} from "./feed-health.js";
+import {
+  DEFAULT_CASCADE_THRESHOLD,
+  DEFAULT_ENSEMBLE_MODE,
+  DEFAULT_VOTE_STRATEGY,
+  ENSEMBLE_MODES,
+  EnsembleClient,
+  VOTE_STRATEGIES,
+  type EnsembleMode,
+  type VoteStrategy,
+} from "./ensemble.js";
+import { DEFAULT_HOST_LIMIT, KNOWN_HOST_LIMITS, type HostLimits } from "./host-limiter.js";
+import type { ChunkSummary, ModelVote } from "./llm-client.js";
+import type { RuleEvaluation } from "./keyword-rules.js";
+import type { BlogsDirectory, FeedCacheStatus } from "./types.js";
 
 export type OutputFormat = "json" | "csv" | "md";
 
+export type CliCommand = "cache-prune" | "ledger-reset" | "evaluate" | "opml-export" | "feeds-health";
+
 export interface OutputTarget {
   format: OutputFormat;
   destination?: string;
 }
 
 export interface CliArguments {
+  command?: CliCommand;
   maxBlogs?: number;
   helpRequested?: boolean;
-  parallel?: number;
+  fetchParallel?: number;
+  llmParallel?: number;
+  hostLimits?: HostLimits;
   model?: string;
+  models?: string[];
+  ensembleMode?: EnsembleMode;
+  vote?: VoteStrategy;
+  cascadeThreshold?: number;
   output?: OutputTarget;
   verbose?: boolean;
   months?: number;
+  since?: WindowBound;
+  until?: WindowBound;
+  timeZone?: string;
   failedLog?: string;
   retryFile?: string;
+  blogs?: string[];
+  opml?: string;
+  exportOpml?: string;
   perfLog?: string;
+  stateDir?: string;
+  analysisCache?: boolean;
+  autodiscover?: boolean;
+  fullArticles?: boolean;
+  fullArticleMinChars?: number;
+  maxChunks?: number;
+  maxAgeDays?: number;
+  newOnly?: boolean;
+  to?: string;
+  deadAfterFailures?: number;
+  deadAfterDays?: number;
+  flakyFailures?: number;
+  dormantAfterDays?: number;
+  provider?: ProviderName;
+  baseUrl?: string;
+  apiKey?: string;
+  topics?: string[];
+  dataset?: string;
+  results?: string;
 }
 
 export interface MainOptions {
@@ -34,6 +118,28 @@ export interface MainOptions {
 }
 
 const OUTPUT_FORMATS: OutputFormat[] = ["json", "csv", "md"];
+const STATE_DIR_ENV = "IOS_BLOGS_STATE_DIR";
+const FEED_CACHE_FILE = "feed-cache.json";
+const ANALYSIS_CACHE_FILE = "analysis-cache.json";
+const ARTICLE_CACHE_FILE = "article-cache.json";
+const SEEN_LEDGER_FILE = "seen-posts.json";
+const FIRST_SEEN_FILE = "first-seen.json";
+const FEED_HEALTH_FILE = "feed-health.json";
+// Shell convention: 128 plus the signal number.
+const STOP_SIGNAL_EXIT_CODES = { SIGINT: 130, SIGTERM: 143 } as const;
+
+type StopSignal = keyof typeof STOP_SIGNAL_EXIT_CODES;
+const API_KEY_ENV = "OPENAI_API_KEY";
+const DEFAULT_CACHE_MAX_AGE_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const COMMANDS: Record<string, CliCommand> = {
+  "cache prune": "cache-prune",
+  "ledger reset": "ledger-reset",
+  evaluate: "evaluate",
+  "opml export": "opml-export",
+  "feeds health": "feeds-health",
+};
 
 class CliError extends Error {
   public readonly exitCode: number;
@@ -47,27 +153,76 @@ class CliError extends Error {
 
 export function parseArguments(argv: string[]): CliArguments {
   const filteredArgv: string[] = [];
+  const blogsFiles: string[] = [];
+  const hostLimitSpecs: string[] = [];
   let helpRequested = false;
+  const { command, rest } = extractCommand(argv);
 
-  for (const token of argv) {
+  for (let index = 0; index < rest.length; index += 1) {
+    const token = rest[index];
     if (token === "--help" || token === "-h") {
       helpRequested = true;
       continue;
     }
+    // --blogs may repeat, which the duplicate-arguments-array setting below would collapse to the last value.
+    if (token === "--blogs" || token.startsWith("--blogs=")) {
+      const value = token === "--blogs" ? rest[++index] : token.slice("--blogs=".length);
+      if (value === undefined || value.trim().length === 0 || value.startsWith("-")) {
+        throw new CliError("--blogs must be followed by a file path");
+      }
+      blogsFiles.push(value.trim());
+      continue;
+    }
+    if (token === "--host-limit" || token.startsWith("--host-limit=")) {
+      const value = token === "--host-limit" ? rest[++index] : token.slice("--host-limit=".length);
+      if (value === undefined || value.startsWith("-")) {
+        throw new CliError("--host-limit must be followed by <host>=<concurrency>[/<delayMs>]");
+      }
+      hostLimitSpecs.push(value);
+      continue;
+    }
     filteredArgv.push(token);
   }
 
   type ParsedShape = {
     help?: boolean;
     maxBlogs?: number;
-    parallel?: number;
+    fetchParallel?: number;
+    llmParallel?: number;
     model?: string;
     output?: string;
     verbose?: boolean;
     months?: number;
+    since?: string;
+    until?: string;
+    timeZone?: string;
     failedLog?: string;
     retryFile?: string;
+    opml?: string;
+    exportOpml?: string;
     perfLog?: string;
+    stateDir?: string;
+    analysisCache?: boolean;
+    autodiscover?: boolean;
+    fullArticles?: boolean;
+    fullArticleMinChars?: number;
+    maxChunks?: number;
+    maxAgeDays?: number;
+    newOnly?: boolean;
+    to?: string;
+    deadAfterFailures?: number;
+    deadAfterDays?: number;
+    flakyFailures?: number;
+    dormantAfterDays?: number;
+    provider?: string;
+    baseUrl?: string;
+    apiKey?: string;
+    topic?: string;
+    ensembleMode?: string;
+    vote?: string;
+    cascadeThreshold?: number;
+    dataset?: string;
+    results?: string;
   };
 
   const parser = yargs(filteredArgv)
@@ -81,17 +236,62 @@ export function parseArguments(argv: string[]): CliArguments {
       type: "number",
       describe: "Limit the number of feeds processed",
     })
-    .option("parallel", {
+    .option("fetch-parallel", {
+      type: "number",
+      alias: "parallel",
+      describe: "Maximum feeds fetched at once",
+    })
+    .option("llm-parallel", {
       type: "number",
-      describe: "Maximum concurrent requests",
+      describe: "Maximum model requests in flight at once",
     })
     .option("months", {
       type: "number",
       describe: `Analyze posts published within the last N months (default: ${DEFAULT_MONTH_WINDOW})`,
     })
+    .option("since", {
+      type: "string",
+      describe: "Analyze posts published since an ISO date, a duration (7d, 2w), or a calendar preset",
+    })
+    .option("until", {
+      type: "string",
+      describe: "Analyze posts published before an ISO date (inclusive), a duration ago, or the end of a preset",
+    })
+    .option("time-zone", {
+      type: "string",
+      describe: "IANA time zone for window dates and presets (default: the system time zone)",
+    })
     .option("model", {
       type: "string",
-      describe: "Ollama model to use",
+      describe: "Model to use for analysis",
+    })
+    .option("ensemble-mode", {
+      type: "string",
+      describe: `How several models share the work (${ENSEMBLE_MODES.join(", ")})`,
+    })
+    .option("vote", {
+      type: "string",
+      describe: `How several models' decisions are combined (${VOTE_STRATEGIES.join(", ")})`,
+    })
+    .option("cascade-threshold", {
+      type: "number",
+      describe: "Confidence at which the first model's decision stands in cascade mode",
+    })
+    .option("provider", {
+      type: "string",
+      describe: `LLM provider (${PROVIDER_NAMES.join(", ")})`,
+    })
+    .option("base-url", {
+      type: "string",
+      describe: "Base URL of the LLM server",
+    })
+    .option("api-key", {
+      type: "string",
+      describe: "API key sent to OpenAI-compatible servers",
+    })
+    .option("topic", {
+      type: "string",
+      describe: `Comma-separated topic profiles from config/topics (default: ${DEFAULT_TOPIC})`,
     })
     .option("output", {
       type: "string",
@@ -113,6 +313,74 @@ export function parseArguments(argv: string[]): CliArguments {
       type: "string",
       describe: "Process feed URLs from a previous failed-log JSON file",
     })
+    .option("opml", {
+      type: "string",
+      describe: "Read feeds from an OPML file instead of blogs.json",
+    })
+    .option("export-opml", {
+      type: "string",
+      describe: "Write the feeds that produced relevant posts to an OPML file",
+    })
+    .option("state-dir", {
+      type: "string",
+      describe: "Directory for caches and state persisted across runs",
+    })
+    .option("analysis-cache", {
+      type: "boolean",
+      describe: "Reuse cached analyses from previous runs (disable with --no-analysis-cache)",
+    })
+    .option("autodiscover", {
+      type: "boolean",
+      describe: "Search the site for a working feed when a feed URL fails (disable with --no-autodiscover)",
+    })
+    .option("dataset", {
+      type: "string",
+      describe: "Labeled dataset used by the evaluate command",
+    })
+    .option("results", {
+      type: "string",
+      describe: "Write evaluation results to the specified JSON file",
+    })
+    .option("full-articles", {
+      type: "boolean",
+      describe: "Fetch and analyze the linked article when a post's feed text is short",
+    })
+    .option("full-article-min-chars", {
+      type: "number",
+      describe: "Feed text length below which --full-articles fetches the article",
+    })
+    .option("max-chunks", {
+      type: "number",
+      describe: "Split long posts into at most N chunks for analysis (1 truncates them)",
+    })
+    .option("max-age-days", {
+      type: "number",
+      describe: "Drop cache entries older than N days when pruning",
+    })
+    .option("new-only", {
+      type: "boolean",
+      describe: "Only report posts missing from the seen-posts ledger",
+    })
+    .option("to", {
+      type: "string",
+      describe: "Rewind the seen-posts ledger to this date when resetting",
+    })
+    .option("dead-after-failures", {
+      type: "number",
+      describe: "Consecutive failures before a feed counts as dead",
+    })
+    .option("dead-after-days", {
+      type: "number",
+      describe: "Days without a successful fetch before a failing feed counts as dead",
+    })
+    .option("flaky-failures", {
+      type: "number",
+      describe: "Failures among recent checks that make a feed flaky",
+    })
+    .option("dormant-after-days", {
+      type: "number",
+      describe: "Days without a new post before a feed counts as dormant",
+    })
     .alias("verbose", "v")
     .exitProcess(false)
     .help(false)
@@ -131,6 +399,10 @@ export function parseArguments(argv: string[]): CliArguments {
 
   const result: CliArguments = {};
 
+  if (command) {
+    result.command = command;
+  }
+
   if (helpRequested || parsed.help) {
     result.helpRequested = true;
   }
@@ -143,12 +415,29 @@ export function parseArguments(argv: string[]): CliArguments {
     result.maxBlogs = value;
   }
 
-  if (parsed.parallel !== undefined) {
-    const value = parsed.parallel;
+  if (parsed.fetchParallel !== undefined) {
+    const value = parsed.fetchParallel;
     if (!Number.isFinite(value) || !Number.isInteger(value) || value <= 0) {
-      throw new CliError("--parallel must be a positive integer");
+      throw new CliError("--fetch-parallel must be a positive integer");
     }
-    result.parallel = value;
+    result.fetchParallel = value;
+  }
+
+  if (parsed.llmParallel !== undefined) {
+    const value = parsed.llmParallel;
+    if (!Number.isFinite(value) || !Number.isInteger(value) || value <= 0) {
+      throw new CliError("--llm-parallel must be a positive integer");
+    }
+    result.llmParallel = value;
+  }
+
+  if (hostLimitSpecs.length > 0) {
+    const hostLimits: HostLimits = {};
+    for (const spec of hostLimitSpecs) {
+      const { host, limit } = parseHostLimitOption(spec);
+      hostLimits[host] = limit;
+    }
+    result.hostLimits = hostLimits;
   }
 
   if (parsed.months !== undefined) {
@@ -159,12 +448,113 @@ export function parseArguments(argv: string[]): CliArguments {
     result.months = value;
   }
 
+  for (const flag of ["since", "until"] as const) {
+    const value = parsed[flag];
+    if (typeof value !== "string") {
+      continue;
+    }
+    try {
+      result[flag] = parseWindowBound(value);
+    } catch (error) {
+      throw new CliError(`--${flag}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (result.since && result.months !== undefined) {
+    throw new CliError("--since cannot be combined with --months");
+  }
+
+  if (typeof parsed.timeZone === "string") {
+    const timeZone = parsed.timeZone.trim();
+    if (!isValidTimeZone(timeZone)) {
+      throw new CliError(`--time-zone must be an IANA time zone such as Europe/Rome (got "${parsed.timeZone}")`);
+    }
+    result.timeZone = timeZone;
+  }
+
   if (typeof parsed.model === "string") {
-    const trimmed = parsed.model.trim();
-    if (trimmed.length === 0) {
+    const models = Array.from(
+      new Set(
+        parsed.model
+          .split(",")
+          .map((name) => name.trim())
+          .filter((name) => name.length > 0),
+      ),
+    );
+    if (models.length === 0) {
       throw new CliError("--model must be a non-empty string");
     }
-    result.model = trimmed;
+    result.model = models[0];
+    if (models.length > 1) {
+      result.models = models;
+    }
+  }
+
+  if (typeof parsed.ensembleMode === "string") {
+    const normalized = parsed.ensembleMode.trim().toLowerCase();
+    if (!ENSEMBLE_MODES.includes(normalized as EnsembleMode)) {
+      throw new CliError(`--ensemble-mode must be one of: ${ENSEMBLE_MODES.join(", ")}`);
+    }
+    result.ensembleMode = normalized as EnsembleMode;
+  }
+
+  if (typeof parsed.vote === "string") {
+    const normalized = parsed.vote.trim().toLowerCase();
+    if (!VOTE_STRATEGIES.includes(normalized as VoteStrategy)) {
+      throw new CliError(`--vote must be one of: ${VOTE_STRATEGIES.join(", ")}`);
+    }
+    result.vote = normalized as VoteStrategy;
+  }
+
+  if (parsed.cascadeThreshold !== undefined) {
+    const value = parsed.cascadeThreshold;
+    if (!Number.isFinite(value) || value < 0 || value > 1) {
+      throw new CliError("--cascade-threshold must be a number between 0 and 1");
+    }
+    result.cascadeThreshold = value;
+  }
+
+  if ((result.ensembleMode || result.vote || result.cascadeThreshold !== undefined) && !result.models) {
+    throw new CliError("--ensemble-mode, --vote, and --cascade-threshold require several --model values (e.g., --model llama3.1,qwq)");
+  }
+
+  if (typeof parsed.provider === "string") {
+    const normalized = parsed.provider.trim().toLowerCase();
+    if (!isProviderName(normalized)) {
+      throw new CliError(`--provider must be one of: ${PROVIDER_NAMES.join(", ")}`);
+    }
+    result.provider = normalized;
+  }
+
+  if (typeof parsed.baseUrl === "string") {
+    const trimmed = parsed.baseUrl.trim();
+    if (!/^https?:\/\//i.test(trimmed)) {
+      throw new CliError("--base-url must be an http(s) URL");
+    }
+    result.baseUrl = trimmed;
+  }
+
+  if (typeof parsed.apiKey === "string") {
+    const trimmed = parsed.apiKey.trim();
+    if (trimmed.length === 0) {
+      throw new CliError("--api-key must be a non-empty string");
+    }
+    result.apiKey = trimmed;
+  }
+
+  if (typeof parsed.topic === "string") {
+    const topics = Array.from(
+      new Set(
+        parsed.topic
+          .split(",")
+          .map((name) => name.trim().toLowerCase())
+          .filter((name) => name.length > 0),
+      ),
+    );
+    if (topics.length === 0) {
+      throw new CliError("--topic must name at least one topic profile");
+    }
+    result.topics = topics;
   }
 
   if (typeof parsed.output === "string") {
@@ -195,6 +585,32 @@ export function parseArguments(argv: string[]): CliArguments {
     result.retryFile = trimmed;
   }
 
+  if (blogsFiles.length > 0) {
+    if (result.retryFile) {
+      throw new CliError("--blogs cannot be combined with --retry-file");
+    }
+    result.blogs = Array.from(new Set(blogsFiles));
+  }
+
+  if (typeof parsed.opml === "string") {
+    const trimmed = parsed.opml.trim();
+    if (trimmed.length === 0) {
+      throw new CliError("--opml must be a non-empty string");
+    }
+    if (result.retryFile) {
+      throw new CliError("--opml cannot be combined with --retry-file");
+    }
+    result.opml = trimmed;
+  }
+
+  if (typeof parsed.exportOpml === "string") {
+    const trimmed = parsed.exportOpml.trim();
+    if (trimmed.length === 0) {
+      throw new CliError("--export-opml must be a non-empty string");
+    }
+    result.exportOpml = trimmed;
+  }
+
   if (typeof parsed.perfLog === "string") {
     const trimmed = parsed.perfLog.trim();
     if (trimmed.length === 0) {
@@ -203,13 +619,142 @@ export function parseArguments(argv: string[]): CliArguments {
     result.perfLog = trimmed;
   }
 
-  if (!result.model && !result.helpRequested) {
+  if (typeof parsed.stateDir === "string") {
+    const trimmed = parsed.stateDir.trim();
+    if (trimmed.length === 0) {
+      throw new CliError("--state-dir must be a non-empty string");
+    }
+    result.stateDir = trimmed;
+  }
+
+  if (typeof parsed.analysisCache === "boolean") {
+    result.analysisCache = parsed.analysisCache;
+  }
+
+  if (typeof parsed.autodiscover === "boolean") {
+    result.autodiscover = parsed.autodiscover;
+  }
+
+  if (typeof parsed.fullArticles === "boolean") {
+    result.fullArticles = parsed.fullArticles;
+  }
+
+  if (parsed.fullArticleMinChars !== undefined) {
+    const value = parsed.fullArticleMinChars;
+    if (!Number.isFinite(value) || !Number.isInteger(value) || value <= 0) {
+      throw new CliError("--full-article-min-chars must be a positive integer");
+    }
+    result.fullArticleMinChars = value;
+  }
+
+  if (parsed.maxChunks !== undefined) {
+    const value = parsed.maxChunks;
+    if (!Number.isFinite(value) || !Number.isInteger(value) || value <= 0) {
+      throw new CliError("--max-chunks must be a positive integer");
+    }
+    result.maxChunks = value;
+  }
+
+  if (parsed.maxAgeDays !== undefined) {
+    const value = parsed.maxAgeDays;
+    if (!Number.isFinite(value) || value < 0) {
+      throw new CliError("--max-age-days must be a non-negative number");
+    }
+    result.maxAgeDays = value;
+  }
+
+  if (typeof parsed.newOnly === "boolean") {
+    result.newOnly = parsed.newOnly;
+  }
+
+  if (typeof parsed.to === "string") {
+    const trimmed = parsed.to.trim();
+    if (trimmed.length === 0 || Number.isNaN(Date.parse(trimmed))) {
+      throw new CliError("--to must be a valid date (e.g., 2025-06-01)");
+    }
+    result.to = trimmed;
+  }
+
+  if (parsed.deadAfterFailures !== undefined) {
+    const value = parsed.deadAfterFailures;
+    if (!Number.isFinite(value) || !Number.isInteger(value) || value <= 0) {
+      throw new CliError("--dead-after-failures must be a positive integer");
+    }
+    result.deadAfterFailures = value;
+  }
+
+  if (parsed.deadAfterDays !== undefined) {
+    const value = parsed.deadAfterDays;
+    if (!Number.isFinite(value) || value < 0) {
+      throw new CliError("--dead-after-days must be a non-negative number");
+    }
+    result.deadAfterDays = value;
+  }
+
+  if (parsed.flakyFailures !== undefined) {
+    const value = parsed.flakyFailures;
+    if (!Number.isFinite(value) || !Number.isInteger(value) || value <= 0) {
+      throw new CliError("--flaky-failures must be a positive integer");
+    }
+    result.flakyFailures = value;
+  }
+
+  if (parsed.dormantAfterDays !== undefined) {
+    const value = parsed.dormantAfterDays;
+    if (!Number.isFinite(value) || value < 0) {
+      throw new CliError("--dormant-after-days must be a non-negative number");
+    }
+    result.dormantAfterDays = value;
+  }
+
+  if (typeof parsed.dataset === "string") {
+    const trimmed = parsed.dataset.trim();
+    if (trimmed.length === 0) {
+      throw new CliError("--dataset must be a non-empty string");
+    }
+    result.dataset = trimmed;
+  }
+
+  if (typeof parsed.results === "string") {
+    const trimmed = parsed.results.trim();
+    if (trimmed.length === 0) {
+      throw new CliError("--results must be a non-empty string");
+    }
+    result.results = trimmed;
+  }
+
+  if (result.command === "evaluate" && !result.dataset && !result.helpRequested) {
+    throw new CliError("evaluate requires --dataset <file>");
+  }
+
+  if (!result.model && !result.helpRequested && (!result.command || result.command === "evaluate")) {
     throw new CliError("--model is required (e.g., --model llama3.1)");
   }
 
   return result;
 }
 
+function extractCommand(argv: string[]): { command?: CliCommand; rest: string[] } {
+  const words: string[] = [];
+  for (const token of argv) {
+    if (token.startsWith("-")) {
+      break;
+    }
+    words.push(token);
+  }
+
+  if (words.length === 0) {
+    return { command: undefined, rest: argv };
+  }
+
+  const command = COMMANDS[words.join(" ")];
+  if (!command) {
+    throw new CliError(`Unknown command: ${words.join(" ")}`);
+  }
+
+  return { command, rest: argv.slice(words.length) };
+}
+
 function parseOutputOption(spec: string): OutputTarget {
   const trimmed = spec.trim();
   if (trimmed.length === 0) {
@@ -240,6 +785,21 @@ function parseOutputOption(spec: string): OutputTarget {
   return { format: "json", destination: trimmed };
 }
 
+// `<host>=<concurrency>[/<delayMs>]`; "*" sets the limit for hosts without an entry of their own.
+function parseHostLimitOption(spec: string): { host: string; limit: HostLimits[string] } {
+  const match = /^\s*([^=\s]+)\s*=\s*(\d+)\s*(?:\/\s*(\d+)\s*)?$/.exec(spec);
+  const concurrency = match ? Number.parseInt(match[2], 10) : 0;
+  if (!match || concurrency <= 0) {
+    throw new CliError(`--host-limit must look like medium.com=1/1000 (host=concurrency[/delayMs]), got "${spec}"`);
+  }
+
+  const limit: HostLimits[string] = { concurrency };
+  if (match[3] !== undefined) {
+    limit.minDelayMs = Number.parseInt(match[3], 10);
+  }
+  return { host: match[1].toLowerCase(), limit };
+}
+
 function isSupportedOutputFormat(value: string): value is OutputFormat {
   return OUTPUT_FORMATS.includes(value as OutputFormat);
 }
@@ -260,18 +820,55 @@ function renderHelp(): string {
     "",
     "Usage:",
     "  ios-blogs-analyzer [options]",
+    "  ios-blogs-analyzer cache prune [--max-age-days <number>]",
+    "  ios-blogs-analyzer ledger reset [--to <date>]",
+    "  ios-blogs-analyzer evaluate --dataset <file> --model <name> [--results <file>]",
+    "  ios-blogs-analyzer opml export [--opml <file>] [--export-opml <file>]",
+    "  ios-blogs-analyzer feeds health [--output json[:<file>]] [threshold options]",
     "",
     "Options:",
     "  --max-blogs <number>   Limit the number of feeds processed",
-    "  --parallel <number>    Maximum concurrent requests (default: 3)",
-    "  --model <name>         Ollama model to use (required)",
+    `  --fetch-parallel <n>   Feeds fetched at once; --parallel is an alias (default: ${DEFAULT_PARALLEL})`,
+    `  --llm-parallel <n>     Posts analyzed by the model at once, across all feeds (default: ${DEFAULT_LLM_PARALLEL})`,
+    `  --host-limit <host>=<n>[/<ms>] Per-host concurrency and minimum delay; repeatable, "*" for all other hosts (default: ${DEFAULT_HOST_LIMIT.concurrency}/${DEFAULT_HOST_LIMIT.minDelayMs})`,
+    `                         Built-in limits: ${Object.entries(KNOWN_HOST_LIMITS).map(([host, limit]) => `${host}=${limit.concurrency}/${limit.minDelayMs}`).join(", ")}`,
+    "  --model <names>        Model to use (required); comma-separate several models for an ensemble",
+    `  --ensemble-mode <mode> Ensemble mode: ${ENSEMBLE_MODES.join("|")} (default: ${DEFAULT_ENSEMBLE_MODE})`,
+    `  --vote <strategy>      Ensemble vote: ${VOTE_STRATEGIES.join("|")} (default: ${DEFAULT_VOTE_STRATEGY})`,
+    `  --cascade-threshold <n> Cascade: first model decides alone at this confidence (default: ${DEFAULT_CASCADE_THRESHOLD})`,
+    `  --provider <name>      LLM provider: ${PROVIDER_NAMES.join("|")} (default: ${DEFAULT_PROVIDER})`,
+    "  --base-url <url>       LLM server base URL (e.g., http://localhost:8080/v1 for openai)",
+    `  --api-key <key>        API key for OpenAI-compatible servers (default: $${API_KEY_ENV})`,
+    `  --topic <names>        Comma-separated topic profiles from config/topics (default: ${DEFAULT_TOPIC})`,
     `  --months <number>      Analyze posts within the last N months (default: ${DEFAULT_MONTH_WINDOW})`,
+    "  --since <when>          Analyze posts published since an ISO date, a duration (7d, 2w), or a preset:",
+    `                          ${WINDOW_PRESETS.join(", ")}`,
+    "  --until <when>          Stop the window at an ISO date (that whole day included), a duration ago, or a preset's end",
+    "  --time-zone <zone>      IANA time zone for window dates and presets (default: the system time zone)",
     "  --output [format:]<target>  Choose output format (json|csv|md) and optional file",
     "                              e.g., --output csv:report.csv or --output md:notes.md",
     "  --verbose, -v           Enable verbose logging",
     "  --failed-log <file>     Write failed feed URLs to a JSON file",
     "  --perf-log <file>       Write per-feed performance metrics to a JSON file",
     "  --retry-file <file>     Re-run using feed URLs from a failed-log JSON file",
+    "  --blogs <file>          Read feeds from this directory file instead of blogs.json; repeat to merge several",
+    "  --opml <file>           Read feeds from an OPML file (folders become categories) instead of blogs.json",
+    '  --export-opml <file>    Write feeds with relevant posts as OPML (with "opml export", the whole filtered directory)',
+    `  --state-dir <dir>       Persist caches across runs (default: $${STATE_DIR_ENV})`,
+    "  --no-analysis-cache     Re-analyze every post instead of reusing cached decisions",
+    "  --no-autodiscover       Report broken feed URLs instead of searching their sites for a working feed",
+    "  --full-articles         Fetch and analyze the linked article when a post's feed text is only a short summary",
+    `  --full-article-min-chars <n> Feed text shorter than this triggers --full-articles (default: ${DEFAULT_FULL_ARTICLE_MIN_CHARS})`,
+    `  --max-chunks <n>        Analyze long posts in up to N overlapping chunks; 1 truncates them (default: ${DEFAULT_MAX_CHUNKS})`,
+    `  --max-age-days <number> With "cache prune", drop analysis and article cache entries older than N days (default: ${DEFAULT_CACHE_MAX_AGE_DAYS})`,
+    "  --new-only              Only report posts not reported by a previous run",
+    '  --to <date>             With "ledger reset", forget only posts reported on or after this date',
+    `  --dead-after-failures <n> With "feeds health", failures in a row before a feed is dead (default: ${DEFAULT_FEED_HEALTH_THRESHOLDS.deadAfterFailures})`,
+    `  --dead-after-days <n>   With "feeds health", days without success before a failing feed is dead (default: ${DEFAULT_FEED_HEALTH_THRESHOLDS.deadAfterDays})`,
+    `  --flaky-failures <n>    With "feeds health", recent failures that make a feed flaky (default: ${DEFAULT_FEED_HEALTH_THRESHOLDS.flakyFailures})`,
+    `  --dormant-after-days <n> With "feeds health", days without new posts before a feed is dormant (default: ${DEFAULT_FEED_HEALTH_THRESHOLDS.dormantAfterDays})`,
+    '  --dataset <file>        With "evaluate", the labeled posts to classify',
+    '  --results <file>        With "evaluate", write metrics and per-example decisions to a JSON file',
     "  -h, --help              Show this help message",
     "",
   ].join("\n");
@@ -312,6 +909,10 @@ function summarize(results: FeedAnalysisResult[]): {
   const durations: number[] = [];
 
   for (const result of results) {
+    if (result.status === "skipped") {
+      continue;
+    }
+
     if (result.status === "fulfilled") {
       succeeded.push(result);
       if (typeof result.durationMs === "number" && Number.isFinite(result.durationMs)) {
@@ -331,7 +932,22 @@ function summarize(results: FeedAnalysisResult[]): {
 interface FeedReport {
   feedUrl: string;
   feedTitle?: string;
+  // The feed actually analyzed when `feedUrl` was broken; update the directory to point here.
+  discoveredUrl?: string;
   relevantPosts: PostReport[];
+  // Relevant post count per topic name.
+  topics: Record<string, number>;
+}
+
+interface TopicSummary {
+  name: string;
+  label: string;
+  postCount: number;
+}
+
+interface DiscoveredFeedEntry {
+  feedUrl: string;
+  discoveredUrl: string;
 }
 
 interface FailedFeedEntry {
@@ -343,26 +959,163 @@ interface PostReport {
   title: string;
   link: string;
   publishedAt?: string;
+  // Present when the feed had no usable date and `publishedAt` came from the post URL or the first-seen ledger.
+  publishedAtSource?: RelevantPost["publishedAtSource"];
+  canonicalUrl?: string;
+  // Every feed that carried the post, present when there was more than one; the first is the feed it is listed under.
+  feeds?: FeedReference[];
   confidence?: number;
   reason?: string;
   tags?: string[];
+  topics: string[];
+  votes?: ModelVote[];
+  // Present when the decision was merged from a long post's chunks.
+  chunks?: ChunkSummary;
+  // Confirmation rule results per topic, showing which rules confirmed or rejected the post.
+  confirmation?: Record<string, RuleEvaluation>;
+}
+
+interface FeedReference {
+  feedUrl: string;
+  feedTitle?: string;
+}
+
+interface RejectedPostReport {
+  feedUrl: string;
+  title: string;
+  link: string;
+  publishedAt?: string;
+  reason?: string;
+  confirmation: Record<string, RuleEvaluation>;
+}
+
+// Present in reports when a stop signal cut the run short.
+interface IncompleteRun {
+  reason: string;
+  analyzedFeeds: number;
+  totalFeeds: number;
+  // Feeds never started; they are also listed in the --failed-log file so --retry-file can pick them up.
+  skippedFeeds: string[];
+  // Posts of analyzed feeds that were still waiting for the model.
+  unanalyzedPosts: number;
+}
+
+interface SerializedWindow {
+  label: string;
+  since: string;
+  until?: string;
+  timeZone: string;
+}
+
+function serializeWindow(window: AnalysisWindow): SerializedWindow {
+  return {
+    label: window.label,
+    since: window.since.toISOString(),
+    until: window.until?.toISOString(),
+    timeZone: window.timeZone,
+  };
 }
 
 function buildFeedReports(results: FeedAnalysisResult[]): FeedReport[] {
+  const feedTitles = new Map(results.map((result) => [result.feedUrl, result.feed?.title ?? undefined]));
   return results
     .filter((result) => Array.isArray(result.relevantPosts) && result.relevantPosts.length > 0)
-    .map((result) => ({
-      feedUrl: result.feedUrl,
-      feedTitle: result.feed?.title ?? undefined,
-      relevantPosts: (result.relevantPosts ?? []).map((post) => ({
+    .map((result) => {
+      const relevantPosts = (result.relevantPosts ?? []).map((post) => ({
         title: post.title,
         link: post.link,
         publishedAt: post.publishedAt,
+        publishedAtSource: post.publishedAtSource,
+        canonicalUrl: post.canonicalUrl,
+        feeds:
+          post.feeds && post.feeds.length > 1
+            ? post.feeds.map((feedUrl) => ({ feedUrl, feedTitle: feedTitles.get(feedUrl) }))
+            : undefined,
         confidence: post.analysis.confidence,
         reason: post.analysis.reason,
         tags: post.analysis.tags,
-      })),
-    }));
+        topics: post.topics ?? [],
+        votes: post.analysis.votes,
+        chunks: post.analysis.chunks,
+        confirmation: post.confirmation,
+      }));
+
+      const topics: Record<string, number> = {};
+      for (const post of relevantPosts) {
+        for (const topic of post.topics) {
+          topics[topic] = (topics[topic] ?? 0) + 1;
+        }
+      }
+
+      return {
+        feedUrl: result.feedUrl,
+        feedTitle: result.feed?.title ?? undefined,
+        discoveredUrl: result.discoveredUrl,
+        relevantPosts,
+        topics,
+      };
+    });
+}
+
+function buildRejectedPostReports(results: FeedAnalysisResult[]): RejectedPostReport[] {
+  return results.flatMap((result) =>
+    (result.rejectedPosts ?? []).map((post) => ({
+      feedUrl: result.feedUrl,
+      title: post.title,
+      link: post.link,
+      publishedAt: post.publishedAt,
+      reason: post.analysis.reason,
+      confirmation: post.confirmation ?? {},
+    })),
+  );
+}
+
+function summarizeTopics(reports: FeedReport[], topics: readonly TopicProfile[]): TopicSummary[] {
+  return topics.map((topic) => ({
+    name: topic.name,
+    label: topic.label,
+    postCount: reports.reduce((sum, report) => sum + (report.topics[topic.name] ?? 0), 0),
+  }));
+}
+
+function filterUnseenPosts(
+  results: FeedAnalysisResult[],
+  ledger: SeenLedger,
+): { results: FeedAnalysisResult[]; skipped: number } {
+  let skipped = 0;
+  const filtered = results.map((result) => {
+    if (!result.relevantPosts) {
+      return result;
+    }
+
+    const unseen = result.relevantPosts.filter((post) => !ledger.has(post));
+    skipped += result.relevantPosts.length - unseen.length;
+    return { ...result, relevantPosts: unseen };
+  });
+
+  return { results: filtered, skipped };
+}
+
+function buildDiscoveredFeedEntries(results: FeedAnalysisResult[]): DiscoveredFeedEntry[] {
+  return results.flatMap((result) =>
+    result.discoveredUrl ? [{ feedUrl: result.feedUrl, discoveredUrl: result.discoveredUrl }] : [],
+  );
+}
+
+function describeIncompleteRun(results: FeedAnalysisResult[], stoppedBy: StopSignal): IncompleteRun {
+  const skippedFeeds = results.filter((result) => result.status === "skipped").map((result) => result.feedUrl);
+  return {
+    reason: `Interrupted by ${stoppedBy}`,
+    analyzedFeeds: results.length - skippedFeeds.length,
+    totalFeeds: results.length,
+    skippedFeeds,
+    unanalyzedPosts: results.reduce((sum, result) => sum + (result.unanalyzedPosts ?? 0), 0),
+  };
+}
+
+function formatIncompleteRun(incomplete: IncompleteRun): string {
+  const posts = incomplete.unanalyzedPosts === 1 ? "post was" : "posts were";
+  return `${incomplete.reason} after ${incomplete.analyzedFeeds} of ${incomplete.totalFeeds} feeds; ${incomplete.unanalyzedPosts} queued ${posts} not analyzed`;
 }
 
 function buildFailedFeedEntries(failed: FeedAnalysisResult[]): FailedFeedEntry[] {
@@ -374,11 +1127,28 @@ function buildFailedFeedEntries(failed: FeedAnalysisResult[]): FailedFeedEntry[]
 
 async function emitJsonReport(
   reports: FeedReport[],
+  rejectedPosts: RejectedPostReport[],
+  discoveredFeeds: DiscoveredFeedEntry[],
   failedFeeds: FailedFeedEntry[],
+  topics: readonly TopicProfile[],
+  window: AnalysisWindow,
+  incomplete: IncompleteRun | undefined,
   destination: string | undefined,
   stdout: NonNullable<MainOptions["stdout"]>,
 ): Promise<void> {
-  const payload = JSON.stringify({ feeds: reports, failedFeeds }, null, 2);
+  const payload = JSON.stringify(
+    {
+      incomplete,
+      window: serializeWindow(window),
+      feeds: reports,
+      topics: summarizeTopics(reports, topics),
+      rejectedPosts,
+      discoveredFeeds,
+      failedFeeds,
+    },
+    null,
+    2,
+  );
 
   if (destination) {
     await writeFile(destination, `${payload}\n`, "utf8");
@@ -391,10 +1161,12 @@ async function emitJsonReport(
 
 async function emitCsvReport(
   reports: FeedReport[],
+  window: AnalysisWindow,
+  incomplete: IncompleteRun | undefined,
   destination: string | undefined,
   stdout: NonNullable<MainOptions["stdout"]>,
 ): Promise<void> {
-  const payload = createCsvPayload(reports);
+  const payload = createCsvPayload(reports, window, incomplete);
   const output = `${payload}\n`;
 
   if (destination) {
@@ -409,18 +1181,21 @@ async function emitCsvReport(
 async function emitMarkdownReport(
   reports: FeedReport[],
   failedFeeds: FailedFeedEntry[],
+  topics: readonly TopicProfile[],
+  window: AnalysisWindow,
+  incomplete: IncompleteRun | undefined,
   destination: string | undefined,
   stdout: NonNullable<MainOptions["stdout"]>,
 ): Promise<void> {
   const now = new Date();
-  const payload = createMarkdownPayload(reports, failedFeeds, now);
+  const payload = createMarkdownPayload(reports, failedFeeds, topics, window, incomplete, now);
   const targetPath = destination ?? `blogs-ai-list-${now.toISOString().slice(0, 10)}.md`;
   await writeFile(targetPath, `${payload}\n`, "utf8");
   stdout.write(`Results written to ${targetPath}\n`);
 }
 
-function createCsvPayload(reports: FeedReport[]): string {
-  const header = ["feed_title", "feed_url", "post_title", "post_link", "published_at", "confidence", "tags", "reason"];
+function createCsvPayload(reports: FeedReport[], window: AnalysisWindow, incomplete: IncompleteRun | undefined): string {
+  const header = ["feed_title", "feed_url", "post_title", "post_link", "published_at", "confidence", "tags", "reason", "topics"];
   const rows: string[][] = [header];
 
   for (const report of reports) {
@@ -434,11 +1209,18 @@ function createCsvPayload(reports: FeedReport[]): string {
         formatOptionalNumber(post.confidence),
         (post.tags ?? []).join(";"),
         post.reason ?? "",
+        post.topics.join(";"),
       ]);
     }
   }
 
-  return rows.map((row) => row.map(escapeCsvValue).join(",")).join("\n");
+  const lines = rows.map((row) => row.map(escapeCsvValue).join(","));
+  // Comment lines ahead of the header, which most CSV readers can be told to skip.
+  const comments = [`# Window: ${formatWindow(window)}`];
+  if (incomplete) {
+    comments.push(`# Incomplete report: ${formatIncompleteRun(incomplete)}`);
+  }
+  return [...comments, ...lines].join("\n");
 }
 
 function escapeCsvValue(value: string): string {
@@ -461,7 +1243,11 @@ function formatOptionalNumber(value: number | undefined): string {
   return String(value);
 }
 
-function logVerboseFindings(reports: FeedReport[], stdout: NonNullable<MainOptions["stdout"]>): void {
+function logVerboseFindings(
+  reports: FeedReport[],
+  topics: readonly TopicProfile[],
+  stdout: NonNullable<MainOptions["stdout"]>,
+): void {
   if (reports.length === 0) {
     stdout.write("No relevant posts detected.\n");
     return;
@@ -473,7 +1259,8 @@ function logVerboseFindings(reports: FeedReport[], stdout: NonNullable<MainOptio
     stdout.write(`- ${feedLabel}\n`);
     for (const post of report.relevantPosts) {
       const reason = post.reason ? ` - ${post.reason}` : "";
-      stdout.write(`    - ${post.title} (${post.link})${reason}\n`);
+      const topicLabel = topics.length > 1 ? ` [${post.topics.join(", ")}]` : "";
+      stdout.write(`    - ${post.title} (${post.link})${topicLabel}${reason}\n`);
     }
   }
 }
@@ -507,7 +1294,7 @@ async function writeFailedFeedLog(
   stdout.write(`Failed feeds saved to ${destination}\n`);
 }
 
-type PerformanceLogSource = "directory" | "retry-file";
+type PerformanceLogSource = "directory" | "retry-file" | "opml";
 
 interface PerformanceLogEntry {
   feedUrl: string;
@@ -516,17 +1303,38 @@ interface PerformanceLogEntry {
   durationMs?: number;
   analyzedItems?: number;
   relevantPostCount?: number;
+  cachedAnalyses?: number;
+  fullArticles?: number;
+  chunkedAnalyses?: number;
+  undatedItems?: number;
+  duplicatePosts?: number;
+  failedPosts?: number;
+  schemaViolations?: number;
+  feedCache?: FeedCacheStatus;
+  discoveredUrl?: string;
+  encoding?: string;
   error?: string;
 }
 
 interface PerformanceLogPayload {
   generatedAt: string;
   parameters: {
+    // Feeds fetched at once.
     parallel: number;
+    llmParallel: number;
     months: number;
+    window: SerializedWindow;
+    topics: string[];
+    ensemble?: {
+      models: string[];
+      mode: EnsembleMode;
+      vote: VoteStrategy;
+    };
     maxBlogs?: number;
     source: PerformanceLogSource;
     retryFile?: string;
+    blogsFiles?: string[];
+    opmlFile?: string;
     feedCount: number;
     filters?: {
       languages: string[];
@@ -539,6 +1347,19 @@ interface PerformanceLogPayload {
     failed: number;
     elapsedMs: number;
     averageDurationMs?: number;
+    schemaViolations: number;
+    // Posts dropped because no publish date could be resolved.
+    undatedItems: number;
+    // Posts left to the first feed that carried them.
+    duplicatePosts: number;
+    // Posts whose analysis failed inside otherwise successful feeds.
+    failedPosts: number;
+    incomplete?: IncompleteRun;
+    feedCache?: {
+      hits: number;
+      revalidations: number;
+      downloads: number;
+    };
   };
   feeds: PerformanceLogEntry[];
 }
@@ -550,14 +1371,22 @@ function buildPerformanceLogPayload(
     elapsedMs: number;
     averageDurationMs?: number;
     parallel: number;
+    llmParallel: number;
     months: number;
+    window: AnalysisWindow;
+    topics: string[];
+    ensemble?: PerformanceLogPayload["parameters"]["ensemble"];
     maxBlogs?: number;
     source: PerformanceLogSource;
     retryFile?: string;
+    blogsFiles?: string[];
+    opmlFile?: string;
     feedCount: number;
     filterConfig?: NormalizedFilterConfig;
     succeededCount: number;
     failedCount: number;
+    feedCacheEnabled?: boolean;
+    incomplete?: IncompleteRun;
   },
 ): PerformanceLogPayload {
   const entries: PerformanceLogEntry[] = results.map((result) => ({
@@ -567,6 +1396,16 @@ function buildPerformanceLogPayload(
     durationMs: result.durationMs,
     analyzedItems: result.analyzedItems,
     relevantPostCount: result.relevantPosts?.length ?? 0,
+    cachedAnalyses: result.cachedAnalyses,
+    fullArticles: result.fullArticles,
+    chunkedAnalyses: result.chunkedAnalyses,
+    undatedItems: result.undatedItems,
+    duplicatePosts: result.duplicatePosts,
+    failedPosts: result.failedPosts,
+    schemaViolations: result.schemaViolations,
+    feedCache: result.cacheStatus,
+    discoveredUrl: result.discoveredUrl,
+    encoding: result.encoding,
     error: result.status === "rejected" ? result.error?.message ?? "Unknown error" : undefined,
   }));
 
@@ -574,10 +1413,16 @@ function buildPerformanceLogPayload(
     generatedAt: context.generatedAt.toISOString(),
     parameters: {
       parallel: context.parallel,
+      llmParallel: context.llmParallel,
       months: context.months,
+      window: serializeWindow(context.window),
+      topics: context.topics,
+      ensemble: context.ensemble,
       maxBlogs: context.maxBlogs,
       source: context.source,
       retryFile: context.retryFile,
+      blogsFiles: context.blogsFiles,
+      opmlFile: context.opmlFile,
       feedCount: context.feedCount,
       filters: context.filterConfig
         ? {
@@ -592,11 +1437,33 @@ function buildPerformanceLogPayload(
       failed: context.failedCount,
       elapsedMs: context.elapsedMs,
       averageDurationMs: context.averageDurationMs,
+      schemaViolations: results.reduce((sum, result) => sum + (result.schemaViolations ?? 0), 0),
+      undatedItems: results.reduce((sum, result) => sum + (result.undatedItems ?? 0), 0),
+      duplicatePosts: results.reduce((sum, result) => sum + (result.duplicatePosts ?? 0), 0),
+      failedPosts: results.reduce((sum, result) => sum + (result.failedPosts ?? 0), 0),
+      incomplete: context.incomplete,
+      feedCache: context.feedCacheEnabled ? countFeedCacheStatuses(results) : undefined,
     },
     feeds: entries,
   };
 }
 
+function countFeedCacheStatuses(results: FeedAnalysisResult[]): { hits: number; revalidations: number; downloads: number } {
+  const counts = { hits: 0, revalidations: 0, downloads: 0 };
+
+  for (const result of results) {
+    if (result.cacheStatus === "hit") {
+      counts.hits += 1;
+    } else if (result.cacheStatus === "revalidated") {
+      counts.revalidations += 1;
+    } else if (result.cacheStatus === "downloaded") {
+      counts.downloads += 1;
+    }
+  }
+
+  return counts;
+}
+
 async function writePerformanceLog(
   destination: string,
   payload: PerformanceLogPayload,
@@ -606,26 +1473,43 @@ async function writePerformanceLog(
   stdout.write(`Performance log saved to ${destination}\n`);
 }
 
-function createMarkdownPayload(reports: FeedReport[], failedFeeds: FailedFeedEntry[], now: Date): string {
+function createMarkdownPayload(
+  reports: FeedReport[],
+  failedFeeds: FailedFeedEntry[],
+  topics: readonly TopicProfile[],
+  window: AnalysisWindow,
+  incomplete: IncompleteRun | undefined,
+  now: Date,
+): string {
   const dateLabel = now.toISOString().slice(0, 10);
   const lines: string[] = [];
   lines.push(`# iOS Blogs AI List - ${dateLabel}`);
   lines.push("");
+  lines.push(`_Posts published in ${formatWindow(window)}._`);
+  lines.push("");
+  if (incomplete) {
+    lines.push(`> **Incomplete report:** ${formatIncompleteRun(incomplete)}.`);
+    lines.push("");
+  }
 
   if (reports.length === 0) {
     lines.push("_No relevant posts found._");
-  } else {
-    for (const report of reports) {
-      const feedLabel = report.feedTitle ?? report.feedUrl;
-      lines.push(`## ${feedLabel}`);
-      for (const post of report.relevantPosts) {
-        const tags = post.tags && post.tags.length > 0 ? ` (${post.tags.join(", ")})` : "";
-        const confidence = Number.isFinite(post.confidence) ? ` • ${Math.round((post.confidence ?? 0) * 100)}%` : "";
-        const reason = post.reason ? ` — ${post.reason}` : "";
-        lines.push(`- [ ] [${post.title}](${post.link})${tags}${confidence}${reason}`);
-      }
+  } else if (topics.length > 1) {
+    // With several topics, each topic gets its own section so a post can be triaged per topic.
+    for (const topic of topics) {
+      const topicReports = reports
+        .map((report) => ({ ...report, relevantPosts: report.relevantPosts.filter((post) => post.topics.includes(topic.name)) }))
+        .filter((report) => report.relevantPosts.length > 0);
+      lines.push(`## ${topic.label}`);
       lines.push("");
+      if (topicReports.length === 0) {
+        lines.push("_No relevant posts found._");
+        lines.push("");
+      }
+      appendMarkdownFeedSections(lines, topicReports, "###");
     }
+  } else {
+    appendMarkdownFeedSections(lines, reports, "##");
   }
 
   if (failedFeeds.length > 0) {
@@ -640,6 +1524,213 @@ function createMarkdownPayload(reports: FeedReport[], failedFeeds: FailedFeedEnt
   return lines.join("\n");
 }
 
+function appendMarkdownFeedSections(lines: string[], reports: FeedReport[], heading: string): void {
+  for (const report of reports) {
+    const feedLabel = report.feedTitle ?? report.feedUrl;
+    lines.push(`${heading} ${feedLabel}`);
+    for (const post of report.relevantPosts) {
+      const tags = post.tags && post.tags.length > 0 ? ` (${post.tags.join(", ")})` : "";
+      const confidence = Number.isFinite(post.confidence) ? ` • ${Math.round((post.confidence ?? 0) * 100)}%` : "";
+      const chunks = post.chunks ? ` • ${post.chunks.relevant}/${post.chunks.count} chunks` : "";
+      const otherFeeds = post.feeds?.slice(1).map((feed) => feed.feedTitle ?? feed.feedUrl);
+      const alsoIn = otherFeeds?.length ? ` • also in ${otherFeeds.join(", ")}` : "";
+      const reason = post.reason ? ` — ${post.reason}` : "";
+      lines.push(`- [ ] [${post.title}](${post.link})${tags}${confidence}${chunks}${alsoIn}${reason}`);
+    }
+    lines.push("");
+  }
+}
+
+function countCachedAnalyses(results: FeedAnalysisResult[]): number {
+  return results.reduce((sum, result) => sum + (result.cachedAnalyses ?? 0), 0);
+}
+
+async function pruneCaches(
+  cliArguments: CliArguments,
+  stateDir: string | undefined,
+  stdout: NonNullable<MainOptions["stdout"]>,
+  now: () => number,
+): Promise<void> {
+  if (!stateDir) {
+    throw new CliError(`cache prune requires --state-dir or ${STATE_DIR_ENV}`);
+  }
+
+  const maxAgeDays = cliArguments.maxAgeDays ?? DEFAULT_CACHE_MAX_AGE_DAYS;
+  const cache = await AnalysisCache.load(path.join(stateDir, ANALYSIS_CACHE_FILE), { clock: now });
+  const removed = cache.prune(maxAgeDays * DAY_MS);
+  await cache.save();
+  stdout.write(
+    `Pruned ${removed} analysis cache ${removed === 1 ? "entry" : "entries"} older than ${maxAgeDays} days (${cache.size} remaining).\n`,
+  );
+
+  const articleCache = await ArticleCache.load(path.join(stateDir, ARTICLE_CACHE_FILE), { clock: now });
+  if (articleCache.size > 0) {
+    const removedArticles = articleCache.prune(maxAgeDays * DAY_MS);
+    await articleCache.save();
+    stdout.write(
+      `Pruned ${removedArticles} article cache ${removedArticles === 1 ? "entry" : "entries"} older than ${maxAgeDays} days (${articleCache.size} remaining).\n`,
+    );
+  }
+}
+
+async function resetSeenLedger(
+  cliArguments: CliArguments,
+  stateDir: string | undefined,
+  stdout: NonNullable<MainOptions["stdout"]>,
+  now: () => number,
+): Promise<void> {
+  if (!stateDir) {
+    throw new CliError(`ledger reset requires --state-dir or ${STATE_DIR_ENV}`);
+  }
+
+  const ledger = await SeenLedger.load(path.join(stateDir, SEEN_LEDGER_FILE), { clock: now });
+  const target = cliArguments.to ? new Date(cliArguments.to) : undefined;
+  const removed = ledger.rewind(target);
+  await ledger.save();
+  const scope = target ? ` reported on or after ${target.toISOString()}` : "";
+  stdout.write(`Removed ${removed} ${removed === 1 ? "post" : "posts"}${scope} from the seen-posts ledger (${ledger.size} remaining).\n`);
+}
+
+async function reportFeedHealth(
+  cliArguments: CliArguments,
+  stateDir: string | undefined,
+  stdout: NonNullable<MainOptions["stdout"]>,
+  now: () => number,
+): Promise<void> {
+  if (!stateDir) {
+    throw new CliError(`feeds health requires --state-dir or ${STATE_DIR_ENV}`);
+  }
+
+  const output = cliArguments.output;
+  if (output && output.format !== "json") {
+    throw new CliError("feeds health only supports JSON output");
+  }
+
+  const thresholds: FeedHealthThresholds = {
+    deadAfterFailures: cliArguments.deadAfterFailures ?? DEFAULT_FEED_HEALTH_THRESHOLDS.deadAfterFailures,
+    deadAfterDays: cliArguments.deadAfterDays ?? DEFAULT_FEED_HEALTH_THRESHOLDS.deadAfterDays,
+    flakyFailures: cliArguments.flakyFailures ?? DEFAULT_FEED_HEALTH_THRESHOLDS.flakyFailures,
+    dormantAfterDays: cliArguments.dormantAfterDays ?? DEFAULT_FEED_HEALTH_THRESHOLDS.dormantAfterDays,
+  };
+  const store = await FeedHealthStore.load(path.join(stateDir, FEED_HEALTH_FILE), { clock: now });
+  const feeds = store.report(thresholds);
+
+  if (!output) {
+    stdout.write(formatFeedHealthReport(feeds, thresholds));
+    return;
+  }
+
+  const payload = `${JSON.stringify({ generatedAt: new Date(now()).toISOString(), thresholds, feeds }, null, 2)}\n`;
+  if (output.destination) {
+    await writeFile(output.destination, payload, "utf8");
+    stdout.write(`Results written to ${output.destination}\n`);
+  } else {
+    stdout.write(payload);
+  }
+}
+
+// The bundled blogs.json is only read when neither --blogs nor --opml names a source.
+async function loadFeedDirectory(cliArguments: CliArguments): Promise<BlogsDirectory> {
+  const blogsFiles = cliArguments.blogs ?? (cliArguments.opml ? [] : [undefined]);
+  const directories = await Promise.all([
+    ...blogsFiles.map((filePath) => loadBlogs({ filePath })),
+    ...(cliArguments.opml ? [loadOpml(cliArguments.opml)] : []),
+  ]);
+  return directories.length === 1 ? directories[0] : mergeBlogDirectories(directories);
+}
+
+async function exportOpmlDirectory(
+  cliArguments: CliArguments,
+  stdout: NonNullable<MainOptions["stdout"]>,
+  now: () => number,
+): Promise<void> {
+  const blogs = await loadFeedDirectory(cliArguments);
+  const filterConfig = await loadFilterConfig();
+  const feeds = extractFeedUrls(blogs, {
+    maxBlogs: cliArguments.maxBlogs,
+    languages: filterConfig.allowedLanguages,
+    categories: filterConfig.allowedCategories,
+  });
+  const payload = serializeOpml(filterBlogsDirectory(blogs, feeds), { dateCreated: new Date(now()) });
+
+  if (!cliArguments.exportOpml) {
+    stdout.write(payload);
+    return;
+  }
+
+  await writeFile(cliArguments.exportOpml, payload, "utf8");
+  stdout.write(`Exported ${feeds.length} feeds to ${cliArguments.exportOpml}\n`);
+}
+
+// Retry-file runs have no directory to draw site details from, so their feeds are listed under their parsed titles.
+async function writeRelevantFeedsOpml(
+  reports: FeedReport[],
+  directory: BlogsDirectory | undefined,
+  destination: string,
+  stdout: NonNullable<MainOptions["stdout"]>,
+  now: () => number,
+): Promise<void> {
+  const feedUrls = reports.map((report) => report.feedUrl);
+  const relevantDirectory: BlogsDirectory = directory
+    ? filterBlogsDirectory(directory, feedUrls)
+    : [
+        {
+          language: "",
+          title: "Relevant feeds",
+          categories: [
+            {
+              title: "Relevant feeds",
+              slug: "relevant-feeds",
+              description: "",
+              sites: reports.map((report) => ({
+                title: report.feedTitle ?? report.feedUrl,
+                author: "",
+                site_url: "",
+                feed_url: report.feedUrl,
+              })),
+            },
+          ],
+        },
+      ];
+
+  const payload = serializeOpml(relevantDirectory, { title: "iOS Blogs with relevant posts", dateCreated: new Date(now()) });
+  await writeFile(destination, payload, "utf8");
+  stdout.write(`Exported ${feedUrls.length} feeds with relevant posts to ${destination}\n`);
+}
+
+async function runEvaluation(
+  cliArguments: CliArguments,
+  analysisClient: AnalysisClient,
+  stdout: NonNullable<MainOptions["stdout"]>,
+  now: () => number,
+): Promise<void> {
+  const dataset = cliArguments.dataset ?? "";
+  const examples = await loadEvaluationDataset(dataset);
+  stdout.write(`Loaded ${examples.length} labeled examples from ${dataset}.\n`);
+
+  const report = await evaluateClassifier(examples, analysisClient, {
+    dataset,
+    parallel: cliArguments.llmParallel ?? DEFAULT_LLM_PARALLEL,
+    clock: now,
+    onProgress: cliArguments.verbose ? (completed, total) => stdout.write(`[${completed}/${total}] evaluated\n`) : undefined,
+  });
+  stdout.write(formatEvaluationSummary(report));
+
+  if (cliArguments.results) {
+    await writeFile(cliArguments.results, `${JSON.stringify(report, null, 2)}\n`, "utf8");
+    stdout.write(`Evaluation results written to ${cliArguments.results}\n`);
+  }
+}
+
+function resolveStateDir(cliArguments: CliArguments, env: NodeJS.ProcessEnv): string | undefined {
+  if (cliArguments.stateDir) {
+    return cliArguments.stateDir;
+  }
+
+  const fromEnv = env[STATE_DIR_ENV]?.trim();
+  return fromEnv ? fromEnv : undefined;
+}
+
 async function loadRetryFeedsFromFile(filePath: string): Promise<string[]> {
   let raw: string;
   try {
@@ -715,6 +1806,7 @@ export async function main(options: MainOptions = {}): Promise<void> {
     stdout = process.stdout,
     stderr = process.stderr,
     now = () => Date.now(),
+    env = process.env,
   } = options;
 
   let cliArguments: CliArguments;
@@ -733,23 +1825,94 @@ export async function main(options: MainOptions = {}): Promise<void> {
     return;
   }
 
-  const ollamaClient = new OllamaClient({ model: cliArguments.model });
+  const stateDir = resolveStateDir(cliArguments, env);
+
+  if (cliArguments.command && cliArguments.command !== "evaluate") {
+    try {
+      if (cliArguments.command === "cache-prune") {
+        await pruneCaches(cliArguments, stateDir, stdout, now);
+      } else if (cliArguments.command === "opml-export") {
+        await exportOpmlDirectory(cliArguments, stdout, now);
+      } else if (cliArguments.command === "feeds-health") {
+        await reportFeedHealth(cliArguments, stateDir, stdout, now);
+      } else {
+        await resetSeenLedger(cliArguments, stateDir, stdout, now);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Command failed";
+      stderr.write(`Error: ${message}\n`);
+      process.exitCode = error instanceof CliError ? error.exitCode : 1;
+    }
+    return;
+  }
+
+  if (cliArguments.newOnly && !stateDir) {
+    stderr.write(`Error: --new-only requires --state-dir or ${STATE_DIR_ENV}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let topics: TopicProfile[];
+  try {
+    topics = cliArguments.topics
+      ? await Promise.all(cliArguments.topics.map((name) => loadTopicProfile(name)))
+      : [await loadDefaultTopicProfile()];
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Unable to load topic profile";
+    stderr.write(`Error: ${message}\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const provider = cliArguments.provider ?? DEFAULT_PROVIDER;
+  const createClient = (model: string | undefined) =>
+    createProviderClient(provider, {
+      model,
+      baseUrl: cliArguments.baseUrl,
+      apiKey: cliArguments.apiKey ?? (provider === "openai" ? env[API_KEY_ENV] : undefined),
+      topics,
+    });
+  const analysisClient = cliArguments.models
+    ? new EnsembleClient(
+        cliArguments.models.map((model) => ({ model, client: createClient(model) })),
+        { mode: cliArguments.ensembleMode, vote: cliArguments.vote, cascadeThreshold: cliArguments.cascadeThreshold },
+      )
+    : createClient(cliArguments.model);
 
   try {
-    await ollamaClient.checkConnection();
+    await analysisClient.checkConnection();
   } catch (error) {
-    const message = error instanceof Error ? error.message : "Unable to connect to Ollama";
+    const message = error instanceof Error ? error.message : "Unable to connect to the LLM provider";
     stderr.write(`Error: ${message}\n`);
     process.exitCode = 1;
     return;
   }
 
+  if (cliArguments.command === "evaluate") {
+    try {
+      await runEvaluation(cliArguments, analysisClient, stdout, now);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Evaluation failed";
+      stderr.write(`Error: ${message}\n`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
   const months = cliArguments.months ?? DEFAULT_MONTH_WINDOW;
   let filterConfig: NormalizedFilterConfig | undefined;
   let feedSource: PerformanceLogSource = "directory";
-
+  let stopTrap: StopSignalTrap | undefined;
   try {
+    const window = resolveAnalysisWindow({
+      since: cliArguments.since,
+      until: cliArguments.until,
+      months,
+      timeZone: cliArguments.timeZone ?? systemTimeZone(),
+      now: now(),
+    });
     let feeds: string[] = [];
+    let directory: BlogsDirectory | undefined;
     if (cliArguments.retryFile) {
       feedSource = "retry-file";
       feeds = await loadRetryFeedsFromFile(cliArguments.retryFile);
@@ -758,7 +1921,11 @@ export async function main(options: MainOptions = {}): Promise<void> {
       }
       stdout.write(`Loaded ${feeds.length} feed URLs from retry file ${cliArguments.retryFile}.\n`);
     } else {
-      const blogs = await loadBlogs();
+      if (cliArguments.opml) {
+        feedSource = "opml";
+      }
+      const blogs = await loadFeedDirectory(cliArguments);
+      directory = blogs;
       filterConfig = await loadFilterConfig();
       feeds = extractFeedUrls(blogs, {
         maxBlogs: cliArguments.maxBlogs,
@@ -770,7 +1937,11 @@ export async function main(options: MainOptions = {}): Promise<void> {
       const categorySummary = filterConfig.allowedCategories
         ? `${filterConfig.allowedCategories.length} categories`
         : "all categories";
-      stdout.write(`Loaded ${feeds.length} feed URLs (languages: ${languageSummary}; categories: ${categorySummary}).\n`);
+      const sources = [...(cliArguments.blogs ?? []), ...(cliArguments.opml ? [`OPML file ${cliArguments.opml}`] : [])];
+      const sourceText = sources.length > 0 ? ` from ${sources.join(", ")}` : "";
+      stdout.write(
+        `Loaded ${feeds.length} feed URLs${sourceText} (languages: ${languageSummary}; categories: ${categorySummary}).\n`,
+      );
     }
 
     if (feeds.length === 0) {
@@ -778,15 +1949,43 @@ export async function main(options: MainOptions = {}): Promise<void> {
       return;
     }
 
+    const feedCache = stateDir ? await FeedCache.load(path.join(stateDir, FEED_CACHE_FILE), { clock: now }) : undefined;
+    const analysisCache =
+      stateDir && cliArguments.analysisCache !== false
+        ? await AnalysisCache.load(path.join(stateDir, ANALYSIS_CACHE_FILE), { clock: now })
+        : undefined;
+    const articleCache =
+      stateDir && cliArguments.fullArticles
+        ? await ArticleCache.load(path.join(stateDir, ARTICLE_CACHE_FILE), { clock: now })
+        : undefined;
+    const firstSeen = stateDir ? await FirstSeenLedger.load(path.join(stateDir, FIRST_SEEN_FILE), { clock: now }) : undefined;
+
     const total = feeds.length;
     const startedAt = now();
-    stdout.write(`Processing with up to ${cliArguments.parallel ?? DEFAULT_PARALLEL} concurrent requests...\n`);
+    const fetchParallel = cliArguments.fetchParallel ?? DEFAULT_PARALLEL;
+    const llmParallel = cliArguments.llmParallel ?? DEFAULT_LLM_PARALLEL;
+    stdout.write(`Processing with up to ${fetchParallel} feed fetches and ${llmParallel} model requests at a time...\n`);
+    stdout.write(`Window: ${formatWindow(window)}.\n`);
 
     const verboseEnabled = cliArguments.verbose === true;
+    stopTrap = trapStopSignals(stderr);
     const results = await analyzeFeeds(feeds, {
-      parallel: cliArguments.parallel ?? DEFAULT_PARALLEL,
+      fetchParallel,
+      llmParallel,
+      signal: stopTrap.signal,
       months,
-      dependencies: { analysisClient: ollamaClient },
+      window: { since: window.since, until: window.until },
+      fetchOptions: { cache: feedCache, autodiscover: cliArguments.autodiscover !== false },
+      siteUrls: directory ? buildSiteUrlIndex(directory) : undefined,
+      hostLimits: cliArguments.hostLimits,
+      dependencies: { analysisClient },
+      analysisCache,
+      topics,
+      fullArticles: cliArguments.fullArticles
+        ? { minChars: cliArguments.fullArticleMinChars, cache: articleCache }
+        : undefined,
+      maxChunks: cliArguments.maxChunks,
+      firstSeen,
       onProgress(update) {
         const elapsedMs = now() - startedAt;
         const etaMs = estimateRemainingMs(update.completed, update.total, elapsedMs);
@@ -796,7 +1995,7 @@ export async function main(options: MainOptions = {}): Promise<void> {
           `[${update.completed}/${update.total}]`,
           statusLabel.toUpperCase(),
           update.feedUrl,
-          `(eta ${etaText})`,
+          `(posts ${update.posts.analyzed}/${update.posts.queued}, eta ${etaText})`,
         ];
 
         if (update.status === "rejected" && update.error) {
@@ -805,6 +2004,9 @@ export async function main(options: MainOptions = {}): Promise<void> {
 
         stdout.write(`${parts.join(" ")}\n`);
       },
+      onPostProgress: verboseEnabled
+        ? (update) => stdout.write(`[posts ${update.analyzed}/${update.queued}] ${update.title}\n`)
+        : undefined,
       onVerboseMessage: verboseEnabled
         ? (entry) => {
             const label = entry.feedTitle ?? entry.feedUrl;
@@ -816,11 +2018,27 @@ export async function main(options: MainOptions = {}): Promise<void> {
 
     const finishedAt = now();
     const elapsedMs = finishedAt - startedAt;
+    const stoppedBy = stopTrap.received;
+    const incomplete = stoppedBy ? describeIncompleteRun(results, stoppedBy) : undefined;
     const { succeeded, failed, averageDurationMs } = summarize(results);
     const averageText = averageDurationMs !== undefined ? ` avg ${formatShortDuration(averageDurationMs)}` : "";
+    const cachedAnalyses = countCachedAnalyses(results);
+    const cacheText = analysisCache ? `, ${cachedAnalyses} ${cachedAnalyses === 1 ? "analysis" : "analyses"} served from cache` : "";
+    const finishedText = incomplete ? `Stopped after ${incomplete.analyzedFeeds} of ${total} feeds` : `Finished ${total} feeds`;
     stdout.write(
-      `Finished ${total} feeds: ${succeeded.length} succeeded, ${failed.length} failed in ${formatDuration(elapsedMs)}${averageText}.\n`,
+      `${finishedText}: ${succeeded.length} succeeded, ${failed.length} failed in ${formatDuration(elapsedMs)}${averageText}${cacheText}.\n`,
     );
+    if (incomplete) {
+      stdout.write(`Writing partial reports: ${formatIncompleteRun(incomplete)}.\n`);
+    }
+
+    const discoveredEntries = buildDiscoveredFeedEntries(results);
+    if (discoveredEntries.length > 0) {
+      stdout.write("Discovered working feeds for broken feed URLs (update the directory):\n");
+      for (const entry of discoveredEntries) {
+        stdout.write(`  - ${entry.feedUrl} -> ${entry.discoveredUrl}\n`);
+      }
+    }
 
     if (failed.length > 0) {
       stderr.write("Failed feeds:\n");
@@ -831,31 +2049,116 @@ export async function main(options: MainOptions = {}): Promise<void> {
       process.exitCode = 1;
     }
 
-    const reports = buildFeedReports(succeeded);
+    for (const cache of [feedCache, analysisCache, articleCache, firstSeen]) {
+      if (!cache) {
+        continue;
+      }
+      try {
+        await cache.save();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to save cache";
+        stderr.write(`Error: ${message}\n`);
+        process.exitCode = 1;
+      }
+    }
+
+    if (stateDir) {
+      try {
+        const healthStore = await FeedHealthStore.load(path.join(stateDir, FEED_HEALTH_FILE), { clock: now });
+        for (const result of results) {
+          if (result.status !== "skipped") {
+            healthStore.record(observeFeedResult(result));
+          }
+        }
+        await healthStore.save();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to update feed health history";
+        stderr.write(`Error: ${message}\n`);
+        process.exitCode = 1;
+      }
+    }
+
+    let reportedResults = succeeded;
+    let seenLedger: SeenLedger | undefined;
+    if (stateDir) {
+      try {
+        seenLedger = await SeenLedger.load(path.join(stateDir, SEEN_LEDGER_FILE), { clock: now });
+        if (cliArguments.newOnly) {
+          const filtered = filterUnseenPosts(succeeded, seenLedger);
+          reportedResults = filtered.results;
+          stdout.write(`Skipped ${filtered.skipped} previously reported ${filtered.skipped === 1 ? "post" : "posts"} (--new-only).\n`);
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to read seen-posts ledger";
+        stderr.write(`Error: ${message}\n`);
+        process.exitCode = 1;
+      }
+    }
+
+    const reports = buildFeedReports(reportedResults);
     const failureEntries = buildFailedFeedEntries(failed);
+    const skippedEntries = (incomplete?.skippedFeeds ?? []).map((feedUrl) => ({ feedUrl, error: `Skipped: ${incomplete?.reason}` }));
     if (cliArguments.verbose) {
-      logVerboseFindings(reports, stdout);
+      logVerboseFindings(reports, topics, stdout);
     }
 
     const outputTarget = cliArguments.output ?? { format: "json", destination: undefined };
 
+    let reportWritten = false;
     try {
       if (outputTarget.format === "csv") {
-        await emitCsvReport(reports, outputTarget.destination, stdout);
+        await emitCsvReport(reports, window, incomplete, outputTarget.destination, stdout);
       } else if (outputTarget.format === "md") {
-        await emitMarkdownReport(reports, failureEntries, outputTarget.destination, stdout);
+        await emitMarkdownReport(reports, failureEntries, topics, window, incomplete, outputTarget.destination, stdout);
       } else {
-        await emitJsonReport(reports, failureEntries, outputTarget.destination, stdout);
+        await emitJsonReport(
+          reports,
+          buildRejectedPostReports(reportedResults),
+          discoveredEntries,
+          failureEntries,
+          topics,
+          window,
+          incomplete,
+          outputTarget.destination,
+          stdout,
+        );
       }
+      reportWritten = true;
     } catch (error) {
       const message = error instanceof Error ? error.message : "Unable to write results";
       stderr.write(`Error: ${message}\n`);
       process.exitCode = 1;
     }
 
+    // Posts count as reported only once the report holding them was written, so --new-only never hides unseen posts.
+    if (seenLedger && reportWritten) {
+      try {
+        for (const result of reportedResults) {
+          for (const post of result.relevantPosts ?? []) {
+            seenLedger.record(post);
+          }
+        }
+        await seenLedger.save();
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to update seen-posts ledger";
+        stderr.write(`Error: ${message}\n`);
+        process.exitCode = 1;
+      }
+    }
+
+    if (cliArguments.exportOpml) {
+      try {
+        await writeRelevantFeedsOpml(reports, directory, cliArguments.exportOpml, stdout, now);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : "Unable to write OPML export";
+        stderr.write(`Error: ${message}\n`);
+        process.exitCode = 1;
+      }
+    }
+
     if (cliArguments.failedLog) {
       try {
-        await writeFailedFeedLog(failureEntries, cliArguments.failedLog, stdout);
+        await writeFailedFeedLog([...failureEntries, ...skippedEntries], cliArguments.failedLog, stdout);
       } catch (error) {
         const message = error instanceof Error ? error.message : "Unable to write failed feed log";
         stderr.write(`Error: ${message}\n`);
@@ -870,15 +2173,29 @@ export async function main(options: MainOptions = {}): Promise<void> {
           generatedAt: new Date(timestamp),
           elapsedMs,
           averageDurationMs,
-          parallel: cliArguments.parallel ?? DEFAULT_PARALLEL,
+          parallel: fetchParallel,
+          llmParallel,
           months,
+          window,
+          topics: topics.map((topic) => topic.name),
+          ensemble: cliArguments.models
+            ? {
+                models: cliArguments.models,
+                mode: cliArguments.ensembleMode ?? DEFAULT_ENSEMBLE_MODE,
+                vote: cliArguments.vote ?? DEFAULT_VOTE_STRATEGY,
+              }
+            : undefined,
           maxBlogs: cliArguments.maxBlogs,
           source: feedSource,
           retryFile: cliArguments.retryFile,
+          blogsFiles: cliArguments.blogs,
+          opmlFile: cliArguments.opml,
           feedCount: total,
           filterConfig,
           succeededCount: succeeded.length,
           failedCount: failed.length,
+          feedCacheEnabled: feedCache !== undefined,
+          incomplete,
         });
         await writePerformanceLog(cliArguments.perfLog, payload, stdout);
       } catch (error) {
@@ -887,13 +2204,62 @@ export async function main(options: MainOptions = {}): Promise<void> {
         process.exitCode = 1;
       }
     }
+
+    if (stoppedBy) {
+      process.exitCode = STOP_SIGNAL_EXIT_CODES[stoppedBy];
+    }
   } catch (error) {
     const message = error instanceof Error ? error.message : "Unexpected error";
     stderr.write(`Error: ${message}\n`);
     process.exitCode = 1;
+  } finally {
+    stopTrap?.release();
   }
 }
 
+interface StopSignalTrap {
+  readonly signal: AbortSignal;
+  // The signal that stopped the run, once one arrived.
+  readonly received?: StopSignal;
+  release(): void;
+}
+
+// The first SIGINT or SIGTERM stops the run and lets the partial reports be written; a second one exits at once.
+function trapStopSignals(stderr: NonNullable<MainOptions["stderr"]>): StopSignalTrap {
+  const controller = new AbortController();
+  let received: StopSignal | undefined;
+
+  const onSignal = (signal: StopSignal) => {
+    if (received) {
+      stderr.write(`Received ${signal} again; exiting without reports.\n`);
+      process.exit(STOP_SIGNAL_EXIT_CODES[signal]);
+    }
+    received = signal;
+    stderr.write(
+      `Received ${signal}; finishing the analyses in flight, then writing partial reports. Send it again to exit immediately.\n`,
+    );
+    controller.abort(new Error(`Interrupted by ${signal}`));
+  };
+
+  const handlers = (Object.keys(STOP_SIGNAL_EXIT_CODES) as StopSignal[]).map((signal) => {
+    const handler = () => onSignal(signal);
+    process.on(signal, handler);
+    return { signal, handler };
+  });
+
+  return {
+    signal: controller.signal,
+    get received() {
+      return received;
+    },
+    release() {
+      for (const { signal, handler } of handlers) {
+        process.off(signal, handler);
+      }
+    },
+  };
+}
+
 if (import.meta.url === `file://${process.argv[1]}`) {
   main().catch((error: unknown) => {
     const message = error instanceof Error ? error.message : "Unexpected failure";
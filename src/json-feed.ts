@@ -0,0 +1,101 @@
+import { parsePublishDate } from "./publish-date.js";
+import type { FeedItem, ParsedFeed } from "./types.js";
+
+const JSON_FEED_CONTENT_TYPE_PATTERN = /^\s*application\/feed\+json\b/i;
+const JSON_FEED_VERSION_PREFIX = "https://jsonfeed.org/version/";
+// Untitled microblog posts are named after the start of their text.
+const UNTITLED_ITEM_TITLE_LENGTH = 80;
+
+interface JsonFeedItem {
+  id?: unknown;
+  url?: unknown;
+  external_url?: unknown;
+  title?: unknown;
+  content_html?: unknown;
+  content_text?: unknown;
+  summary?: unknown;
+  date_published?: unknown;
+  date_modified?: unknown;
+}
+
+interface JsonFeedDocument {
+  version?: unknown;
+  title?: unknown;
+  description?: unknown;
+  items?: unknown;
+}
+
+// The dedicated content type is trusted outright; otherwise (plain JSON, text/plain, a wrong XML type) the body decides.
+export function isJsonFeed(body: string, contentType?: string | null): boolean {
+  if (contentType && JSON_FEED_CONTENT_TYPE_PATTERN.test(contentType)) {
+    return true;
+  }
+
+  const trimmed = body.trimStart();
+  return trimmed.startsWith("{") && trimmed.includes(JSON_FEED_VERSION_PREFIX);
+}
+
+// Maps JSON Feed 1.0/1.1 documents onto the same shape rss-parser output is normalized to.
+export function parseJsonFeed(body: string): ParsedFeed {
+  const document = JSON.parse(body) as JsonFeedDocument;
+  if (!document || typeof document !== "object" || Array.isArray(document)) {
+    throw new Error("JSON Feed must be an object");
+  }
+  if (typeof document.version !== "string" || !document.version.startsWith(JSON_FEED_VERSION_PREFIX)) {
+    throw new Error("Missing JSON Feed version");
+  }
+  if (!Array.isArray(document.items)) {
+    throw new Error("JSON Feed has no items array");
+  }
+
+  return {
+    title: readString(document.title),
+    description: readString(document.description),
+    items: document.items
+      .map((item) => (item && typeof item === "object" ? mapJsonFeedItem(item as JsonFeedItem) : null))
+      .filter((item): item is FeedItem => item !== null),
+  };
+}
+
+function mapJsonFeedItem(item: JsonFeedItem): FeedItem | null {
+  const link = readString(item.url) ?? readString(item.external_url);
+  const contentHtml = readString(item.content_html);
+  const contentText = readString(item.content_text);
+  const summary = readString(item.summary);
+  const title = readString(item.title) ?? summary ?? truncate(contentText);
+
+  if (!title || !link) {
+    return null;
+  }
+
+  const id = typeof item.id === "number" ? String(item.id) : readString(item.id);
+
+  return {
+    title,
+    link,
+    guid: id,
+    description: summary ?? contentText ?? contentHtml,
+    content: contentHtml ?? contentText ?? summary,
+    publishedAt: readDate(item.date_published) ?? readDate(item.date_modified),
+  } satisfies FeedItem;
+}
+
+function readString(value: unknown): string | undefined {
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  return trimmed.length > 0 ? trimmed : undefined;
+}
+
+function readDate(value: unknown): string | undefined {
+  return parsePublishDate(readString(value))?.toISOString();
+}
+
+function truncate(text: string | undefined): string | undefined {
+  if (!text) {
+    return undefined;
+  }
+  const firstLine = text.split("\n")[0].trim();
+  return firstLine.length > UNTITLED_ITEM_TITLE_LENGTH ? `${firstLine.slice(0, UNTITLED_ITEM_TITLE_LENGTH - 1)}…` : firstLine;
+}
@@ -0,0 +1,131 @@
+export type RuleField = "title" | "body" | "reason" | "tags";
+export type RuleKind = "include" | "exclude";
+
+export const DEFAULT_MIN_SCORE = 1;
+
+// Rules look at the post itself by default. The model's reason and tags are opt-in: an include matching them would let
+// the model confirm its own decision ("Core ML mentioned"), and they rarely say "sponsored" for excludes.
+const DEFAULT_FIELDS: RuleField[] = ["title", "body"];
+
+export class KeywordRuleError extends Error {
+  constructor(message: string, public readonly ruleId: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "KeywordRuleError";
+  }
+}
+
+export interface KeywordRule {
+  // Reported in matches; defaults to the pattern.
+  id?: string;
+  pattern: string;
+  kind?: RuleKind;
+  // Includes add their weight (default 1). Excludes subtract it, or veto the post when no weight is given.
+  weight?: number;
+  fields?: RuleField[];
+  // Treat the pattern as a case-insensitive regular expression instead of a keyword phrase.
+  regex?: boolean;
+}
+
+export interface KeywordRuleSet {
+  minScore?: number;
+  rules: KeywordRule[];
+}
+
+export interface RuleMatch {
+  rule: string;
+  kind: RuleKind;
+  field: RuleField;
+  // Undefined for vetoes.
+  weight?: number;
+}
+
+export interface RuleEvaluation {
+  confirmed: boolean;
+  score: number;
+  minScore: number;
+  matches: RuleMatch[];
+  vetoedBy?: string;
+}
+
+export type RuleInput = Partial<Record<RuleField, string>>;
+
+export interface CompiledRuleSet {
+  evaluate(input: RuleInput): RuleEvaluation;
+}
+
+interface CompiledRule {
+  id: string;
+  kind: RuleKind;
+  weight?: number;
+  fields: RuleField[];
+  pattern: RegExp;
+}
+
+export function compileRuleSet(ruleSet: KeywordRuleSet): CompiledRuleSet {
+  const minScore = ruleSet.minScore ?? DEFAULT_MIN_SCORE;
+  const rules = ruleSet.rules.map(compileRule);
+
+  return {
+    evaluate(input) {
+      const matches: RuleMatch[] = [];
+      let score = 0;
+      let vetoedBy: string | undefined;
+
+      for (const rule of rules) {
+        // Each rule counts once, on the first of its fields that matches.
+        const field = rule.fields.find((name) => rule.pattern.test(input[name] ?? ""));
+        if (!field) {
+          continue;
+        }
+
+        matches.push({ rule: rule.id, kind: rule.kind, field, weight: rule.weight });
+        if (rule.weight === undefined) {
+          vetoedBy ??= rule.id;
+        } else {
+          score += rule.kind === "include" ? rule.weight : -rule.weight;
+        }
+      }
+
+      return { confirmed: !vetoedBy && score >= minScore, score, minScore, matches, vetoedBy };
+    },
+  };
+}
+
+// Expands the `keywords`/`exclusions` shorthand: any keyword confirms, any exclusion vetoes.
+export function createKeywordRuleSet(keywords: readonly string[], exclusions: readonly string[] = []): KeywordRuleSet {
+  return {
+    minScore: DEFAULT_MIN_SCORE,
+    rules: [
+      ...keywords.map((keyword): KeywordRule => ({ pattern: keyword, kind: "include" })),
+      ...exclusions.map((exclusion): KeywordRule => ({ pattern: exclusion, kind: "exclude" })),
+    ],
+  };
+}
+
+function compileRule(rule: KeywordRule): CompiledRule {
+  const id = rule.id ?? rule.pattern;
+  const kind = rule.kind ?? "include";
+  let pattern: RegExp;
+  try {
+    pattern = rule.regex ? new RegExp(rule.pattern, "i") : compileKeyword(rule.pattern);
+  } catch (error) {
+    throw new KeywordRuleError(`Invalid pattern for rule "${id}": ${rule.pattern}`, id, { cause: error });
+  }
+
+  return {
+    id,
+    kind,
+    weight: kind === "include" ? (rule.weight ?? 1) : rule.weight,
+    fields: rule.fields?.length ? rule.fields : DEFAULT_FIELDS,
+    pattern,
+  };
+}
+
+// Keywords are plain phrases: matched case-insensitively on word boundaries, with any spacing between words ("core ml" matches "CoreML").
+function compileKeyword(keyword: string): RegExp {
+  const words = keyword
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"));
+  return new RegExp(`\\b${words.join("\\s*")}\\b`, "i");
+}
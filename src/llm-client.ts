@@ -0,0 +1,720 @@
+import { createHash } from "node:crypto";
+import { ANALYSIS_DECISION_SCHEMA, createMultiTopicDecisionSchema, validateAnalysisDecision } from "./decision-schema.js";
+import { DEFAULT_TOPIC_PROFILE, type TopicProfile } from "./topics.js";
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_RETRY_DELAY_MS = 250;
+const DEFAULT_RETRY_MULTIPLIER = 2;
+const PROMPT_VERSION_PLACEHOLDER = "{{description}}";
+
+export interface FetchInit {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signal?: AbortSignal;
+}
+
+export interface FetchResponse {
+  ok: boolean;
+  status: number;
+  statusText: string;
+  json(): Promise<unknown>;
+  text(): Promise<string>;
+}
+
+export type FetchLike = (input: string, init?: FetchInit) => Promise<FetchResponse>;
+
+export interface LlmClientOptions {
+  readonly baseUrl?: string;
+  readonly model?: string;
+  readonly fetcher?: FetchLike;
+  readonly timeoutMs?: number;
+  readonly maxRetries?: number;
+  readonly retryDelayMs?: number;
+  readonly retryMultiplier?: number;
+  // Every topic is judged in the same model call; defaults to the built-in AI profile.
+  readonly topics?: readonly TopicProfile[];
+}
+
+export interface AnalyzeTextOptions {
+  readonly model?: string;
+  readonly signal?: AbortSignal;
+  readonly gracefulDegradation?: boolean;
+}
+
+export interface AnalysisResult {
+  relevant: boolean;
+  confidence?: number;
+  reason?: string;
+  tags?: string[];
+  rawResponse: string;
+  // A fallback produced because the model could not be reached or answered unusably; it says nothing about the post.
+  degraded?: boolean;
+  // A real decision that lacks some of its inputs (an ensemble vote or a chunk); it is reported but not cached.
+  partial?: boolean;
+  schemaViolation?: boolean;
+  // Per-topic decisions keyed by topic name; `relevant` is true when any topic is.
+  topics?: Record<string, TopicDecision>;
+  // Individual model decisions when the result was produced by an ensemble.
+  votes?: ModelVote[];
+  // Set when a long post was classified in chunks and the decisions were merged.
+  chunks?: ChunkSummary;
+}
+
+export interface ChunkSummary {
+  count: number;
+  // Chunks the model marked relevant.
+  relevant: number;
+  // The post was longer than the chunk cap allows, so its tail was not analyzed.
+  truncated?: boolean;
+}
+
+export interface TopicDecision {
+  relevant: boolean;
+  confidence?: number;
+}
+
+export interface ModelVote {
+  model: string;
+  relevant: boolean;
+  confidence?: number;
+  reason?: string;
+  degraded?: boolean;
+}
+
+export interface CompletionRequest {
+  readonly model: string;
+  readonly prompt: string;
+  readonly signal?: AbortSignal;
+  // JSON schema the reply is expected to satisfy, for backends that can constrain output.
+  readonly schema: object;
+}
+
+export interface Completion {
+  readonly text: string;
+  // True when the server was asked to constrain the reply to the decision schema.
+  readonly structured?: boolean;
+}
+
+export class LlmConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmConfigurationError";
+  }
+}
+
+export class LlmRequestError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = "LlmRequestError";
+  }
+}
+
+export class LlmParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmParseError";
+  }
+}
+
+export class LlmTimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmTimeoutError";
+  }
+}
+
+export class LlmUnavailableError extends Error {
+  readonly attempts: number;
+
+  constructor(message: string, { cause, attempts }: { cause?: unknown; attempts: number }) {
+    super(message, cause !== undefined ? { cause } : undefined);
+    this.name = "LlmUnavailableError";
+    this.attempts = attempts;
+  }
+}
+
+// Provider-agnostic analysis client: owns the prompt, response parsing, retries, timeouts, and graceful degradation.
+// Backends only implement the HTTP exchange for a single completion and the connectivity check.
+export abstract class LlmClient {
+  protected abstract readonly providerLabel: string;
+  protected readonly baseUrl: string;
+  protected readonly fetcher: FetchLike;
+  private readonly defaultModel: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly retryDelayMs: number;
+  private readonly retryMultiplier: number;
+  private readonly topics: readonly TopicProfile[];
+  private readonly decisionSchema: object;
+
+  constructor(options: LlmClientOptions, defaultBaseUrl: string) {
+    this.baseUrl = options.baseUrl ?? defaultBaseUrl;
+    this.fetcher = this.resolveFetcher(options.fetcher);
+    this.defaultModel = this.resolveInitialModel(options.model);
+    this.timeoutMs = this.normalizeTimeout(options.timeoutMs);
+    this.maxRetries = this.normalizeRetryCount(options.maxRetries);
+    this.retryDelayMs = this.normalizeDelay(options.retryDelayMs);
+    this.retryMultiplier = this.normalizeMultiplier(options.retryMultiplier);
+    this.topics = options.topics?.length ? options.topics : [DEFAULT_TOPIC_PROFILE];
+    this.decisionSchema =
+      this.topics.length === 1
+        ? ANALYSIS_DECISION_SCHEMA
+        : createMultiTopicDecisionSchema(this.topics.map((topic) => topic.name));
+  }
+
+  get model(): string {
+    return this.defaultModel;
+  }
+
+  // Changes whenever the prompt template changes, so cached decisions from older prompts are not reused.
+  get promptVersion(): string {
+    return createHash("sha256").update(this.buildPrompt(PROMPT_VERSION_PLACEHOLDER)).digest("hex").slice(0, 16);
+  }
+
+  abstract checkConnection(options?: { signal?: AbortSignal }): Promise<boolean>;
+
+  protected abstract requestCompletion(request: CompletionRequest): Promise<Completion>;
+
+  async analyze(description: string, options: AnalyzeTextOptions = {}): Promise<AnalysisResult> {
+    if (!description?.trim()) {
+      throw new LlmConfigurationError("Description must be a non-empty string");
+    }
+
+    const model = this.selectModel(this.resolveModel(options.model, { allowDefault: true }));
+    const prompt = this.buildPrompt(description);
+
+    try {
+      const completion = await this.executeWithRetry(
+        () => this.requestCompletion({ model, prompt, signal: options.signal, schema: this.decisionSchema }),
+        { signal: options.signal },
+      );
+
+      return completion.structured ? this.parseStructuredDecision(completion.text) : this.parseDecision(completion.text);
+    } catch (error) {
+      if (options.gracefulDegradation && this.isGracefulFailure(error)) {
+        return this.createFallbackAnalysis(error);
+      }
+
+      throw error;
+    }
+  }
+
+  async analyzeText(description: string, options: AnalyzeTextOptions = {}): Promise<boolean> {
+    const result = await this.analyze(description, options);
+    return result.relevant;
+  }
+
+  // Hook for backends that can map a requested model onto what the server actually has installed.
+  protected selectModel(model: string): string {
+    return model;
+  }
+
+  protected joinUrl(path: string): string {
+    return `${this.baseUrl.replace(/\/$/, "")}${path}`;
+  }
+
+  protected async executeWithRetry<T>(
+    operation: () => Promise<T>,
+    options: { signal?: AbortSignal } = {},
+  ): Promise<T> {
+    let attempt = 0;
+    let delay = this.retryDelayMs;
+
+    // Attempt loop with exponential backoff for transient failures.
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      if (options.signal?.aborted) {
+        throw this.toAbortError(options.signal);
+      }
+
+      try {
+        return await operation();
+      } catch (error) {
+        const retryable = this.shouldRetry(error);
+
+        if (!retryable) {
+          throw error instanceof Error ? error : new Error(String(error));
+        }
+
+        if (attempt >= this.maxRetries) {
+          const cause = error instanceof Error ? error : new Error(String(error));
+          throw new LlmUnavailableError(
+            `Failed to communicate with ${this.providerLabel} after ${attempt + 1} attempt(s): ${cause.message}`,
+            { cause, attempts: attempt + 1 },
+          );
+        }
+
+        attempt += 1;
+        await this.sleep(delay, options.signal);
+        delay *= this.retryMultiplier;
+      }
+    }
+  }
+
+  protected async performFetch(path: string, init: FetchInit, signal?: AbortSignal): Promise<FetchResponse> {
+    const controller = new AbortController();
+    let timeoutId: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+
+    if (signal) {
+      if (signal.aborted) {
+        throw this.toAbortError(signal);
+      }
+
+      onAbort = () => {
+        controller.abort(signal.reason);
+      };
+      signal.addEventListener("abort", onAbort, { once: true });
+    }
+
+    if (this.timeoutMs > 0) {
+      timeoutId = setTimeout(() => {
+        controller.abort(new LlmTimeoutError(`Request to ${path} timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+    }
+
+    try {
+      const response = await this.fetcher(this.joinUrl(path), {
+        ...init,
+        signal: controller.signal,
+      });
+      return response;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        const reason = controller.signal.reason;
+
+        if (reason instanceof Error) {
+          throw reason;
+        }
+
+        if (typeof reason === "string") {
+          const abortError = new Error(reason);
+          abortError.name = "AbortError";
+          throw abortError;
+        }
+
+        const abortError = new Error("The request was aborted");
+        abortError.name = "AbortError";
+        throw abortError;
+      }
+
+      throw error;
+    } finally {
+      if (timeoutId) {
+        clearTimeout(timeoutId);
+      }
+
+      if (signal && onAbort) {
+        signal.removeEventListener("abort", onAbort);
+      }
+    }
+  }
+
+  protected async extractErrorDetail(response: FetchResponse): Promise<string> {
+    try {
+      const text = await response.text();
+      return text ? `${response.status} ${response.statusText}: ${text}` : `${response.status} ${response.statusText}`;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      return `${response.status} ${response.statusText} (failed to read body: ${message})`;
+    }
+  }
+
+  private resolveFetcher(fetcher?: FetchLike): FetchLike {
+    if (fetcher) {
+      return fetcher;
+    }
+
+    const globalFetch = (globalThis as { fetch?: FetchLike }).fetch;
+
+    if (!globalFetch) {
+      throw new LlmConfigurationError("fetch is not available; provide a custom fetcher");
+    }
+
+    return globalFetch.bind(globalThis);
+  }
+
+  private resolveInitialModel(model?: string): string {
+    const trimmed = typeof model === "string" ? model.trim() : "";
+
+    if (trimmed.length === 0) {
+      throw new LlmConfigurationError("A model is required; pass --model <name>");
+    }
+
+    return trimmed;
+  }
+
+  private resolveModel(model?: string, options: { allowDefault?: boolean } = {}): string {
+    const candidates = [model, options.allowDefault ? this.defaultModel : undefined];
+    const resolved = candidates.find((value) => typeof value === "string" && value.trim().length > 0);
+
+    if (!resolved) {
+      throw new LlmConfigurationError("A model is required; pass --model <name>");
+    }
+
+    return resolved.trim();
+  }
+
+  private normalizeTimeout(timeout?: number): number {
+    if (typeof timeout === "number" && Number.isFinite(timeout) && timeout >= 0) {
+      return timeout;
+    }
+
+    return DEFAULT_TIMEOUT_MS;
+  }
+
+  private normalizeRetryCount(count?: number): number {
+    if (typeof count === "number" && Number.isInteger(count) && count >= 0) {
+      return count;
+    }
+
+    return DEFAULT_MAX_RETRIES;
+  }
+
+  private normalizeDelay(delay?: number): number {
+    if (typeof delay === "number" && Number.isFinite(delay) && delay >= 0) {
+      return delay;
+    }
+
+    return DEFAULT_RETRY_DELAY_MS;
+  }
+
+  private normalizeMultiplier(multiplier?: number): number {
+    if (typeof multiplier === "number" && Number.isFinite(multiplier) && multiplier >= 1) {
+      return multiplier;
+    }
+
+    return DEFAULT_RETRY_MULTIPLIER;
+  }
+
+  private shouldRetry(error: unknown): boolean {
+    if (error instanceof LlmTimeoutError) {
+      return true;
+    }
+
+    if (error instanceof LlmRequestError) {
+      return error.status >= 500 || error.status === 429;
+    }
+
+    if (error instanceof LlmUnavailableError) {
+      return true;
+    }
+
+    if (error instanceof TypeError) {
+      return true;
+    }
+
+    return false;
+  }
+
+  private async sleep(delay: number, signal?: AbortSignal): Promise<void> {
+    if (delay <= 0) {
+      return;
+    }
+
+    await new Promise<void>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        cleanup();
+        resolve();
+      }, delay);
+
+      const onAbort = () => {
+        cleanup();
+        reject(this.toAbortError(signal!));
+      };
+
+      const cleanup = () => {
+        clearTimeout(timer);
+        if (signal) {
+          signal.removeEventListener("abort", onAbort);
+        }
+      };
+
+      if (signal) {
+        if (signal.aborted) {
+          cleanup();
+          reject(this.toAbortError(signal));
+          return;
+        }
+
+        signal.addEventListener("abort", onAbort, { once: true });
+      }
+    });
+  }
+
+  private toAbortError(signal: AbortSignal): Error {
+    const reason = signal.reason;
+
+    if (reason instanceof Error) {
+      return reason;
+    }
+
+    if (typeof reason === "string") {
+      const abortError = new Error(reason);
+      abortError.name = "AbortError";
+      return abortError;
+    }
+
+    const abortError = new Error("The operation was aborted");
+    abortError.name = "AbortError";
+    return abortError;
+  }
+
+  private buildPrompt(description: string): string {
+    const trimmed = description.trim();
+    const allowedTags = this.collectAllowedTags();
+    const tagRule = allowedTags.length > 0
+      ? `tags must be 1-3 keywords chosen from: ${allowedTags.join(", ")}.`
+      : "tags must be 1-3 lowercase keywords summarizing the topic.";
+
+    if (this.topics.length > 1) {
+      return this.buildMultiTopicPrompt(trimmed, tagRule);
+    }
+
+    const [topic] = this.topics;
+    const rules = [...topic.rules, "confidence should be between 0 and 1.", tagRule];
+    return [
+      ...topic.instructions,
+      "Respond with a JSON object using this schema strictly:",
+      '{"relevant": boolean, "confidence": number (0-1), "reason": string, "tags": string[]}',
+      `Rules:\n${rules.map((rule) => `- ${rule}`).join("\n")}`,
+      "Output only the JSON object with no extra commentary.",
+      "Blog post summary:",
+      trimmed,
+    ].join("\n\n");
+  }
+
+  private buildMultiTopicPrompt(description: string, tagRule: string): string {
+    const names = this.topics.map((topic) => topic.name);
+    const sections = this.topics.map((topic) =>
+      [`Topic "${topic.name}" (${topic.label}):`, ...topic.instructions, ...topic.rules.map((rule) => `- ${rule}`)].join("\n"),
+    );
+    const rules = [
+      `Include every topic key exactly once: ${names.join(", ")}.`,
+      "Judge each topic independently; a post may be relevant to several topics or to none.",
+      "confidence should be between 0 and 1.",
+      tagRule,
+    ];
+    return [
+      "Classify the blog post below against each of these topics.",
+      ...sections,
+      "Respond with a JSON object using this schema strictly:",
+      '{"topics": {"<topic>": {"relevant": boolean, "confidence": number (0-1)}}, "reason": string, "tags": string[]}',
+      `Rules:\n${rules.map((rule) => `- ${rule}`).join("\n")}`,
+      "Output only the JSON object with no extra commentary.",
+      "Blog post summary:",
+      description,
+    ].join("\n\n");
+  }
+
+  // Schema-constrained replies should validate as-is; anything else is counted and recovered leniently.
+  private parseStructuredDecision(answer: string): AnalysisResult {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(answer);
+    } catch {
+      parsed = undefined;
+    }
+
+    const validation = validateAnalysisDecision(parsed, this.decisionSchema);
+    return { ...this.parseDecision(answer), schemaViolation: !validation.valid };
+  }
+
+  private parseDecision(answer: string): AnalysisResult {
+    const jsonCandidate = this.extractJsonBlock(answer);
+    if (!jsonCandidate) {
+      const fallback = this.parseFallbackDecision(answer);
+      if (fallback) {
+        return fallback;
+      }
+      throw new LlmParseError(`Unable to locate JSON response in ${this.providerLabel} output`);
+    }
+
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(jsonCandidate);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "unknown error";
+      throw new LlmParseError(`Failed to parse ${this.providerLabel} JSON response: ${message}`);
+    }
+
+    if (!parsed || typeof parsed !== "object") {
+      throw new LlmParseError(`${this.providerLabel} response JSON is not an object`);
+    }
+
+    const record = parsed as Record<string, unknown>;
+    const reason = this.normalizeReason(record.reason ?? record.explanation ?? record.summary);
+    const tags = this.normalizeTags(record.tags ?? record.labels ?? record.topics);
+
+    const topics = this.topics.length > 1 ? this.normalizeTopicDecisions(record.topics) : undefined;
+    if (topics) {
+      const decisions = Object.values(topics);
+      const relevantDecisions = decisions.filter((decision) => decision.relevant);
+      const confidences = (relevantDecisions.length > 0 ? relevantDecisions : decisions)
+        .map((decision) => decision.confidence)
+        .filter((value): value is number => value !== undefined);
+
+      return {
+        relevant: relevantDecisions.length > 0,
+        confidence: confidences.length > 0 ? Math.max(...confidences) : undefined,
+        reason,
+        tags,
+        rawResponse: answer,
+        topics,
+      };
+    }
+
+    const relevant = this.normalizeRelevant(record.relevant ?? record.isRelevant ?? record.relevance ?? record.decision);
+
+    if (typeof relevant !== "boolean") {
+      throw new LlmParseError(`${this.providerLabel} JSON response did not include a boolean relevance decision`);
+    }
+
+    const confidence = this.normalizeConfidence(record.confidence ?? record.score ?? record.probability);
+
+    return {
+      relevant,
+      confidence,
+      reason,
+      tags,
+      rawResponse: answer,
+      topics: this.topics.length === 1 ? { [this.topics[0].name]: { relevant, confidence } } : undefined,
+    };
+  }
+
+  // Topics the model left out count as not relevant; a reply without any topic map falls back to the flat decision.
+  private normalizeTopicDecisions(value: unknown): Record<string, TopicDecision> | undefined {
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      return undefined;
+    }
+
+    const record = value as Record<string, unknown>;
+    const decisions: Record<string, TopicDecision> = {};
+    for (const topic of this.topics) {
+      const entry = record[topic.name];
+      const fields = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : { relevant: entry };
+      decisions[topic.name] = {
+        relevant: this.normalizeRelevant(fields.relevant) ?? false,
+        confidence: this.normalizeConfidence(fields.confidence),
+      };
+    }
+    return decisions;
+  }
+
+  private extractJsonBlock(answer: string): string | undefined {
+    const start = answer.indexOf("{");
+    const end = answer.lastIndexOf("}");
+
+    if (start === -1 || end === -1 || end <= start) {
+      return undefined;
+    }
+
+    return answer.slice(start, end + 1);
+  }
+
+  private parseFallbackDecision(answer: string): AnalysisResult | undefined {
+    const yes = /^\s*yes\b/i.test(answer);
+    const no = /^\s*no\b/i.test(answer);
+
+    if (!yes && !no) {
+      return undefined;
+    }
+
+    return {
+      relevant: yes,
+      confidence: undefined,
+      reason: undefined,
+      tags: undefined,
+      rawResponse: answer,
+    };
+  }
+
+  private normalizeRelevant(value: unknown): boolean | undefined {
+    if (typeof value === "boolean") {
+      return value;
+    }
+
+    if (typeof value === "string") {
+      if (/^yes\b/i.test(value)) {
+        return true;
+      }
+
+      if (/^no\b/i.test(value)) {
+        return false;
+      }
+    }
+
+    return undefined;
+  }
+
+  private normalizeConfidence(value: unknown): number | undefined {
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      return undefined;
+    }
+
+    const clamped = Math.max(0, Math.min(1, value));
+    return clamped;
+  }
+
+  private normalizeReason(value: unknown): string | undefined {
+    if (typeof value !== "string") {
+      return undefined;
+    }
+
+    const trimmed = value.trim();
+    return trimmed.length > 0 ? trimmed : undefined;
+  }
+
+  private normalizeTags(value: unknown): string[] | undefined {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+
+    const tags = value
+      .filter((item): item is string => typeof item === "string")
+      .map((item) => item.trim().toLowerCase())
+      .filter((item) => item.length > 0 && this.isAllowedTag(item));
+
+    return tags.length > 0 ? tags.slice(0, 3) : undefined;
+  }
+
+  private isAllowedTag(tag: string): boolean {
+    const allowedTags = this.collectAllowedTags();
+    return allowedTags.length === 0 || allowedTags.includes(tag);
+  }
+
+  // Tags are only restricted when every selected topic restricts them.
+  private collectAllowedTags(): string[] {
+    if (this.topics.some((topic) => !topic.allowedTags?.length)) {
+      return [];
+    }
+    return Array.from(new Set(this.topics.flatMap((topic) => topic.allowedTags ?? [])));
+  }
+
+  private isGracefulFailure(error: unknown): boolean {
+    if (error instanceof LlmUnavailableError || error instanceof LlmTimeoutError) {
+      return true;
+    }
+
+    if (error instanceof LlmRequestError) {
+      return error.status >= 500 || error.status === 429;
+    }
+
+    return false;
+  }
+
+  private createFallbackAnalysis(error: unknown): AnalysisResult {
+    const message = error instanceof Error ? error.message : `${this.providerLabel} is unavailable`;
+    return {
+      relevant: false,
+      confidence: 0,
+      reason: message,
+      tags: undefined,
+      rawResponse: "",
+      degraded: true,
+    };
+  }
+}
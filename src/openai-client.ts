@@ -0,0 +1,87 @@
+import { LlmClient, LlmRequestError, type Completion, type CompletionRequest, type LlmClientOptions } from "./llm-client.js";
+
+const DEFAULT_BASE_URL = "http://127.0.0.1:8080/v1";
+
+export interface OpenAICompatibleClientOptions extends LlmClientOptions {
+  readonly apiKey?: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: unknown } }>;
+}
+
+// Talks to any server exposing the OpenAI `/v1/chat/completions` API (llama.cpp server, vLLM, LM Studio, ...).
+// The base URL includes the `/v1` prefix so servers mounted elsewhere can be targeted directly.
+export class OpenAICompatibleClient extends LlmClient {
+  protected readonly providerLabel = "OpenAI-compatible server";
+  private readonly apiKey?: string;
+
+  constructor(options: OpenAICompatibleClientOptions = {}) {
+    super(options, DEFAULT_BASE_URL);
+    const apiKey = options.apiKey?.trim();
+    this.apiKey = apiKey ? apiKey : undefined;
+  }
+
+  async checkConnection(options: { signal?: AbortSignal } = {}): Promise<boolean> {
+    await this.executeWithRetry(
+      async () => {
+        const response = await this.performFetch("/models", { method: "GET", headers: this.buildHeaders() }, options.signal);
+
+        if (!response.ok) {
+          const detail = await this.extractErrorDetail(response);
+          throw new LlmRequestError(`Unable to reach ${this.providerLabel}: ${detail}`, response.status);
+        }
+
+        return true;
+      },
+      { signal: options.signal },
+    );
+
+    return true;
+  }
+
+  protected async requestCompletion({ model, prompt, signal }: CompletionRequest): Promise<Completion> {
+    const payload = {
+      model,
+      messages: [{ role: "user", content: prompt }],
+      temperature: 0,
+      stream: false,
+    };
+
+    const response = await this.performFetch(
+      "/chat/completions",
+      {
+        method: "POST",
+        headers: {
+          ...this.buildHeaders(),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(payload),
+      },
+      signal,
+    );
+
+    if (!response.ok) {
+      const detail = await this.extractErrorDetail(response);
+      throw new LlmRequestError(`Chat completion failed: ${detail}`, response.status);
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+    const answer = typeof content === "string" ? content.trim() : "";
+
+    if (!answer) {
+      throw new LlmRequestError("Chat completion response did not include a decision", response.status);
+    }
+
+    return { text: answer };
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const headers: Record<string, string> = { Accept: "application/json" };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+}
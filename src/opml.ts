@@ -0,0 +1,164 @@
+import { readFile } from "node:fs/promises";
+import { BlogDataError, normalizeBlogsDirectory } from "./blogs.js";
+import { decodeEntities } from "./html-text.js";
+import type { BlogCategory, BlogsDirectory, BlogSite } from "./types.js";
+
+// OPML has no notion of language, so imported feeds form a single group that passes the default language filter.
+export const DEFAULT_OPML_LANGUAGE = "en";
+export const UNCATEGORIZED_TITLE = "Uncategorized";
+
+export interface LoadOpmlOptions {
+  language?: string;
+}
+
+export interface SerializeOpmlOptions {
+  title?: string;
+  dateCreated?: Date;
+}
+
+const OUTLINE_TAG_PATTERN = /<(\/?)outline\b((?:"[^"]*"|'[^']*'|[^'">])*?)(\/?)>/gi;
+const ATTRIBUTE_PATTERN = /([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+export async function loadOpml(filePath: string, options: LoadOpmlOptions = {}): Promise<BlogsDirectory> {
+  let rawContents: string;
+  try {
+    rawContents = await readFile(filePath, "utf8");
+  } catch (error) {
+    throw new BlogDataError(`Unable to read OPML file at ${filePath}`, "read-error", { cause: error });
+  }
+
+  try {
+    return parseOpml(rawContents, options);
+  } catch (error) {
+    if (error instanceof BlogDataError) {
+      throw new BlogDataError(`${filePath}: ${error.message}`, error.kind, { cause: error });
+    }
+    throw error;
+  }
+}
+
+// Folders become categories (named after the innermost folder); feeds outside any folder land in "Uncategorized".
+export function parseOpml(xml: string, options: LoadOpmlOptions = {}): BlogsDirectory {
+  const source = xml.replace(/<!--[\s\S]*?-->/g, "");
+  const bodyMatch = /<opml\b[\s\S]*?<body\b[^>]*>([\s\S]*?)<\/body>/i.exec(source);
+  if (!bodyMatch) {
+    throw new BlogDataError("Not an OPML document (missing <opml> or <body>)", "parse-error");
+  }
+
+  const documentTitle = /<head\b[^>]*>[\s\S]*?<title>([\s\S]*?)<\/title>/i.exec(source)?.[1];
+  const categories = new Map<string, BlogCategory>();
+  const seenFeeds = new Set<string>();
+  const folders: string[] = [];
+
+  for (const match of bodyMatch[1].matchAll(OUTLINE_TAG_PATTERN)) {
+    const [, closing, rawAttributes, selfClosing] = match;
+    if (closing) {
+      if (folders.pop() === undefined) {
+        throw new BlogDataError("Unbalanced </outline> in OPML body", "parse-error");
+      }
+      continue;
+    }
+
+    const attributes = parseAttributes(rawAttributes);
+    const label = (attributes.title ?? attributes.text ?? "").trim();
+    const feedUrl = attributes.xmlUrl?.trim();
+
+    if (feedUrl) {
+      if (!seenFeeds.has(feedUrl)) {
+        seenFeeds.add(feedUrl);
+        addSite(categories, folders, {
+          title: label || feedUrl,
+          author: "",
+          site_url: attributes.htmlUrl?.trim() ?? "",
+          feed_url: feedUrl,
+        });
+      }
+    }
+
+    if (!selfClosing) {
+      folders.push(feedUrl ? folders[folders.length - 1] ?? "" : label);
+    }
+  }
+
+  if (folders.length > 0) {
+    throw new BlogDataError("Unclosed <outline> in OPML body", "parse-error");
+  }
+
+  if (categories.size === 0) {
+    return [];
+  }
+
+  return normalizeBlogsDirectory([
+    {
+      language: options.language ?? DEFAULT_OPML_LANGUAGE,
+      title: documentTitle ? decodeEntities(documentTitle).trim() : "OPML import",
+      categories: Array.from(categories.values()),
+    },
+  ]);
+}
+
+export function serializeOpml(directory: BlogsDirectory, options: SerializeOpmlOptions = {}): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    "  <head>",
+    `    <title>${escapeXml(options.title ?? "iOS Blogs")}</title>`,
+    `    <dateCreated>${(options.dateCreated ?? new Date()).toUTCString()}</dateCreated>`,
+    "  </head>",
+    "  <body>",
+  ];
+
+  for (const group of directory) {
+    for (const category of group.categories) {
+      if (category.sites.length === 0) {
+        continue;
+      }
+      lines.push(`    <outline text="${escapeXml(category.title)}" title="${escapeXml(category.title)}">`);
+      for (const site of category.sites) {
+        const htmlUrl = site.site_url ? ` htmlUrl="${escapeXml(site.site_url)}"` : "";
+        lines.push(
+          `      <outline type="rss" text="${escapeXml(site.title)}" title="${escapeXml(site.title)}" xmlUrl="${escapeXml(site.feed_url)}"${htmlUrl}/>`,
+        );
+      }
+      lines.push("    </outline>");
+    }
+  }
+
+  lines.push("  </body>", "</opml>");
+  return `${lines.join("\n")}\n`;
+}
+
+function addSite(categories: Map<string, BlogCategory>, folders: readonly string[], site: BlogSite): void {
+  const title = folders[folders.length - 1] || UNCATEGORIZED_TITLE;
+  const key = title.toLowerCase();
+  let category = categories.get(key);
+  if (!category) {
+    // Folders whose names have no letters or digits (e.g. emoji-only) still need distinct slugs.
+    category = { title, slug: slugify(title) || `category-${categories.size + 1}`, description: "", sites: [] };
+    categories.set(key, category);
+  }
+  category.sites.push(site);
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, doubleQuoted, singleQuoted] of raw.matchAll(ATTRIBUTE_PATTERN)) {
+    attributes[name] = decodeEntities(doubleQuoted ?? singleQuoted ?? "");
+  }
+  return attributes;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
@@ -0,0 +1,36 @@
+import type { AnalysisClient } from "./analyzer.js";
+import { OllamaClient } from "./ollama-client.js";
+import { OpenAICompatibleClient } from "./openai-client.js";
+import type { TopicProfile } from "./topics.js";
+
+export type ProviderName = "ollama" | "openai";
+
+export const DEFAULT_PROVIDER: ProviderName = "ollama";
+
+export interface ProviderOptions {
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  topics?: readonly TopicProfile[];
+}
+
+export interface ProviderClient extends AnalysisClient {
+  checkConnection(options?: { signal?: AbortSignal }): Promise<unknown>;
+}
+
+type ProviderFactory = (options: ProviderOptions) => ProviderClient;
+
+const PROVIDERS: Record<ProviderName, ProviderFactory> = {
+  ollama: ({ model, baseUrl, topics }) => new OllamaClient({ model, baseUrl, topics }),
+  openai: ({ model, baseUrl, apiKey, topics }) => new OpenAICompatibleClient({ model, baseUrl, apiKey, topics }),
+};
+
+export const PROVIDER_NAMES = Object.keys(PROVIDERS) as ProviderName[];
+
+export function isProviderName(value: string): value is ProviderName {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, value);
+}
+
+export function createProviderClient(name: ProviderName, options: ProviderOptions): ProviderClient {
+  return PROVIDERS[name](options);
+}
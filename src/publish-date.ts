@@ -0,0 +1,183 @@
+export type PublishDateSource = "feed" | "url" | "first-seen";
+
+export interface ResolvedPublishDate {
+  date: Date;
+  source: PublishDateSource;
+}
+
+// Anything earlier is a placeholder (the Unix epoch, a zeroed timestamp), not a real publish date.
+const MIN_PLAUSIBLE_YEAR = 1990;
+
+const ISO_WITHOUT_ZONE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+const DOTTED_DATE_PATTERN = /^(\d{1,2})\.\s?(\d{1,2})\.\s?(\d{4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+const UNIX_TIMESTAMP_PATTERN = /^\d{10}(?:\d{3})?$/;
+// /2025/06/08/, /2025/06/ or a slug starting 2025-06-08-.
+const URL_DATE_PATTERN = /\/((?:19|20)\d{2})[/-](0[1-9]|1[0-2])(?:[/-](0[1-9]|[12]\d|3[01]))?(?=[/-]|\.html?$|$)/;
+
+// Zone abbreviations Date.parse does not know (it only understands the North American ones and GMT/UTC).
+const ZONE_OFFSETS: Record<string, string> = {
+  CET: "+0100",
+  CEST: "+0200",
+  WET: "+0000",
+  WEST: "+0100",
+  EET: "+0200",
+  EEST: "+0300",
+  BST: "+0100",
+  IST: "+0530",
+  MSK: "+0300",
+  SGT: "+0800",
+  HKT: "+0800",
+  JST: "+0900",
+  KST: "+0900",
+  AEST: "+1000",
+  AEDT: "+1100",
+  NZST: "+1200",
+  NZDT: "+1300",
+};
+
+// Month names in the other languages of the blog directory, mapped to the English abbreviations Date.parse reads.
+const LOCALIZED_MONTHS: Record<string, string> = {
+  janvier: "Jan",
+  janv: "Jan",
+  januar: "Jan",
+  enero: "Jan",
+  gennaio: "Jan",
+  janeiro: "Jan",
+  januari: "Jan",
+  février: "Feb",
+  févr: "Feb",
+  februar: "Feb",
+  febrero: "Feb",
+  febbraio: "Feb",
+  fevereiro: "Feb",
+  februari: "Feb",
+  mars: "Mar",
+  märz: "Mar",
+  marzo: "Mar",
+  março: "Mar",
+  maart: "Mar",
+  avril: "Apr",
+  avr: "Apr",
+  abril: "Apr",
+  aprile: "Apr",
+  mai: "May",
+  mayo: "May",
+  maggio: "May",
+  maio: "May",
+  mei: "May",
+  juin: "Jun",
+  juni: "Jun",
+  junio: "Jun",
+  giugno: "Jun",
+  junho: "Jun",
+  juillet: "Jul",
+  juil: "Jul",
+  juli: "Jul",
+  julio: "Jul",
+  luglio: "Jul",
+  julho: "Jul",
+  août: "Aug",
+  agosto: "Aug",
+  augustus: "Aug",
+  septembre: "Sep",
+  septiembre: "Sep",
+  settembre: "Sep",
+  setembro: "Sep",
+  octobre: "Oct",
+  oktober: "Oct",
+  octubre: "Oct",
+  ottobre: "Oct",
+  outubro: "Oct",
+  novembre: "Nov",
+  noviembre: "Nov",
+  novembro: "Nov",
+  décembre: "Dec",
+  déc: "Dec",
+  dezember: "Dec",
+  diciembre: "Dec",
+  dicembre: "Dec",
+  dezembro: "Dec",
+};
+
+// Parses RFC 822 and ISO 8601 dates plus the variants blogs emit in practice: space-separated or zone-less ISO
+// timestamps (read as UTC), dotted day-first dates, Unix timestamps, ordinal days, unknown zone abbreviations,
+// and month names in French, German, Spanish, Italian, Portuguese, and Dutch.
+export function parsePublishDate(value: string | undefined): Date | undefined {
+  const text = value?.trim().replace(/\s*\([^)]*\)\s*$/, "");
+  if (!text) {
+    return undefined;
+  }
+
+  if (UNIX_TIMESTAMP_PATTERN.test(text)) {
+    return plausible(new Date(text.length === 10 ? Number(text) * 1000 : Number(text)));
+  }
+
+  const iso = ISO_WITHOUT_ZONE_PATTERN.exec(text);
+  if (iso) {
+    const [, year, month, day, hours = "0", minutes = "0", seconds = "0"] = iso;
+    return plausible(new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)));
+  }
+
+  const dotted = DOTTED_DATE_PATTERN.exec(text);
+  if (dotted) {
+    const [, day, month, year, hours = "0", minutes = "0", seconds = "0"] = dotted;
+    return plausible(new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds)));
+  }
+
+  const normalized = text
+    .replace(/(\d)(?:st|nd|rd|th)\b/gi, "$1")
+    .replace(/\p{L}+\.?/gu, (word) => {
+      const bare = word.replace(/\.$/, "");
+      return LOCALIZED_MONTHS[bare.toLowerCase()] ?? ZONE_OFFSETS[bare] ?? word;
+    })
+    // Spanish and Portuguese put "de" between day, month, and year.
+    .replace(/\s+de\s+/gi, " ");
+  // Date.parse reads a lone number as a year or month; a real date has at least a day and a year.
+  if (!/\d\D+\d/.test(normalized)) {
+    return undefined;
+  }
+  return plausible(new Date(normalized));
+}
+
+// Blogs that omit dates from the feed often keep them in the permalink.
+export function parseDateFromUrl(link: string): Date | undefined {
+  let pathname: string;
+  try {
+    pathname = new URL(link).pathname;
+  } catch {
+    return undefined;
+  }
+
+  const match = URL_DATE_PATTERN.exec(pathname);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day = "01"] = match;
+  const date = new Date(Date.UTC(+year, +month - 1, +day));
+  // Reject impossible days such as 2025/02/31, which Date.UTC rolls into March.
+  return date.getUTCDate() === +day ? date : undefined;
+}
+
+// Feed dates win over URL dates, which win over the first time this machine saw the post.
+export function resolvePublishDate(
+  item: { link: string; publishedAt?: string },
+  firstSeen?: () => Date | undefined,
+): ResolvedPublishDate | undefined {
+  const fromFeed = parsePublishDate(item.publishedAt);
+  if (fromFeed) {
+    return { date: fromFeed, source: "feed" };
+  }
+
+  const fromUrl = parseDateFromUrl(item.link);
+  if (fromUrl) {
+    return { date: fromUrl, source: "url" };
+  }
+
+  const seen = firstSeen?.();
+  return seen ? { date: seen, source: "first-seen" } : undefined;
+}
+
+function plausible(date: Date): Date | undefined {
+  const time = date.getTime();
+  return Number.isNaN(time) || date.getUTCFullYear() < MIN_PLAUSIBLE_YEAR ? undefined : date;
+}
@@ -1,5 +1,10 @@
 import Parser from "rss-parser";
-import type { FetchFeedOptions, FeedItem, ParsedFeed } from "./types.js";
+import { decodeBody } from "./charset.js";
+import { buildDiscoveryCandidates } from "./feed-discovery.js";
+import { parseRetryAfter } from "./host-limiter.js";
+import { isJsonFeed, parseJsonFeed } from "./json-feed.js";
+import { parsePublishDate } from "./publish-date.js";
+import type { FetchFeedOptions, FeedFetchInfo, FeedItem, ParsedFeed } from "./types.js";
 
 export type FeedFetchErrorKind =
   | "invalid-url"
@@ -8,16 +13,37 @@ export type FeedFetchErrorKind =
   | "fetch-error"
   | "parse-error";
 
+export interface FeedFetchErrorOptions extends ErrorOptions {
+  status?: number;
+}
+
 export class FeedFetchError extends Error {
-  constructor(message: string, public readonly kind: FeedFetchErrorKind, options?: ErrorOptions) {
+  // HTTP status of the failed response, for `http-error` failures.
+  public readonly status?: number;
+
+  constructor(message: string, public readonly kind: FeedFetchErrorKind, options?: FeedFetchErrorOptions) {
     super(message, options);
     this.name = "FeedFetchError";
+    this.status = options?.status;
   }
 }
 
 const DEFAULT_TIMEOUT_MS = 1000 * 10;
 const DEFAULT_USER_AGENT = "iOS Blogs Analyzer/0.1 (+https://github.com/)";
 
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+const PERMANENT_REDIRECT_STATUSES = new Set([301, 308]);
+
+// Throttled requests are retried after the server's Retry-After when it asks for a short enough pause.
+const RETRY_AFTER_STATUSES = new Set([429, 503]);
+const MAX_RETRY_AFTER_ATTEMPTS = 2;
+const MAX_RETRY_AFTER_MS = 60_000;
+
+// Stale feed URLs typically 404/410 or serve an HTML page. Throttling (429), server errors, timeouts and network errors
+// are temporary or site-wide: probing more URLs on that host would ignore its request to back off.
+const DISCOVERABLE_HTTP_STATUSES: ReadonlySet<number> = new Set([404, 410]);
+
 type ParserLinkObject = {
   href?: string;
   rel?: string;
@@ -31,8 +57,81 @@ type ParserItem = Parser.Item & {
   [key: string]: unknown;
 };
 
+interface RequestResult {
+  response: Response;
+  finalUrl: string;
+  permanentRedirect?: string;
+}
+
 export async function fetchFeed(url: string, options: FetchFeedOptions = {}): Promise<ParsedFeed> {
-  const { timeoutMs = DEFAULT_TIMEOUT_MS, userAgent = DEFAULT_USER_AGENT, fetcher = fetch } = options;
+  try {
+    return await fetchFeedUrl(url, options);
+  } catch (error) {
+    if (!options.autodiscover || !isDiscoverableError(error)) {
+      throw error;
+    }
+    const discovered = await discoverFeed(url, options);
+    if (!discovered) {
+      throw error;
+    }
+    return discovered;
+  }
+}
+
+function isDiscoverableError(error: unknown): boolean {
+  if (!(error instanceof FeedFetchError)) {
+    return false;
+  }
+  return error.kind === "parse-error" || (error.kind === "http-error" && DISCOVERABLE_HTTP_STATUSES.has(error.status ?? 0));
+}
+
+// Fetches an HTML page, such as a post for full-article analysis, under the same timeout, host limits and charset rules as feeds.
+export async function fetchPage(url: string, options: FetchFeedOptions = {}): Promise<string> {
+  try {
+    new URL(url);
+  } catch (error) {
+    throw new FeedFetchError(`Invalid page URL: ${url}`, "invalid-url", { cause: error });
+  }
+
+  const { response } = await requestUrl(url, {}, options);
+  if (!response.ok) {
+    throw new FeedFetchError(`Page responded with HTTP ${response.status} for ${url}`, "http-error", {
+      cause: new Error(response.statusText || "HTTP error"),
+      status: response.status,
+    });
+  }
+
+  return decodeBody(new Uint8Array(await response.arrayBuffer()), response.headers?.get("content-type")).text;
+}
+
+async function discoverFeed(feedUrl: string, options: FetchFeedOptions): Promise<ParsedFeed | undefined> {
+  const siteUrl = options.siteUrl ?? new URL(feedUrl).origin;
+  let html: string | undefined;
+  let pageUrl = siteUrl;
+  try {
+    const { response, finalUrl } = await requestUrl(siteUrl, {}, options);
+    if (response.ok) {
+      html = decodeBody(new Uint8Array(await response.arrayBuffer()), response.headers?.get("content-type")).text;
+      pageUrl = finalUrl;
+    }
+  } catch {
+    // The common feed paths are still worth trying when the home page is unreachable.
+  }
+
+  for (const candidate of buildDiscoveryCandidates(feedUrl, siteUrl, html, pageUrl)) {
+    try {
+      const feed = await fetchFeedUrl(candidate, options);
+      return withFetchInfo(feed, { ...feed.fetchInfo, discoveredUrl: candidate });
+    } catch {
+      continue;
+    }
+  }
+
+  return undefined;
+}
+
+async function fetchFeedUrl(url: string, options: FetchFeedOptions): Promise<ParsedFeed> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, cache } = options;
 
   let parsedUrl: URL;
   try {
@@ -45,34 +144,108 @@ export async function fetchFeed(url: string, options: FetchFeedOptions = {}): Pr
     throw new FeedFetchError(`Unsupported protocol for feed URL: ${url}`, "invalid-url");
   }
 
-  const controller = new AbortSignalController(timeoutMs);
+  const cached = cache?.get(url);
+  if (cached && cache?.isFresh(cached)) {
+    return withFetchInfo(cached.feed, { cacheStatus: "hit", encoding: cached.encoding });
+  }
 
-  let response: Response;
-  try {
-    response = await fetcher(url, {
-      signal: controller.signal,
-      headers: { "user-agent": userAgent },
-    } satisfies RequestInit);
-  } catch (error) {
-    controller.dispose();
-    if ((error as Error)?.name === "AbortError") {
-      throw new FeedFetchError(`Fetching feed timed out after ${timeoutMs}ms: ${url}`, "timeout", { cause: error });
-    }
-    throw new FeedFetchError(`Failed to fetch feed: ${url}`, "fetch-error", { cause: error });
+  const headers: Record<string, string> = {};
+  if (cached?.etag) {
+    headers["if-none-match"] = cached.etag;
   }
+  if (cached?.lastModified) {
+    headers["if-modified-since"] = cached.lastModified;
+  }
+
+  const { response, permanentRedirect } = await requestUrl(url, headers, options);
 
-  controller.dispose();
+  if (response.status === 304 && cached) {
+    cache?.touch(url);
+    return withFetchInfo(cached.feed, { cacheStatus: "revalidated", permanentRedirect, encoding: cached.encoding });
+  }
 
   if (!response.ok) {
     throw new FeedFetchError(
       `Feed responded with HTTP ${response.status} for ${url}`,
       "http-error",
-      { cause: new Error(response.statusText || "HTTP error") },
+      { cause: new Error(response.statusText || "HTTP error"), status: response.status },
     );
   }
 
-  const xml = await response.text();
+  const contentType = response.headers?.get("content-type");
+  const { text: body, encoding } = decodeBody(new Uint8Array(await response.arrayBuffer()), contentType);
+  const feed = isJsonFeed(body, contentType)
+    ? parseJsonFeedBody(body, url)
+    : await parseFeedXml(body, url, timeoutMs);
+
+  cache?.store(url, {
+    etag: response.headers?.get("etag") ?? undefined,
+    lastModified: response.headers?.get("last-modified") ?? undefined,
+    encoding,
+    feed,
+  });
+
+  return withFetchInfo(feed, { cacheStatus: "downloaded", permanentRedirect, encoding });
+}
+
+async function requestUrl(url: string, headers: Record<string, string>, options: FetchFeedOptions): Promise<RequestResult> {
+  const { hostLimiter } = options;
+  for (let attempt = 0; ; attempt += 1) {
+    const result = hostLimiter
+      ? await hostLimiter.schedule(url, () => requestOnce(url, headers, options))
+      : await requestOnce(url, headers, options);
+
+    const { response } = result;
+    const delayMs = RETRY_AFTER_STATUSES.has(response.status)
+      ? parseRetryAfter(response.headers?.get("retry-after"), Date.now())
+      : undefined;
+    if (delayMs === undefined || delayMs > MAX_RETRY_AFTER_MS || attempt >= MAX_RETRY_AFTER_ATTEMPTS) {
+      return result;
+    }
+
+    if (hostLimiter) {
+      hostLimiter.defer(url, delayMs);
+    } else {
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+}
+
+// Redirects are followed by hand so a chain made only of 301/308 hops can be reported as the feed's new home.
+async function requestOnce(url: string, headers: Record<string, string>, options: FetchFeedOptions): Promise<RequestResult> {
+  const { timeoutMs = DEFAULT_TIMEOUT_MS, userAgent = DEFAULT_USER_AGENT, fetcher = fetch } = options;
+  const controller = new AbortSignalController(timeoutMs);
 
+  try {
+    let currentUrl = url;
+    let permanent = true;
+    for (let hop = 0; ; hop += 1) {
+      const response = await fetcher(currentUrl, {
+        signal: controller.signal,
+        headers: { "user-agent": userAgent, ...headers },
+        redirect: "manual",
+      } satisfies RequestInit);
+
+      const location = response.headers?.get("location");
+      if (!REDIRECT_STATUSES.has(response.status) || !location || hop >= MAX_REDIRECTS) {
+        const redirected = currentUrl !== url;
+        return { response, finalUrl: currentUrl, permanentRedirect: redirected && permanent ? currentUrl : undefined };
+      }
+
+      permanent &&= PERMANENT_REDIRECT_STATUSES.has(response.status);
+      currentUrl = new URL(location, currentUrl).toString();
+    }
+  } catch (error) {
+    if ((error as Error)?.name === "AbortError") {
+      throw new FeedFetchError(`Fetching feed timed out after ${timeoutMs}ms: ${url}`, "timeout", { cause: error });
+    }
+    throw new FeedFetchError(`Failed to fetch feed: ${url}`, "fetch-error", { cause: error });
+  } finally {
+    controller.dispose();
+  }
+}
+
+async function parseFeedXml(xml: string, url: string, timeoutMs: number): Promise<ParsedFeed> {
   let parsed: Parser.Output<ParserItem>;
   try {
     const parserInstance = new Parser<Parser.Output<ParserItem>, ParserItem>({
@@ -99,6 +272,18 @@ export async function fetchFeed(url: string, options: FetchFeedOptions = {}): Pr
   }
 }
 
+function parseJsonFeedBody(body: string, url: string): ParsedFeed {
+  try {
+    return parseJsonFeed(body);
+  } catch (error) {
+    throw new FeedFetchError(`Failed to parse JSON Feed contents from ${url}`, "parse-error", { cause: error });
+  }
+}
+
+function withFetchInfo(feed: ParsedFeed, fetchInfo: FeedFetchInfo): ParsedFeed {
+  return { ...feed, fetchInfo };
+}
+
 // Small helper to pair an AbortController with a timeout and ensure cleanup.
 class AbortSignalController {
   private readonly controller = new AbortController();
@@ -137,11 +322,16 @@ function mapItemToFeed(item: ParserItem): FeedItem | null {
     item.content,
   );
 
-  const publishedAt = selectFirstString(item.isoDate, item.updated, item.published, item.pubDate);
+  // rss-parser keeps `dc:date` as `date` and only fills `isoDate` when `new Date()` accepts the value.
+  const dateCandidates = [item.isoDate, item.pubDate, item.date, item.published, item.updated];
+  const parsedDate = dateCandidates.map((value) => (typeof value === "string" ? parsePublishDate(value) : undefined)).find(Boolean);
+  const publishedAt = parsedDate?.toISOString() ?? selectFirstString(...dateCandidates);
+  const guid = selectFirstString(item.guid, item.id);
 
   return {
     title,
     link,
+    guid: guid ?? undefined,
     description: descriptionCandidate ?? undefined,
     content: contentCandidate ?? undefined,
     publishedAt: publishedAt ?? undefined,
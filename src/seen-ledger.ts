@@ -0,0 +1,108 @@
+import { readStateFile, STATE_FILE_VERSION, writeStateFile } from "./state-file.js";
+
+export interface SeenPostRef {
+  guid?: string;
+  link: string;
+  title?: string;
+}
+
+export interface SeenLedgerEntry {
+  id: string;
+  link: string;
+  title?: string;
+  reportedAt: string;
+}
+
+export interface SeenLedgerOptions {
+  clock?: () => number;
+}
+
+interface SeenLedgerPayload {
+  version: number;
+  entries: SeenLedgerEntry[];
+}
+
+// Records every post the analyzer has reported so `--new-only` runs can skip already triaged posts.
+export class SeenLedger {
+  private readonly entries = new Map<string, SeenLedgerEntry>();
+  private readonly clock: () => number;
+
+  constructor(
+    private readonly filePath: string,
+    options: SeenLedgerOptions = {},
+  ) {
+    this.clock = options.clock ?? (() => Date.now());
+  }
+
+  static async load(filePath: string, options: SeenLedgerOptions = {}): Promise<SeenLedger> {
+    const ledger = new SeenLedger(filePath, options);
+    const payload = await readStateFile<Partial<SeenLedgerPayload>>(filePath, {});
+
+    if (payload.version === STATE_FILE_VERSION && Array.isArray(payload.entries)) {
+      for (const entry of payload.entries) {
+        if (entry && typeof entry.id === "string" && typeof entry.link === "string" && typeof entry.reportedAt === "string") {
+          ledger.entries.set(entry.id, entry);
+        }
+      }
+    }
+
+    return ledger;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  has(post: SeenPostRef): boolean {
+    return this.entries.has(createPostId(post)) || this.entries.has(createPostId({ link: post.link }));
+  }
+
+  record(post: SeenPostRef): void {
+    const id = createPostId(post);
+    if (this.entries.has(id)) {
+      return;
+    }
+
+    this.entries.set(id, {
+      id,
+      link: post.link,
+      title: post.title,
+      reportedAt: new Date(this.clock()).toISOString(),
+    });
+  }
+
+  // Forget posts reported at or after `date`; without a date the ledger is cleared entirely.
+  rewind(date?: Date): number {
+    if (!date) {
+      const removed = this.entries.size;
+      this.entries.clear();
+      return removed;
+    }
+
+    const threshold = date.getTime();
+    let removed = 0;
+
+    for (const [id, entry] of this.entries) {
+      const reportedAt = Date.parse(entry.reportedAt);
+      if (Number.isNaN(reportedAt) || reportedAt >= threshold) {
+        this.entries.delete(id);
+        removed += 1;
+      }
+    }
+
+    return removed;
+  }
+
+  async save(): Promise<void> {
+    const payload: SeenLedgerPayload = {
+      version: STATE_FILE_VERSION,
+      entries: Array.from(this.entries.values()),
+    };
+    await writeStateFile(this.filePath, payload);
+  }
+}
+
+function createPostId(post: SeenPostRef): string {
+  const guid = post.guid?.trim();
+  return guid ? `guid:${guid}` : `link:${post.link.trim()}`;
+}
@@ -0,0 +1,35 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export const STATE_FILE_VERSION = 1;
+
+export async function readStateFile<T>(filePath: string, fallback: T): Promise<T> {
+  let raw: string;
+  try {
+    raw = await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+      return fallback;
+    }
+
+    throw new Error(`Unable to read state file at ${filePath}: ${(error as Error)?.message ?? error}`);
+  }
+
+  if (!raw.trim()) {
+    return fallback;
+  }
+
+  try {
+    return JSON.parse(raw) as T;
+  } catch (error) {
+    throw new Error(`State file ${filePath} is not valid JSON: ${(error as Error)?.message ?? error}`);
+  }
+}
+
+export async function writeStateFile(filePath: string, payload: unknown): Promise<void> {
+  await mkdir(path.dirname(filePath), { recursive: true });
+  // Write to a sibling temp file first so an interrupted run never leaves a truncated state file behind.
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  await writeFile(tempPath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+  await rename(tempPath, filePath);
+}
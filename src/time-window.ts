@@ -0,0 +1,255 @@
+export const WINDOW_PRESETS = [
+  "today",
+  "yesterday",
+  "this-week",
+  "last-week",
+  "this-month",
+  "last-month",
+  "this-quarter",
+  "last-quarter",
+  "this-year",
+  "last-year",
+] as const;
+
+export type WindowPreset = (typeof WINDOW_PRESETS)[number];
+
+// A `--since`/`--until` value before it is pinned to a clock and time zone.
+export type WindowBound =
+  | { kind: "instant"; date: Date }
+  | { kind: "local"; fields: LocalDateTime; dateOnly: boolean }
+  | { kind: "relative"; days: number; text: string }
+  | { kind: "preset"; preset: WindowPreset };
+
+export interface AnalysisWindow {
+  since: Date;
+  // Exclusive end; open-ended windows run up to the moment of the run.
+  until?: Date;
+  timeZone: string;
+  label: string;
+}
+
+export interface LocalDateTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+export interface ResolveWindowOptions {
+  since?: WindowBound;
+  until?: WindowBound;
+  // Start of the window when `since` is not given.
+  months: number;
+  timeZone: string;
+  now: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const LOCAL_DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/;
+const ZONED_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})$/i;
+const RELATIVE_PATTERN = /^(\d+)\s*(d|days?|w|weeks?)$/i;
+// Named windows get their own label; any other combination is described by its bounds alone.
+const CUSTOM_WINDOW_LABEL = "custom window";
+
+const PRESET_LABELS: Record<WindowPreset, string> = {
+  today: "today",
+  yesterday: "yesterday",
+  "this-week": "this ISO week",
+  "last-week": "the last ISO week",
+  "this-month": "this calendar month",
+  "last-month": "the last calendar month",
+  "this-quarter": "this quarter",
+  "last-quarter": "the last quarter",
+  "this-year": "this calendar year",
+  "last-year": "the last calendar year",
+};
+
+export function isWindowPreset(value: string): value is WindowPreset {
+  return (WINDOW_PRESETS as readonly string[]).includes(value);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone ?? "UTC";
+}
+
+// Accepts ISO dates (local to the window's time zone unless they carry an offset), "7d"/"2w" durations, and presets.
+export function parseWindowBound(value: string): WindowBound {
+  const text = value.trim();
+  const preset = text.toLowerCase();
+  if (isWindowPreset(preset)) {
+    return { kind: "preset", preset };
+  }
+
+  const relative = RELATIVE_PATTERN.exec(text);
+  if (relative) {
+    const amount = Number(relative[1]);
+    const weeks = relative[2].toLowerCase().startsWith("w");
+    if (amount <= 0) {
+      throw new RangeError(`Window duration must be positive: ${value}`);
+    }
+    return {
+      kind: "relative",
+      days: weeks ? amount * 7 : amount,
+      text: `${amount} ${weeks ? "week" : "day"}${amount === 1 ? "" : "s"}`,
+    };
+  }
+
+  if (ZONED_DATE_TIME_PATTERN.test(text)) {
+    const time = Date.parse(text);
+    if (!Number.isNaN(time)) {
+      return { kind: "instant", date: new Date(time) };
+    }
+  }
+
+  const local = LOCAL_DATE_TIME_PATTERN.exec(text);
+  if (local) {
+    const [, year, month, day, hour, minute, second] = local;
+    const fields = { year: +year, month: +month, day: +day, hour: +(hour ?? 0), minute: +(minute ?? 0), second: +(second ?? 0) };
+    if (isValidLocalDateTime(fields)) {
+      return { kind: "local", fields, dateOnly: hour === undefined };
+    }
+  }
+
+  throw new RangeError(
+    `Unrecognized window value "${value}"; use an ISO date, a duration like 7d or 2w, or one of ${WINDOW_PRESETS.join(", ")}`,
+  );
+}
+
+// A preset names a calendar range: as `since` it starts the window and, without `until`, also ends it; as `until` it
+// ends the window at the end of the range. Date-only `until` values include that whole day.
+export function resolveAnalysisWindow(options: ResolveWindowOptions): AnalysisWindow {
+  const { since, until, months, timeZone, now } = options;
+  let start: number;
+  let end: number | undefined;
+  let label: string;
+
+  if (!since) {
+    const today = toLocalDateTime(now, timeZone);
+    start = toInstant({ ...today, month: today.month - months }, timeZone);
+    label = `the last ${months} month${months === 1 ? "" : "s"}`;
+  } else if (since.kind === "preset") {
+    const range = resolvePreset(since.preset, now, timeZone);
+    start = range.start;
+    end = until ? undefined : range.end;
+    label = PRESET_LABELS[since.preset];
+  } else {
+    start = resolveBound(since, "start", now, timeZone);
+    label = since.kind === "relative" ? `the last ${since.text}` : CUSTOM_WINDOW_LABEL;
+  }
+
+  if (until) {
+    end = until.kind === "preset" ? resolvePreset(until.preset, now, timeZone).end : resolveBound(until, "end", now, timeZone);
+    label = CUSTOM_WINDOW_LABEL;
+  }
+
+  if (end !== undefined && end <= start) {
+    throw new RangeError("The window must start before it ends (check --since and --until)");
+  }
+
+  return { since: new Date(start), ...(end !== undefined ? { until: new Date(end) } : {}), timeZone, label };
+}
+
+// e.g. "the last ISO week: 2025-06-02 00:00 – 2025-06-08 23:59 (Europe/Rome)".
+export function formatWindow(window: AnalysisWindow): string {
+  const end = window.until ? formatLocal(window.until.getTime() - 1, window.timeZone) : "now";
+  return `${window.label}: ${formatLocal(window.since.getTime(), window.timeZone)} – ${end} (${window.timeZone})`;
+}
+
+function resolveBound(bound: Exclude<WindowBound, { kind: "preset" }>, side: "start" | "end", now: number, timeZone: string): number {
+  if (bound.kind === "instant") {
+    return bound.date.getTime();
+  }
+  if (bound.kind === "relative") {
+    return now - bound.days * DAY_MS;
+  }
+  const instant = toInstant(bound.fields, timeZone);
+  return side === "end" && bound.dateOnly ? toInstant({ ...bound.fields, day: bound.fields.day + 1 }, timeZone) : instant;
+}
+
+function resolvePreset(preset: WindowPreset, now: number, timeZone: string): { start: number; end: number } {
+  const { year, month, day } = toLocalDateTime(now, timeZone);
+  const midnight = (y: number, m: number, d: number) => toInstant({ year: y, month: m, day: d, hour: 0, minute: 0, second: 0 }, timeZone);
+  // ISO weeks start on Monday.
+  const monday = day - ((new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7);
+  const quarterStart = month - ((month - 1) % 3);
+
+  switch (preset) {
+    case "today":
+      return { start: midnight(year, month, day), end: midnight(year, month, day + 1) };
+    case "yesterday":
+      return { start: midnight(year, month, day - 1), end: midnight(year, month, day) };
+    case "this-week":
+      return { start: midnight(year, month, monday), end: midnight(year, month, monday + 7) };
+    case "last-week":
+      return { start: midnight(year, month, monday - 7), end: midnight(year, month, monday) };
+    case "this-month":
+      return { start: midnight(year, month, 1), end: midnight(year, month + 1, 1) };
+    case "last-month":
+      return { start: midnight(year, month - 1, 1), end: midnight(year, month, 1) };
+    case "this-quarter":
+      return { start: midnight(year, quarterStart, 1), end: midnight(year, quarterStart + 3, 1) };
+    case "last-quarter":
+      return { start: midnight(year, quarterStart - 3, 1), end: midnight(year, quarterStart, 1) };
+    case "this-year":
+      return { start: midnight(year, 1, 1), end: midnight(year + 1, 1, 1) };
+    case "last-year":
+      return { start: midnight(year - 1, 1, 1), end: midnight(year, 1, 1) };
+  }
+}
+
+function toLocalDateTime(instant: number, timeZone: string): LocalDateTime {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(new Date(instant));
+  const field = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return { year: field("year"), month: field("month"), day: field("day"), hour: field("hour"), minute: field("minute"), second: field("second") };
+}
+
+// Out-of-range fields roll over (month 0 is December of the previous year), which keeps calendar arithmetic simple.
+function toInstant(fields: LocalDateTime, timeZone: string): number {
+  const asUtc = Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second);
+  const guess = asUtc - offsetAt(asUtc, timeZone);
+  // Re-read the offset at the guess so times next to a DST change land on the right side of it.
+  return asUtc - offsetAt(guess, timeZone);
+}
+
+function offsetAt(instant: number, timeZone: string): number {
+  const local = toLocalDateTime(instant, timeZone);
+  const wholeSeconds = instant - (((instant % 1000) + 1000) % 1000);
+  return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute, local.second) - wholeSeconds;
+}
+
+function formatLocal(instant: number, timeZone: string): string {
+  const { year, month, day, hour, minute } = toLocalDateTime(instant, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${year}-${pad(month)}-${pad(day)} ${pad(hour)}:${pad(minute)}`;
+}
+
+function isValidLocalDateTime(fields: LocalDateTime): boolean {
+  const date = new Date(Date.UTC(fields.year, fields.month - 1, fields.day, fields.hour, fields.minute, fields.second));
+  return (
+    date.getUTCFullYear() === fields.year &&
+    date.getUTCMonth() === fields.month - 1 &&
+    date.getUTCDate() === fields.day &&
+    date.getUTCHours() === fields.hour &&
+    date.getUTCMinutes() === fields.minute
+  );
+}
@@ -0,0 +1,171 @@
+import { readFile } from "node:fs/promises";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import Ajv, { type ValidateFunction } from "ajv";
+import { compileRuleSet, createKeywordRuleSet, KeywordRuleError, type CompiledRuleSet, type KeywordRuleSet } from "./keyword-rules.js";
+
+export type TopicProfileErrorKind = "not-found" | "read-error" | "parse-error" | "validation-error";
+
+export class TopicProfileError extends Error {
+  constructor(message: string, public readonly kind: TopicProfileErrorKind, options?: ErrorOptions) {
+    super(message, options);
+    this.name = "TopicProfileError";
+  }
+}
+
+export interface TopicProfile {
+  name: string;
+  // Human-readable topic name used in prompts and log messages.
+  label: string;
+  description?: string;
+  instructions: string[];
+  rules: string[];
+  // Shorthand confirmation rules: any keyword confirms a relevant decision. Ignored when `confirmation` is set.
+  keywords?: string[];
+  // Always veto a post, on top of either form of confirmation rules.
+  exclusions?: string[];
+  confirmation?: KeywordRuleSet;
+  allowedTags?: string[];
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+const defaultTopicsDirectory = path.resolve(__dirname, "../config/topics");
+const defaultSchemaPath = path.resolve(__dirname, "../schema_topic.json");
+
+const TOPIC_NAME_PATTERN = /^[a-z0-9][a-z0-9-]*$/;
+
+export const DEFAULT_TOPIC = "ai";
+
+// Mirrors config/topics/ai.json; used only when that file is missing (see loadDefaultTopicProfile).
+export const DEFAULT_TOPIC_PROFILE: TopicProfile = {
+  name: "ai",
+  label: "AI/ML",
+  description: "AI/ML in iOS and mobile engineering, plus developer-focused AI tooling.",
+  instructions: [
+    "You are an expert iOS engineer helping triage blog posts for AI/mobile relevance.",
+    "Mark a post as relevant when EITHER of these is true:\n  1. It discusses iOS or mobile engineering that involves AI/ML (Core ML, on-device vision, model integrations, etc.).\n  2. It covers developer-focused AI topics (LLMs, Claude, GPT, AI tooling, workshops, prompt building, etc.) even if the post is not explicitly about iOS—as long as AI is a primary theme.",
+    "Err on the side of inclusion whenever the summary clearly mentions AI/ML technologies, models, or tooling.",
+  ],
+  rules: ["If AI terms appear, mark relevant unless the post is definitely unrelated to development."],
+  confirmation: {
+    minScore: 1,
+    rules: [
+      { pattern: "ai" },
+      { pattern: "artificial intelligence" },
+      { pattern: "machine learning" },
+      { pattern: "llm" },
+      { pattern: "gpt" },
+      { pattern: "claude" },
+      { pattern: "llama" },
+      { pattern: "core ml" },
+      { pattern: "transformer" },
+      { pattern: "diffusion" },
+      { pattern: "langchain" },
+      { pattern: "openai" },
+      { pattern: "anthropic" },
+      { pattern: "stable diffusion" },
+      // A bare "ML" is weak evidence: it must appear in both the post and the model's answer.
+      { id: "ml-in-post", pattern: "ml", fields: ["title", "body"], weight: 0.5 },
+      { id: "ml-in-model-output", pattern: "ml", fields: ["reason", "tags"], weight: 0.5 },
+    ],
+  },
+  exclusions: [],
+  allowedTags: [],
+};
+
+let cachedValidator: { schemaPath: string; validate: ValidateFunction<TopicProfile> } | undefined;
+
+export interface LoadTopicProfileOptions {
+  directory?: string;
+  schemaPath?: string;
+}
+
+export async function loadTopicProfile(name: string, options: LoadTopicProfileOptions = {}): Promise<TopicProfile> {
+  const { directory = defaultTopicsDirectory, schemaPath = defaultSchemaPath } = options;
+  const normalizedName = name.trim().toLowerCase();
+
+  if (!TOPIC_NAME_PATTERN.test(normalizedName)) {
+    throw new TopicProfileError(`Invalid topic name: ${name}`, "not-found");
+  }
+
+  const filePath = path.join(directory, `${normalizedName}.json`);
+  let rawContents: string;
+  try {
+    rawContents = await readFile(filePath, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+      throw new TopicProfileError(`Unknown topic "${normalizedName}" (no profile at ${filePath})`, "not-found", {
+        cause: error,
+      });
+    }
+    throw new TopicProfileError(`Unable to read topic profile at ${filePath}`, "read-error", { cause: error });
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawContents) as unknown;
+  } catch (error) {
+    throw new TopicProfileError(`Unable to parse topic profile at ${filePath}`, "parse-error", { cause: error });
+  }
+
+  const validator = getValidator(schemaPath);
+  if (!validator(parsed)) {
+    const message = validator.errors?.map((err) => `${err.instancePath || "/"} ${err.message ?? "is invalid"}`).join("; ") ||
+      "Topic profile failed schema validation";
+    throw new TopicProfileError(`${filePath}: ${message}`, "validation-error");
+  }
+
+  const profile = parsed as TopicProfile;
+  if (profile.name !== normalizedName) {
+    throw new TopicProfileError(
+      `${filePath}: profile name "${profile.name}" does not match its file name`,
+      "validation-error",
+    );
+  }
+
+  try {
+    createTopicRules(profile);
+  } catch (error) {
+    if (error instanceof KeywordRuleError) {
+      throw new TopicProfileError(`${filePath}: ${error.message}`, "validation-error", { cause: error });
+    }
+    throw error;
+  }
+
+  return profile;
+}
+
+// The profile used without --topic: config/topics/ai.json, so edits to it take effect, or the built-in copy when the
+// file is missing. A file that exists but is invalid is still reported.
+export async function loadDefaultTopicProfile(options: LoadTopicProfileOptions = {}): Promise<TopicProfile> {
+  try {
+    return await loadTopicProfile(DEFAULT_TOPIC, options);
+  } catch (error) {
+    if (error instanceof TopicProfileError && error.kind === "not-found") {
+      return DEFAULT_TOPIC_PROFILE;
+    }
+    throw error;
+  }
+}
+
+export function createTopicRules(profile: TopicProfile): CompiledRuleSet {
+  if (!profile.confirmation) {
+    return compileRuleSet(createKeywordRuleSet(profile.keywords ?? [], profile.exclusions));
+  }
+
+  const exclusions = createKeywordRuleSet([], profile.exclusions).rules;
+  return compileRuleSet({ ...profile.confirmation, rules: [...profile.confirmation.rules, ...exclusions] });
+}
+
+function getValidator(schemaPath: string): ValidateFunction<TopicProfile> {
+  if (cachedValidator?.schemaPath === schemaPath) {
+    return cachedValidator.validate;
+  }
+
+  const schema = JSON.parse(readFileSync(schemaPath, "utf8")) as Parameters<Ajv["compile"]>[0];
+  const validate = new Ajv({ allErrors: true, strict: false }).compile<TopicProfile>(schema);
+  cachedValidator = { schemaPath, validate };
+  return validate;
+}
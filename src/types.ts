@@ -31,6 +31,7 @@ export type BlogsDirectory = BlogLanguageGroup[];
 export interface FeedItem {
 	title: string;
 	link: string;
+	guid?: string;
 	description?: string;
 	content?: string;
 	publishedAt?: string;
@@ -40,10 +41,51 @@ export interface ParsedFeed {
 	title?: string;
 	description?: string;
 	items: FeedItem[];
+	fetchInfo?: FeedFetchInfo;
+}
+
+export type FeedCacheStatus = "hit" | "revalidated" | "downloaded";
+
+export interface FeedFetchInfo {
+	cacheStatus?: FeedCacheStatus;
+	// Set when the configured feed URL failed and this working feed was found on the site instead.
+	discoveredUrl?: string;
+	// Final URL when the feed URL answered only with permanent (301/308) redirects.
+	permanentRedirect?: string;
+	// Character encoding the body was decoded with.
+	encoding?: string;
+}
+
+export interface FeedCacheEntry {
+	etag?: string;
+	lastModified?: string;
+	// Charset the feed body was transcoded from, reported again on cache hits.
+	encoding?: string;
+	feed: ParsedFeed;
+	fetchedAt: string;
+}
+
+export interface FeedCacheStore {
+	get(url: string): FeedCacheEntry | undefined;
+	isFresh(entry: FeedCacheEntry): boolean;
+	store(url: string, entry: Omit<FeedCacheEntry, "fetchedAt">): void;
+	touch(url: string): void;
+}
+
+export interface HostRequestLimiter {
+	schedule<T>(url: string, task: () => Promise<T>): Promise<T>;
+	defer(url: string, delayMs: number): void;
 }
 
 export interface FetchFeedOptions {
 	timeoutMs?: number;
 	userAgent?: string;
 	fetcher?: typeof fetch;
+	cache?: FeedCacheStore;
+	// Search the site for a working feed when the feed URL fails with an HTTP error or does not parse (e.g. serves HTML).
+	autodiscover?: boolean;
+	// Page to search during autodiscovery; defaults to the feed URL's origin.
+	siteUrl?: string;
+	// Paces requests per host; without it requests start immediately and Retry-After is awaited inline.
+	hostLimiter?: HostRequestLimiter;
 }
@@ -44,7 +44,46 @@ export async function asyncPool<T, R>(
   return results;
 }
 
-function throwIfAborted(signal?: AbortSignal): void {
+export type TaskLimiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+// Runs at most `concurrency` tasks at once, starting queued tasks in the order they were submitted. Once the signal
+// aborts, queued tasks reject instead of starting; tasks already running are left to finish.
+export function createLimiter(options: AsyncPoolOptions): TaskLimiter {
+  const { concurrency, signal } = options;
+
+  if (!Number.isInteger(concurrency) || concurrency <= 0) {
+    throw new RangeError("concurrency must be a positive integer");
+  }
+
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  // A finishing task hands its slot straight to the next queued one, so `active` never overshoots.
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active -= 1;
+    }
+  };
+
+  return async (task) => {
+    if (active < concurrency) {
+      active += 1;
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+
+    try {
+      throwIfAborted(signal);
+      return await task();
+    } finally {
+      release();
+    }
+  };
+}
+
+export function throwIfAborted(signal?: AbortSignal): void {
   if (!signal) {
     return;
   }
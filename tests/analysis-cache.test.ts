@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import * as fs from "node:fs/promises";
+import { AnalysisCache, hashContent } from "../src/analysis-cache.js";
+
+const baseKey = {
+  link: "https://example.com/post",
+  contentHash: hashContent("AI in iOS"),
+  model: "llama3.1",
+  promptVersion: "v1",
+};
+
+describe("AnalysisCache", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-analysis-cache-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("returns stored results only when every key matches", () => {
+    const cache = new AnalysisCache(path.join(tempDir, "analysis-cache.json"));
+    cache.store(baseKey, { relevant: true, rawResponse: "{}", reason: "AI" });
+
+    expect(cache.lookup(baseKey)).toMatchObject({ relevant: true, reason: "AI" });
+    expect(cache.lookup({ ...baseKey, contentHash: hashContent("edited") })).toBeUndefined();
+    expect(cache.lookup({ ...baseKey, model: "qwq" })).toBeUndefined();
+    expect(cache.lookup({ ...baseKey, promptVersion: "v2" })).toBeUndefined();
+  });
+
+  it("persists entries and prunes old ones", async () => {
+    const filePath = path.join(tempDir, "analysis-cache.json");
+    let currentTime = Date.parse("2025-11-01T00:00:00.000Z");
+    const cache = await AnalysisCache.load(filePath, { clock: () => currentTime });
+    cache.store(baseKey, { relevant: false, rawResponse: "{}" });
+    currentTime = Date.parse("2025-12-01T00:00:00.000Z");
+    cache.store({ ...baseKey, link: "https://example.com/new" }, { relevant: true, rawResponse: "{}" });
+    await cache.save();
+
+    const reloaded = await AnalysisCache.load(filePath, { clock: () => currentTime });
+    expect(reloaded.size).toBe(2);
+    expect(reloaded.prune(7 * 24 * 60 * 60 * 1000)).toBe(1);
+    expect(reloaded.lookup(baseKey)).toBeUndefined();
+    expect(reloaded.lookup({ ...baseKey, link: "https://example.com/new" })).toMatchObject({ relevant: true });
+  });
+});
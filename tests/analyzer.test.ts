@@ -1,7 +1,14 @@
 import { describe, expect, it, vi } from "vitest";
+import os from "node:os";
+import path from "node:path";
 import { analyzeFeeds, type FeedAnalysisResult } from "../src/analyzer.js";
 import type { AnalysisResult } from "../src/ollama-client.js";
 import type { ParsedFeed } from "../src/types.js";
+import { AnalysisCache } from "../src/analysis-cache.js";
+import { HostLimiter } from "../src/host-limiter.js";
+import { ArticleCache } from "../src/article-cache.js";
+import { FirstSeenLedger } from "../src/first-seen-ledger.js";
+import { EnsembleClient } from "../src/ensemble.js";
 
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
@@ -39,7 +46,7 @@ describe("analyzeFeeds", () => {
       analysisClient: { analyze: vi.fn().mockResolvedValue(makeAnalysis()) },
     };
 
-    const results = await analyzeFeeds(feeds, { parallel: 2, dependencies });
+    const results = await analyzeFeeds(feeds, { fetchParallel: 2, dependencies });
 
     expect(maxActive).toBeLessThanOrEqual(2);
     expect(results.map((item) => item.feedUrl)).toEqual(feeds);
@@ -64,7 +71,7 @@ describe("analyzeFeeds", () => {
     };
 
     const results = await analyzeFeeds(feeds, {
-      parallel: 2,
+      fetchParallel: 2,
       dependencies,
       onProgress(update) {
         progress.push({
@@ -93,23 +100,122 @@ describe("analyzeFeeds", () => {
   });
 
   it("rejects invalid parallel values", async () => {
-    await expect(analyzeFeeds(["feed"], { parallel: 0 })).rejects.toThrow(RangeError);
+    await expect(analyzeFeeds(["feed"], { fetchParallel: 0 })).rejects.toThrow(RangeError);
+    await expect(analyzeFeeds(["feed"], { llmParallel: 1.5 })).rejects.toThrow(/llmParallel must be a positive integer/);
   });
 
-  it("honours abort signals", async () => {
+  it("fetches the next feed while earlier posts wait in the shared model queue", async () => {
+    const events: string[] = [];
+    const publishedAt = "2025-11-01T00:00:00.000Z";
+    const fetchFeed = vi.fn(async (feedUrl: string): Promise<ParsedFeed> => {
+      events.push(`fetch ${feedUrl}`);
+      return {
+        title: feedUrl,
+        items: [1, 2, 3].map((index) => ({
+          title: `${feedUrl} post ${index}`,
+          link: `https://${feedUrl}.example.com/${index}`,
+          description: "Swift",
+          publishedAt,
+        })),
+      };
+    });
+    let active = 0;
+    let maxActive = 0;
+    const analyze = vi.fn(async (text: string) => {
+      events.push(`analyze ${text.split("\n")[0]}`);
+      active += 1;
+      maxActive = Math.max(maxActive, active);
+      await delay(5);
+      active -= 1;
+      return makeAnalysis();
+    });
+    const postUpdates: Array<[number, number]> = [];
+    const feedUpdates: Array<{ feedUrl: string; analyzed: number; queued: number }> = [];
+
+    const results = await analyzeFeeds(["a", "b"], {
+      fetchParallel: 1,
+      llmParallel: 2,
+      dependencies: { fetchFeed, analysisClient: { analyze } },
+      clock: () => Date.parse("2025-12-05T00:00:00.000Z"),
+      onPostProgress: (update) => postUpdates.push([update.analyzed, update.queued]),
+      onProgress: (update) => feedUpdates.push({ feedUrl: update.feedUrl, ...update.posts }),
+    });
+
+    expect(maxActive).toBe(2);
+    expect(analyze).toHaveBeenCalledTimes(6);
+    // Feed b is fetched before feed a's posts are through the queue, and its posts queue behind them.
+    expect(events.indexOf("fetch b")).toBeLessThan(events.indexOf("analyze a post 3"));
+    expect(events.filter((event) => event.startsWith("analyze"))).toEqual([
+      "analyze a post 1",
+      "analyze a post 2",
+      "analyze a post 3",
+      "analyze b post 1",
+      "analyze b post 2",
+      "analyze b post 3",
+    ]);
+    expect(postUpdates.map(([analyzed]) => analyzed)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(postUpdates.at(-1)).toEqual([6, 6]);
+    expect(feedUpdates).toEqual([
+      { feedUrl: "a", analyzed: 3, queued: 6 },
+      { feedUrl: "b", analyzed: 6, queued: 6 },
+    ]);
+    expect(results.map((result) => result.analyzedItems)).toEqual([3, 3]);
+  });
+
+  it("honours abort signals by skipping feeds that have not started", async () => {
     const controller = new AbortController();
-    const dependencies = {
-      fetchFeed: async () => {
-        await delay(5);
-        return makeFeed("feed");
-      },
-      analysisClient: { analyze: vi.fn().mockResolvedValue(makeAnalysis()) },
-    };
+    const fetchFeed = vi.fn(async () => {
+      await delay(5);
+      return makeFeed("feed");
+    });
+    const dependencies = { fetchFeed, analysisClient: { analyze: vi.fn().mockResolvedValue(makeAnalysis()) } };
 
-    const promise = analyzeFeeds(["feed-1", "feed-2"], { parallel: 1, dependencies, signal: controller.signal });
+    const promise = analyzeFeeds(["feed-1", "feed-2"], { fetchParallel: 1, dependencies, signal: controller.signal });
     controller.abort(new Error("stop"));
+    const results = await promise;
+
+    expect(fetchFeed).toHaveBeenCalledTimes(1);
+    expect(results.map((result) => [result.feedUrl, result.status])).toEqual([
+      ["feed-1", "fulfilled"],
+      ["feed-2", "skipped"],
+    ]);
+  });
+
+  it("lets analyses in flight finish after a stop and returns the partial results", async () => {
+    const controller = new AbortController();
+    const publishedAt = "2025-11-01T00:00:00.000Z";
+    const fetchFeed = vi.fn(async (feedUrl: string): Promise<ParsedFeed> => ({
+      title: feedUrl,
+      items: [1, 2, 3].map((index) => ({
+        title: `AI post ${index}`,
+        link: `https://${feedUrl}.example.com/${index}`,
+        description: "Core ML on device",
+        publishedAt,
+      })),
+    }));
+    const analyze = vi.fn(async () => {
+      // The first request is in flight when the run is stopped.
+      controller.abort(new Error("SIGINT"));
+      await delay(5);
+      return makeAnalysis({ relevant: true, reason: "Core ML" });
+    });
+    const progress: string[] = [];
+
+    const results = await analyzeFeeds(["a", "b"], {
+      fetchParallel: 1,
+      llmParallel: 1,
+      dependencies: { fetchFeed, analysisClient: { analyze } },
+      clock: () => Date.parse("2025-12-05T00:00:00.000Z"),
+      signal: controller.signal,
+      onProgress: (update) => progress.push(`${update.feedUrl} ${update.status} ${update.posts.analyzed}/${update.posts.queued}`),
+    });
 
-    await expect(promise).rejects.toThrow(/stop/);
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(results[0]).toMatchObject({ status: "fulfilled", analyzedItems: 1, unanalyzedPosts: 2 });
+    expect(results[0].relevantPosts?.map((post) => post.title)).toEqual(["AI post 1"]);
+    expect(results[1]).toEqual({ feedUrl: "b", status: "skipped" });
+    expect(fetchFeed).toHaveBeenCalledTimes(1);
+    expect(progress).toEqual(["a fulfilled 1/3"]);
   });
 
   it("caches fetched feeds to avoid duplicate network work", async () => {
@@ -138,7 +244,120 @@ describe("analyzeFeeds", () => {
 
     expect(results).toHaveLength(2);
     expect(fetchFeed).toHaveBeenCalledTimes(1);
-    expect(analysisClient.analyze).toHaveBeenCalledTimes(2);
+    expect(analysisClient.analyze).toHaveBeenCalledTimes(1);
+    expect(results[1].duplicatePosts).toBe(1);
+  });
+
+  it("analyzes a post carried by several feeds once and lists every feed", async () => {
+    const messages: string[] = [];
+    const publishedAt = "2025-11-01T00:00:00.000Z";
+    const feeds: Record<string, ParsedFeed> = {
+      "https://dev.example.com/feed": {
+        title: "Personal blog",
+        items: [{ title: "Core ML tips", link: "https://dev.example.com/core-ml-tips/", description: "Core ML", publishedAt }],
+      },
+      "https://company.example.org/feed": {
+        title: "Company blog",
+        items: [
+          {
+            title: "Core ML tips",
+            link: "http://www.Dev.example.com/core-ml-tips?utm_source=company&utm_medium=rss#comments",
+            description: "Core ML",
+            publishedAt,
+          },
+        ],
+      },
+      "https://medium.com/feed/@dev": {
+        title: "Medium",
+        items: [{ title: "Core ML tips", link: "https://medium.com/@dev/core-ml-tips-1a2b?source=rss-1a2b------2", description: "Core ML", publishedAt }],
+      },
+    };
+    const fetchPage = vi.fn(async () => '<html><head><link href="https://dev.example.com/core-ml-tips/" rel="canonical"></head></html>');
+    const analyze = vi.fn().mockResolvedValue(makeAnalysis({ relevant: true, reason: "Core ML", tags: ["coreml"] }));
+
+    const results = await analyzeFeeds(Object.keys(feeds), {
+      fetchParallel: 1,
+      dependencies: { fetchFeed: async (feedUrl: string) => feeds[feedUrl], fetchPage, analysisClient: { analyze } },
+      clock: () => Date.parse("2025-12-05T00:00:00.000Z"),
+      fullArticles: { minChars: 100 },
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(results[0].relevantPosts?.[0]).toMatchObject({
+      canonicalUrl: "https://dev.example.com/core-ml-tips",
+      feeds: Object.keys(feeds),
+    });
+    expect(results.map((result) => result.duplicatePosts)).toEqual([undefined, 1, 1]);
+    expect(results[1].relevantPosts).toBeUndefined();
+    expect(messages).toContain('Skipping "Core ML tips" – already analyzed from https://dev.example.com/feed.');
+    expect(messages).toContain(
+      'Skipping "Core ML tips" – its canonical URL https://dev.example.com/core-ml-tips was already analyzed from https://dev.example.com/feed.',
+    );
+  });
+
+  it("does not let a copy that never reaches the model hide the post in other feeds", async () => {
+    const publishedAt = "2025-11-01T00:00:00.000Z";
+    const link = "https://dev.example.com/core-ml-tips";
+    const feeds: Record<string, ParsedFeed> = {
+      "https://empty.example/feed": { title: "Empty", items: [{ title: "Core ML tips", link, description: " ", publishedAt }] },
+      "https://failing.example/feed": { title: "Failing", items: [{ title: "Core ML tips", link, description: "fails", publishedAt }] },
+      "https://dev.example.com/feed": { title: "Personal blog", items: [{ title: "Core ML tips", link, description: "Core ML", publishedAt }] },
+    };
+    const analyze = vi.fn(async (text: string) => {
+      if (text.includes("fails")) {
+        throw new Error("model crashed");
+      }
+      return makeAnalysis({ relevant: true, reason: "Core ML", tags: ["coreml"] });
+    });
+
+    const results = await analyzeFeeds(Object.keys(feeds), {
+      fetchParallel: 1,
+      dependencies: { fetchFeed: async (feedUrl: string) => feeds[feedUrl], analysisClient: { analyze } },
+      clock: () => Date.parse("2025-12-05T00:00:00.000Z"),
+    });
+
+    expect(results.map((result) => result.status)).toEqual(["fulfilled", "fulfilled", "fulfilled"]);
+    expect(results[1].failedPosts).toBe(1);
+    expect(analyze).toHaveBeenCalledTimes(2);
+    expect(results[2].duplicatePosts).toBeUndefined();
+    expect(results[2].relevantPosts?.[0]).toMatchObject({ link, feeds: ["https://dev.example.com/feed"] });
+  });
+
+  it("keeps a feed's other posts, and their claims, when one post's analysis throws", async () => {
+    const messages: string[] = [];
+    const publishedAt = "2025-11-01T00:00:00.000Z";
+    const feeds: Record<string, ParsedFeed> = {
+      "https://first.example/feed": {
+        title: "First",
+        items: [
+          { title: "Core ML tips", link: "https://dev.example.com/core-ml", description: "Core ML", publishedAt },
+          { title: "Broken reply", link: "https://dev.example.com/broken", description: "unparseable", publishedAt },
+        ],
+      },
+      "https://second.example/feed": {
+        title: "Second",
+        items: [{ title: "Core ML tips", link: "https://dev.example.com/core-ml", description: "Core ML", publishedAt }],
+      },
+    };
+    const analyze = vi.fn(async (text: string) => {
+      if (text.includes("unparseable")) {
+        throw new Error("Model reply was not valid JSON");
+      }
+      return makeAnalysis({ relevant: true, reason: "Core ML", tags: ["coreml"] });
+    });
+
+    const results = await analyzeFeeds(Object.keys(feeds), {
+      fetchParallel: 1,
+      dependencies: { fetchFeed: async (feedUrl: string) => feeds[feedUrl], analysisClient: { analyze } },
+      clock: () => Date.parse("2025-12-05T00:00:00.000Z"),
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(results[0]).toMatchObject({ status: "fulfilled", analyzedItems: 1, failedPosts: 1 });
+    expect(results[0].relevantPosts?.map((post) => post.title)).toEqual(["Core ML tips"]);
+    expect(results[1].duplicatePosts).toBe(1);
+    expect(messages).toContain('Could not analyze "Broken reply" (Model reply was not valid JSON).');
   });
 
   it("emits verbose logs for month filtering and analyzed posts", async () => {
@@ -182,6 +401,31 @@ describe("analyzeFeeds", () => {
     expect(messages.some((message) => message.includes("Fresh without description"))).toBe(false);
     expect(analysisClient.analyze).toHaveBeenCalledTimes(1);
   });
+
+  it("keeps only posts inside an explicit window, excluding its end", async () => {
+    const post = (title: string, publishedAt: string) => ({ title, link: `https://example.com/${title}`, description: "AI", publishedAt });
+    const fetchFeed = vi.fn(async () => ({
+      title: "Window Feed",
+      items: [
+        post("before", "2025-06-01T21:59:59.000Z"),
+        post("monday", "2025-06-01T22:00:00.000Z"),
+        post("sunday", "2025-06-08T21:59:59.000Z"),
+        post("after", "2025-06-08T22:00:00.000Z"),
+      ],
+    }));
+    const analysisClient = { analyze: vi.fn().mockResolvedValue(makeAnalysis()) };
+    const messages: string[] = [];
+
+    await analyzeFeeds(["https://example.com/feed"], {
+      dependencies: { fetchFeed, analysisClient },
+      months: 1,
+      window: { since: new Date("2025-06-01T22:00:00.000Z"), until: new Date("2025-06-08T22:00:00.000Z") },
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(analysisClient.analyze.mock.calls.map(([text]) => String(text).split("\n")[0])).toEqual(["monday", "sunday"]);
+    expect(messages[0]).toBe("Found 2 posts published between 2025-06-01T22:00:00.000Z and 2025-06-08T22:00:00.000Z.");
+  });
 });
 
 function summarize(results: FeedAnalysisResult[]): { fulfilled: FeedAnalysisResult[]; rejected: FeedAnalysisResult[] } {
@@ -269,7 +513,7 @@ describe("feed item analysis", () => {
           {
             title: "Deep dive on LLMs",
             link: "https://example.com/llm",
-            content: "<div>Everything about LLMs for iOS inference.</div>",
+            content: "<div>Everything about running an LLM for iOS inference.</div>",
             publishedAt: "2025-11-15T00:00:00.000Z",
           },
         ],
@@ -287,4 +531,392 @@ describe("feed item analysis", () => {
     expect(result.relevantPosts ?? []).toHaveLength(1);
     expect(result.relevantPosts?.[0].title).toBe("Deep dive on LLMs");
   });
+
+  it("reuses cached analyses and only re-analyzes edited posts", async () => {
+    const cache = new AnalysisCache("unused.json");
+    let description = "AI in iOS";
+    const analyzeMock = vi.fn().mockResolvedValue(makeAnalysis({ relevant: true, reason: "AI content" }));
+    const analysisClient = { model: "llama3.1", promptVersion: "v1", analyze: analyzeMock };
+    const fetchFeed = async () => ({
+      title: "Example",
+      items: [
+        {
+          title: "Cached post",
+          link: "https://example.com/cached",
+          description,
+          publishedAt: "2025-11-01T00:00:00.000Z",
+        },
+      ],
+    });
+    const run = () =>
+      analyzeFeeds(["https://example.com/feed"], {
+        dependencies: { fetchFeed, analysisClient },
+        analysisCache: cache,
+        months: 3,
+        clock: () => referenceNow,
+      });
+
+    const [first] = await run();
+    const [second] = await run();
+    description = "AI in iOS, now with an update";
+    const [third] = await run();
+
+    expect(analyzeMock).toHaveBeenCalledTimes(2);
+    expect(first.cachedAnalyses).toBe(0);
+    expect(second.cachedAnalyses).toBe(1);
+    expect(second.relevantPosts?.[0].analysis.reason).toBe("AI content");
+    expect(third.cachedAnalyses).toBe(0);
+  });
+
+  it("does not cache degraded fallback analyses", async () => {
+    const cache = new AnalysisCache("unused.json");
+    const analyzeMock = vi.fn().mockResolvedValue(makeAnalysis({ confidence: 0, rawResponse: "", degraded: true }));
+    const dependencies = {
+      fetchFeed: async () => ({
+        items: [{ title: "Post", link: "https://example.com/p", description: "AI", publishedAt: "2025-11-01T00:00:00.000Z" }],
+      }),
+      analysisClient: { analyze: analyzeMock },
+    };
+
+    await analyzeFeeds(["https://example.com/feed"], { dependencies, analysisCache: cache, clock: () => referenceNow });
+    await analyzeFeeds(["https://example.com/feed"], { dependencies, analysisCache: cache, clock: () => referenceNow });
+
+    expect(analyzeMock).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it("does not cache ensemble decisions taken while a member was degraded", async () => {
+    const cache = new AnalysisCache("unused.json");
+    const member = (model: string, result: AnalysisResult) => {
+      const analyze = vi.fn().mockResolvedValue(result);
+      return { model, analyze, client: { model, promptVersion: "v1", analyze, checkConnection: vi.fn().mockResolvedValue(true) } };
+    };
+    const healthy = member("llama3.1", makeAnalysis({ relevant: true, confidence: 0.9, reason: "Core ML" }));
+    const down = member("qwq", makeAnalysis({ confidence: 0, rawResponse: "", degraded: true }));
+    const analysisClient = new EnsembleClient([healthy, down], { vote: "unanimous" });
+    const dependencies = {
+      fetchFeed: async () => ({
+        items: [{ title: "Post", link: "https://example.com/p", description: "AI", publishedAt: "2025-11-01T00:00:00.000Z" }],
+      }),
+      analysisClient,
+    };
+
+    const [result] = await analyzeFeeds(["https://example.com/feed"], { dependencies, analysisCache: cache, clock: () => referenceNow });
+    await analyzeFeeds(["https://example.com/feed"], { dependencies, analysisCache: cache, clock: () => referenceNow });
+
+    expect(result.relevantPosts?.[0].analysis.partial).toBe(true);
+    expect(healthy.analyze).toHaveBeenCalledTimes(2);
+    expect(cache.size).toBe(0);
+  });
+
+  it("counts schema violations reported by the client", async () => {
+    const analyzeMock = vi
+      .fn()
+      .mockResolvedValueOnce(makeAnalysis({ schemaViolation: true }))
+      .mockResolvedValueOnce(makeAnalysis({ schemaViolation: false }));
+    const dependencies = {
+      fetchFeed: async () => ({
+        items: [
+          { title: "One", link: "https://example.com/1", description: "AI", publishedAt: "2025-11-01T00:00:00.000Z" },
+          { title: "Two", link: "https://example.com/2", description: "ML", publishedAt: "2025-11-02T00:00:00.000Z" },
+        ],
+      }),
+      analysisClient: { analyze: analyzeMock },
+    };
+
+    const [result] = await analyzeFeeds(["https://example.com/feed"], { dependencies, clock: () => referenceNow });
+
+    expect(result.schemaViolations).toBe(1);
+  });
+
+  it("applies the topic profile keywords and exclusions", async () => {
+    const messages: string[] = [];
+    const dependencies = {
+      fetchFeed: async () => ({
+        items: [
+          { title: "Faster lists", link: "https://example.com/1", description: "SwiftUI List hitches", publishedAt: "2025-11-01T00:00:00.000Z" },
+          { title: "Sponsored", link: "https://example.com/2", description: "Sponsored: SwiftUI course", publishedAt: "2025-11-02T00:00:00.000Z" },
+          { title: "Core ML", link: "https://example.com/3", description: "Core ML models", publishedAt: "2025-11-03T00:00:00.000Z" },
+        ],
+      }),
+      analysisClient: { analyze: vi.fn().mockResolvedValue(makeAnalysis({ relevant: true, reason: "", tags: [] })) },
+    };
+
+    const [result] = await analyzeFeeds(["https://example.com/feed"], {
+      dependencies,
+      clock: () => referenceNow,
+      topics: [
+        {
+          name: "swiftui-performance",
+          label: "SwiftUI performance",
+          instructions: ["Triage SwiftUI performance posts."],
+          rules: [],
+          keywords: ["swiftui"],
+          exclusions: ["sponsored"],
+        },
+      ],
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(result.relevantPosts?.map((post) => post.title)).toEqual(["Faster lists"]);
+    expect(messages).toContain('Skipping "Sponsored" – matches SwiftUI performance exclusion "sponsored".');
+    expect(messages).toContain('Skipping "Core ML" – marked relevant but no SwiftUI performance signals detected.');
+  });
+
+  it("confirms each topic separately from a multi-topic decision", async () => {
+    const topic = (name: string, keywords: string[]) => ({ name, label: name, instructions: ["Triage."], rules: [], keywords });
+    const analysis = makeAnalysis({
+      relevant: true,
+      topics: {
+        ai: { relevant: true, confidence: 0.9 },
+        accessibility: { relevant: true, confidence: 0.7 },
+        visionos: { relevant: false, confidence: 0.1 },
+      },
+    });
+    const dependencies = {
+      fetchFeed: async () => ({
+        items: [{ title: "VoiceOver for ML apps", link: "https://example.com/1", description: "Core ML and VoiceOver", publishedAt: "2025-11-01T00:00:00.000Z" }],
+      }),
+      analysisClient: { analyze: vi.fn().mockResolvedValue(analysis) },
+    };
+
+    const [result] = await analyzeFeeds(["https://example.com/feed"], {
+      dependencies,
+      clock: () => referenceNow,
+      topics: [topic("ai", ["core ml"]), topic("accessibility", ["voiceover"]), topic("visionos", ["ml"])],
+    });
+
+    expect(result.relevantPosts?.[0].topics).toEqual(["ai", "accessibility"]);
+  });
+
+  it("records matched confirmation rules and keeps rejected posts", async () => {
+    const messages: string[] = [];
+    const dependencies = {
+      fetchFeed: async () => ({
+        items: [
+          { title: "Smooth scrolling", link: "https://example.com/1", description: "SwiftUI List hitches", publishedAt: "2025-11-01T00:00:00.000Z" },
+          { title: "Charts for dashboards", link: "https://example.com/2", description: "Plotting sales data", publishedAt: "2025-11-02T00:00:00.000Z" },
+        ],
+      }),
+      analysisClient: {
+        analyze: vi.fn().mockResolvedValue(makeAnalysis({ relevant: true, reason: "Performance tuning", tags: ["swiftui"] })),
+      },
+    };
+
+    const [result] = await analyzeFeeds(["https://example.com/feed"], {
+      dependencies,
+      clock: () => referenceNow,
+      topics: [
+        {
+          name: "swiftui-performance",
+          label: "SwiftUI performance",
+          instructions: ["Triage SwiftUI performance posts."],
+          rules: [],
+          confirmation: {
+            minScore: 2,
+            rules: [
+              { pattern: "swiftui", fields: ["title", "body"] },
+              { pattern: "hitches", fields: ["body"] },
+              { id: "model-tags", pattern: "swiftui", fields: ["tags"], weight: 0.5 },
+            ],
+          },
+        },
+      ],
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(result.relevantPosts?.[0].confirmation?.["swiftui-performance"]).toMatchObject({
+      confirmed: true,
+      score: 2.5,
+      matches: [
+        { rule: "swiftui", field: "body" },
+        { rule: "hitches", field: "body" },
+        { rule: "model-tags", field: "tags" },
+      ],
+    });
+    expect(result.rejectedPosts?.map((post) => post.title)).toEqual(["Charts for dashboards"]);
+    expect(result.rejectedPosts?.[0].topics).toEqual([]);
+    expect(messages).toContain('Skipping "Charts for dashboards" – scored 0.5 on SwiftUI performance rules (minimum 2).');
+  });
+
+  it("passes each feed's site URL to the fetcher and records discovered feeds", async () => {
+    const messages: string[] = [];
+    const fetchFeed = vi.fn(async () => ({
+      title: "Moved blog",
+      items: [],
+      fetchInfo: { cacheStatus: "downloaded" as const, discoveredUrl: "https://example.com/rss.xml" },
+    }));
+
+    const [result] = await analyzeFeeds(["https://example.com/old-feed"], {
+      dependencies: { fetchFeed, analysisClient: { analyze: vi.fn() } },
+      fetchOptions: { autodiscover: true },
+      siteUrls: new Map([["https://example.com/old-feed", "https://example.com"]]),
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(fetchFeed).toHaveBeenCalledWith("https://example.com/old-feed", {
+      autodiscover: true,
+      siteUrl: "https://example.com",
+      hostLimiter: expect.any(HostLimiter),
+    });
+    expect(result.discoveredUrl).toBe("https://example.com/rss.xml");
+    expect(messages).toContain("Feed URL failed; analyzing the feed discovered at https://example.com/rss.xml instead.");
+  });
+
+  it("analyzes the fetched article when the feed only carries a short summary", async () => {
+    const messages: string[] = [];
+    const publishedAt = new Date().toISOString();
+    const fetchFeed = vi.fn(async () => ({
+      title: "Summaries only",
+      items: [
+        { title: "On-device LLMs", link: "https://example.com/llms", description: "A short teaser.", publishedAt },
+        { title: "Broken page", link: "https://example.com/broken", description: "Another teaser.", publishedAt },
+        { title: "Long post", link: "https://example.com/long", content: "Core ML ".repeat(20), publishedAt },
+      ],
+    }));
+    const fetchPage = vi.fn(async (url: string) => {
+      if (url.endsWith("/broken")) {
+        throw new Error("Page responded with HTTP 500");
+      }
+      return "<article><p>Running a quantized language model with Core ML, entirely on device.</p></article>";
+    });
+    const analyze = vi.fn(async () => ({ relevant: false }));
+    const articleCache = new ArticleCache(path.join(os.tmpdir(), "unused-article-cache.json"));
+
+    const [result] = await analyzeFeeds(["https://example.com/feed"], {
+      dependencies: { fetchFeed, fetchPage, analysisClient: { analyze } },
+      fullArticles: { minChars: 100, cache: articleCache },
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+    expect(fetchPage).toHaveBeenCalledWith("https://example.com/llms", { hostLimiter: expect.any(HostLimiter) });
+    expect(analyze).toHaveBeenCalledWith(
+      "On-device LLMs\n\nRunning a quantized language model with Core ML, entirely on device.",
+      expect.anything(),
+    );
+    expect(analyze).toHaveBeenCalledWith("Broken page\n\nAnother teaser.", expect.anything());
+    expect(result.fullArticles).toBe(1);
+    expect(articleCache.get("https://example.com/llms")).toContain("quantized language model");
+    expect(messages).toContain('Could not fetch the full article for "Broken page" (Page responded with HTTP 500); using the feed text.');
+  });
+
+  it("keeps angle brackets and ampersands in fetched article text", async () => {
+    const publishedAt = new Date().toISOString();
+    const fetchFeed = vi.fn(async () => ({
+      title: "Summaries only",
+      items: [{ title: "Generics", link: "https://example.com/generics", description: "A short teaser.", publishedAt }],
+    }));
+    const fetchPage = vi.fn(
+      async () => "<article><p>Use Array&lt;Int&gt; when a &lt; b and c &gt; d, and write Q&amp;A notes about &amp;lt;T&amp;gt;.</p></article>",
+    );
+    const analyze = vi.fn(async () => ({ relevant: false }));
+
+    await analyzeFeeds(["https://example.com/feed"], {
+      dependencies: { fetchFeed, fetchPage, analysisClient: { analyze } },
+      fullArticles: { minChars: 100 },
+    });
+
+    expect(analyze).toHaveBeenCalledWith(
+      "Generics\n\nUse Array<Int> when a < b and c > d, and write Q&A notes about &lt;T&gt;.",
+      expect.anything(),
+    );
+  });
+
+  it("analyzes long posts in chunks and reduces the decisions", async () => {
+    const messages: string[] = [];
+    const publishedAt = new Date().toISOString();
+    const filler = "<p>This paragraph is about layout, spacing and navigation in SwiftUI apps.</p>".repeat(60);
+    const content = `${filler}<p>Finally, we run an on-device LLM with Core ML to summarize notes.</p>`;
+    const fetchFeed = vi.fn(async () => ({
+      title: "Long reads",
+      items: [{ title: "A long SwiftUI tour", link: "https://example.com/tour", content, publishedAt }],
+    }));
+    const analyze = vi.fn(async (text: string) =>
+      text.includes("on-device LLM")
+        ? makeAnalysis({ relevant: true, confidence: 0.9, reason: "On-device LLM with Core ML", tags: ["llm"] })
+        : makeAnalysis({ relevant: false, confidence: 0.95, reason: "SwiftUI layout", tags: ["swiftui"] }),
+    );
+
+    const [result] = await analyzeFeeds(["https://example.com/feed"], {
+      dependencies: { fetchFeed, analysisClient: { analyze } },
+      maxChunks: 3,
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(analyze).toHaveBeenCalledTimes(2);
+    for (const [prompt] of analyze.mock.calls) {
+      expect(prompt.startsWith("A long SwiftUI tour\n\n")).toBe(true);
+      expect(prompt.length).toBeLessThanOrEqual(3000);
+    }
+    expect(result.chunkedAnalyses).toBe(1);
+    expect(result.relevantPosts?.[0].analysis).toMatchObject({
+      relevant: true,
+      confidence: 0.9,
+      reason: "On-device LLM with Core ML",
+      tags: ["llm"],
+      chunks: { count: 2, relevant: 1 },
+    });
+    expect(messages).toContain('Analyzed "A long SwiftUI tour" in 2 chunks; 1 marked relevant.');
+  });
+
+  it("dates undated posts from their URL or first sighting and counts the rest", async () => {
+    const messages: string[] = [];
+    const now = Date.parse("2025-12-05T00:00:00.000Z");
+    const firstSeen = new FirstSeenLedger(path.join(os.tmpdir(), "unused-first-seen.json"), { clock: () => now });
+    const fetchFeed = async () => ({
+      title: "Odd dates",
+      items: [
+        { title: "Dotted date", link: "https://example.com/dotted", description: "AI on iOS", publishedAt: "01.12.2025" },
+        { title: "Dated URL", link: "https://example.com/2025/11/20/ai", description: "AI on iOS", publishedAt: "soon" },
+        { title: "Old URL", link: "https://example.com/2024/01/02/ai", description: "AI on iOS" },
+        { title: "No date", link: "https://example.com/undated", description: "AI on iOS" },
+      ],
+    });
+    const analyze = vi.fn(async () => makeAnalysis({ relevant: true, reason: "AI content" }));
+
+    const [withLedger] = await analyzeFeeds(["https://example.com/feed"], {
+      dependencies: { fetchFeed, analysisClient: { analyze } },
+      clock: () => now,
+      firstSeen,
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(withLedger.relevantPosts?.map((post) => [post.title, post.publishedAt, post.publishedAtSource])).toEqual([
+      ["Dotted date", "01.12.2025", undefined],
+      ["Dated URL", "2025-11-20T00:00:00.000Z", "url"],
+      ["No date", "2025-12-05T00:00:00.000Z", "first-seen"],
+    ]);
+    expect(withLedger.undatedItems).toBeUndefined();
+    expect(messages).toContain('No usable date in the feed for "Dated URL"; dated 2025-11-20T00:00:00.000Z from its URL.');
+
+    const [withoutLedger] = await analyzeFeeds(["https://example.com/feed"], {
+      dependencies: { fetchFeed, analysisClient: { analyze } },
+      clock: () => now,
+      onVerboseMessage: (entry) => messages.push(entry.message),
+    });
+
+    expect(withoutLedger.relevantPosts).toHaveLength(2);
+    expect(withoutLedger.undatedItems).toBe(1);
+    expect(messages).toContain("Skipped 1 post without a publish date.");
+  });
+
+  it("truncates long posts to one prompt when chunking is capped at one", async () => {
+    const publishedAt = new Date().toISOString();
+    const content = `${"<p>Layout and spacing in SwiftUI.</p>".repeat(120)}<p>An on-device LLM section.</p>`;
+    const analyze = vi.fn(async () => makeAnalysis());
+
+    const [result] = await analyzeFeeds(["https://example.com/feed"], {
+      dependencies: {
+        fetchFeed: async () => ({ title: "Long reads", items: [{ title: "Tour", link: "https://example.com/tour", content, publishedAt }] }),
+        analysisClient: { analyze },
+      },
+      maxChunks: 1,
+    });
+
+    expect(analyze).toHaveBeenCalledTimes(1);
+    expect(analyze.mock.calls[0][0]).toHaveLength(3000);
+    expect(analyze.mock.calls[0][0]).not.toContain("on-device LLM");
+    expect(result.chunkedAnalyses).toBeUndefined();
+  });
 });
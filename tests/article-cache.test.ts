@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import * as fs from "node:fs/promises";
+import { ArticleCache } from "../src/article-cache.js";
+
+describe("ArticleCache", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-articles-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("persists article text by link and prunes old entries", async () => {
+    const filePath = path.join(tempDir, "article-cache.json");
+    let currentTime = Date.parse("2025-11-01T00:00:00.000Z");
+    const cache = await ArticleCache.load(filePath, { clock: () => currentTime });
+    cache.store("https://example.com/old", "Old article");
+    currentTime = Date.parse("2025-11-20T00:00:00.000Z");
+    cache.store("https://example.com/new", "New article");
+    await cache.save();
+
+    const reloaded = await ArticleCache.load(filePath, { clock: () => currentTime });
+    expect(reloaded.get("https://example.com/new")).toBe("New article");
+    expect(reloaded.prune(10 * 24 * 60 * 60 * 1000)).toBe(1);
+    expect(reloaded.get("https://example.com/old")).toBeUndefined();
+    expect(reloaded.size).toBe(1);
+  });
+
+  it("keeps the canonical URL declared by the fetched page", async () => {
+    const filePath = path.join(tempDir, "article-cache.json");
+    const cache = await ArticleCache.load(filePath);
+    cache.store("https://medium.com/@dev/post-123", "Mirrored article", "https://dev.example.com/post");
+    cache.store("https://dev.example.com/post", "Original article");
+    await cache.save();
+
+    const reloaded = await ArticleCache.load(filePath);
+    expect(reloaded.canonicalUrl("https://medium.com/@dev/post-123")).toBe("https://dev.example.com/post");
+    expect(reloaded.canonicalUrl("https://dev.example.com/post")).toBeUndefined();
+  });
+});
@@ -0,0 +1,24 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { extractArticleText } from "../src/article-extractor.js";
+
+const ARTICLE_HTML = readFileSync(new URL("./fixtures/article.html", import.meta.url), "utf8");
+
+describe("extractArticleText", () => {
+  it("keeps the article's paragraphs and drops navigation, asides, and link lists", () => {
+    expect(extractArticleText(ARTICLE_HTML)).toBe(
+      [
+        "Running LLMs on device with Core ML",
+        "Apple's latest Core ML release makes it practical to run a small language model entirely on device, without a server round trip.",
+        "We convert the model with coremltools, quantize the weights to 4 bits and stream tokens into a SwiftUI view.",
+      ].join("\n\n"),
+    );
+  });
+
+  it("falls back to the page text when there are no paragraphs", () => {
+    const html = "<html><body><main><div>Swift concurrency explained in a single long div without paragraphs.</div></main></body></html>";
+
+    expect(extractArticleText(html)).toBe("Swift concurrency explained in a single long div without paragraphs.");
+    expect(extractArticleText("<html><body><p>Short</p></body></html>")).toBeUndefined();
+  });
+});
@@ -1,7 +1,7 @@
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { describe, expect, it } from "vitest";
-import { extractFeedUrls, loadBlogs, BlogDataError } from "../src/blogs.js";
+import { extractFeedUrls, filterBlogsDirectory, loadBlogs, mergeBlogDirectories, BlogDataError } from "../src/blogs.js";
 
 const fixturesDir = path.dirname(fileURLToPath(new URL("./fixtures/blogs-sample.json", import.meta.url)));
 const sampleFilePath = path.join(fixturesDir, "blogs-sample.json");
@@ -35,6 +35,7 @@ describe("loadBlogs", () => {
     await expect(loadBlogs({ filePath: invalidStructurePath })).rejects.toBeInstanceOf(BlogDataError);
     await expect(loadBlogs({ filePath: invalidStructurePath })).rejects.toMatchObject({
       kind: "validation-error",
+      message: expect.stringContaining(`${invalidStructurePath}: `),
     });
   });
 });
@@ -89,3 +90,55 @@ describe("extractFeedUrls", () => {
     expect(() => extractFeedUrls(blogs, { maxBlogs: -1 })).toThrow(RangeError);
   });
 });
+
+describe("filterBlogsDirectory", () => {
+  it("keeps only the listed feeds and drops empty categories and groups", async () => {
+    const blogs = await loadBlogs({ filePath: sampleFilePath });
+
+    const filtered = filterBlogsDirectory(blogs, ["https://secondary.example.com/rss"]);
+
+    expect(filtered).toHaveLength(1);
+    expect(extractFeedUrls(filtered)).toEqual(["https://secondary.example.com/rss"]);
+  });
+});
+
+describe("mergeBlogDirectories", () => {
+  it("de-duplicates sites by feed URL, keeping the first position and the last file's metadata", async () => {
+    const upstream = await loadBlogs({ filePath: path.join(fixturesDir, "blogs-mini.json") });
+    const team = await loadBlogs({ filePath: path.join(fixturesDir, "blogs-team.json") });
+
+    const merged = mergeBlogDirectories([upstream, team]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].title).toBe("Mini Directory");
+    expect(merged[0].categories).toHaveLength(1);
+    expect(merged[0].categories[0].sites).toEqual([
+      {
+        title: "Integration Blog (team notes)",
+        author: "Integration Author",
+        site_url: "https://integration.example",
+        feed_url: "https://integration.example/feed",
+        mastodon_url: "https://mastodon.example/@integration",
+      },
+      { title: "Team Blog", author: "Team", site_url: "https://team.example", feed_url: "https://team.example/feed" },
+    ]);
+    expect(upstream[0].categories[0].sites[0].title).toBe("Integration Blog");
+  });
+
+  it("keeps separate language groups and categories apart", async () => {
+    const sample = await loadBlogs({ filePath: sampleFilePath });
+    const team = await loadBlogs({ filePath: path.join(fixturesDir, "blogs-team.json") });
+
+    const merged = mergeBlogDirectories([sample, team]);
+
+    expect(merged.map((group) => group.language)).toEqual(sample.map((group) => group.language));
+    expect(extractFeedUrls(merged)).toEqual([
+      "https://sample.example.com/feed",
+      "https://secondary.example.com/rss",
+      "https://third.example.com/rss",
+      "https://integration.example/feed",
+      "https://team.example/feed",
+      "https://es.example.com/feed",
+    ]);
+  });
+});
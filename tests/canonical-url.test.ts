@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { canonicalizeUrl, findCanonicalLink } from "../src/canonical-url.js";
+
+describe("canonicalizeUrl", () => {
+  it("normalizes scheme, host, port, fragment, and trailing slashes", () => {
+    expect(canonicalizeUrl(" http://WWW.Example.com:80/Posts/Core-ML/#comments ")).toBe("https://example.com/Posts/Core-ML");
+    expect(canonicalizeUrl("https://example.com/")).toBe("https://example.com");
+    expect(canonicalizeUrl("https://example.com//2025//post/")).toBe("https://example.com/2025/post");
+    expect(canonicalizeUrl("https://example.com:8443/post")).toBe("https://example.com:8443/post");
+  });
+
+  it("strips tracking parameters and sorts the rest", () => {
+    expect(canonicalizeUrl("https://medium.com/@dev/core-ml-1a2b?source=rss-1a2b------2")).toBe("https://medium.com/@dev/core-ml-1a2b");
+    expect(canonicalizeUrl("https://example.com/post?utm_source=newsletter&id=7&UTM_Medium=email&fbclid=abc&page=2")).toBe(
+      "https://example.com/post?id=7&page=2",
+    );
+    expect(canonicalizeUrl("https://example.com/post?b=2&a=1")).toBe(canonicalizeUrl("https://example.com/post/?a=1&b=2"));
+  });
+
+  it("leaves values that are not web URLs alone", () => {
+    expect(canonicalizeUrl("  tag:example.com,2025:post-1 ")).toBe("tag:example.com,2025:post-1");
+    expect(canonicalizeUrl("/relative/post")).toBe("/relative/post");
+  });
+});
+
+describe("findCanonicalLink", () => {
+  it("reads rel=canonical in any attribute order and resolves relative hrefs", () => {
+    expect(findCanonicalLink('<link rel="canonical" href="https://dev.example.com/post">', "https://medium.com/@dev/post")).toBe(
+      "https://dev.example.com/post",
+    );
+    expect(findCanonicalLink("<LINK HREF='/post?a=1&amp;b=2' REL='Canonical'>", "https://example.com/amp/post")).toBe(
+      "https://example.com/post?a=1&b=2",
+    );
+  });
+
+  it("ignores other link relations and unusable hrefs", () => {
+    expect(findCanonicalLink('<link rel="alternate" href="https://example.com/feed">', "https://example.com/post")).toBeUndefined();
+    expect(findCanonicalLink('<link rel="canonical" href="javascript:void(0)">', "https://example.com/post")).toBeUndefined();
+    expect(findCanonicalLink("<p>No head here</p>", "https://example.com/post")).toBeUndefined();
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { decodeBody, detectCharset } from "../src/charset.js";
+
+function latin1Bytes(text: string): Uint8Array {
+  return Uint8Array.from(text, (character) => character.charCodeAt(0));
+}
+
+describe("detectCharset", () => {
+  it("prefers the Content-Type charset, then the XML declaration, then a BOM", () => {
+    const declared = latin1Bytes('<?xml version="1.0" encoding="ISO-8859-1"?><rss/>');
+    const utf8Bom = Uint8Array.from([0xef, 0xbb, 0xbf, ...latin1Bytes("<rss/>")]);
+
+    expect(detectCharset(declared, "application/rss+xml; charset=Shift_JIS")).toEqual({ encoding: "shift_jis", source: "header" });
+    expect(detectCharset(declared, "application/rss+xml")).toEqual({ encoding: "windows-1252", source: "xml-declaration" });
+    expect(detectCharset(utf8Bom, "text/xml")).toEqual({ encoding: "utf-8", source: "bom" });
+    expect(detectCharset(latin1Bytes("<rss/>"))).toEqual({ encoding: "utf-8", source: "default" });
+  });
+
+  it("skips unknown labels and UTF-16 declarations in ASCII text", () => {
+    const declared = latin1Bytes('<?xml version="1.0" encoding="UTF-16"?><rss/>');
+
+    expect(detectCharset(declared, "text/xml; charset=x-made-up")).toEqual({ encoding: "utf-8", source: "default" });
+  });
+
+  it("reads an HTML page's meta charset or http-equiv Content-Type", () => {
+    const metaCharset = latin1Bytes('<!DOCTYPE html><html><head><meta charset="ISO-8859-1"><title>Caf\xe9</title>');
+    const httpEquiv = latin1Bytes(
+      '<html><head><META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=Shift_JIS"></head>',
+    );
+
+    expect(detectCharset(metaCharset, "text/html")).toEqual({ encoding: "windows-1252", source: "meta" });
+    expect(detectCharset(metaCharset)).toEqual({ encoding: "windows-1252", source: "meta" });
+    expect(detectCharset(httpEquiv, "text/html; charset=gb2312")).toEqual({ encoding: "gbk", source: "header" });
+    expect(detectCharset(httpEquiv, "application/xhtml+xml")).toEqual({ encoding: "shift_jis", source: "meta" });
+  });
+
+  it("ignores meta tags outside HTML pages and past the first 1024 bytes", () => {
+    const feed = latin1Bytes('<rss><channel><description><meta charset="ISO-8859-1"></description></channel></rss>');
+    const late = latin1Bytes(`<!DOCTYPE html><html><head><!--${" ".repeat(1024)}--><meta charset="ISO-8859-1">`);
+
+    expect(detectCharset(feed)).toEqual({ encoding: "utf-8", source: "default" });
+    expect(detectCharset(latin1Bytes('<html><meta charset="ISO-8859-1">'), "application/rss+xml")).toEqual({
+      encoding: "utf-8",
+      source: "default",
+    });
+    expect(detectCharset(late, "text/html")).toEqual({ encoding: "utf-8", source: "default" });
+  });
+});
+
+describe("decodeBody", () => {
+  it("transcodes legacy Western, Japanese, and Chinese encodings", () => {
+    const western = latin1Bytes('<?xml version="1.0" encoding="windows-1252"?><title>Caf\xe9 \x93Swift\x94</title>');
+    const japanese = Uint8Array.from([0x93, 0xfa, 0x96, 0x7b, 0x8c, 0xea]);
+    const chinese = Uint8Array.from([0xd6, 0xd0, 0xce, 0xc4]);
+
+    expect(decodeBody(western).text).toContain("Café “Swift”");
+    expect(decodeBody(japanese, "text/xml; charset=Shift_JIS").text).toBe("日本語");
+    expect(decodeBody(chinese, 'text/xml; charset="GB2312"')).toEqual({ text: "中文", encoding: "gbk", source: "header" });
+  });
+
+  it("transcodes an HTML page declared through its meta tag", () => {
+    const page = latin1Bytes('<html><head><meta charset=windows-1252></head><body><p>R\xe9sum\xe9 \x96 \x93ML\x94</p></body></html>');
+
+    expect(decodeBody(page, "text/html").text).toContain("Résumé – “ML”");
+  });
+});
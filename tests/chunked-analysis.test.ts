@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import { reduceChunkAnalyses, splitIntoChunks } from "../src/chunked-analysis.js";
+import type { AnalysisResult } from "../src/llm-client.js";
+
+function makeAnalysis(overrides: Partial<AnalysisResult> = {}): AnalysisResult {
+  return { relevant: false, rawResponse: "{}", ...overrides };
+}
+
+describe("splitIntoChunks", () => {
+  it("returns short text as a single chunk", () => {
+    expect(splitIntoChunks("Short post.", { size: 100, overlap: 10, maxChunks: 3 })).toEqual({
+      chunks: ["Short post."],
+      truncated: false,
+    });
+  });
+
+  it("splits on paragraph boundaries and overlaps consecutive chunks", () => {
+    const text = ["alpha beta gamma delta", "epsilon zeta eta theta", "iota kappa lambda mu"].join("\n\n");
+
+    const { chunks, truncated } = splitIntoChunks(text, { size: 30, overlap: 12, maxChunks: 10 });
+
+    expect(truncated).toBe(false);
+    expect(chunks[0]).toBe("alpha beta gamma delta");
+    expect(chunks.every((chunk) => chunk.length <= 30)).toBe(true);
+    // Each chunk after the first begins with words repeated from the end of the previous one.
+    expect(chunks[1].startsWith("delta")).toBe(true);
+    expect(chunks.at(-1)?.endsWith("lambda mu")).toBe(true);
+  });
+
+  it("stops at the chunk cap and reports the dropped tail", () => {
+    const text = "word ".repeat(100).trim();
+
+    const { chunks, truncated } = splitIntoChunks(text, { size: 50, overlap: 0, maxChunks: 2 });
+
+    expect(chunks).toHaveLength(2);
+    expect(truncated).toBe(true);
+  });
+
+  it("rejects an overlap that would stop the chunks from advancing", () => {
+    expect(() => splitIntoChunks("text", { size: 10, overlap: 10, maxChunks: 2 })).toThrow(RangeError);
+  });
+});
+
+describe("reduceChunkAnalyses", () => {
+  it("marks the post relevant when any chunk is and lets the most confident chunk explain why", () => {
+    const reduced = reduceChunkAnalyses([
+      makeAnalysis({ relevant: false, confidence: 0.9, reason: "Intro about layout", tags: ["SwiftUI"] }),
+      makeAnalysis({ relevant: true, confidence: 0.6, reason: "Mentions Core ML", tags: ["coreml", "SwiftUI"] }),
+      makeAnalysis({ relevant: true, confidence: 0.8, reason: "On-device LLM section", tags: ["LLM", "CoreML"] }),
+    ]);
+
+    expect(reduced).toMatchObject({
+      relevant: true,
+      confidence: 0.8,
+      reason: "On-device LLM section",
+      tags: ["coreml", "SwiftUI", "LLM"],
+      chunks: { count: 3, relevant: 2 },
+    });
+    expect(reduced.degraded).toBeUndefined();
+  });
+
+  it("uses the least confident chunk for an irrelevant post and records truncation", () => {
+    const reduced = reduceChunkAnalyses(
+      [makeAnalysis({ confidence: 0.9, reason: "Layout" }), makeAnalysis({ confidence: 0.7, reason: "Animations" })],
+      { truncated: true },
+    );
+
+    expect(reduced).toMatchObject({ relevant: false, confidence: 0.7, reason: "Layout", chunks: { count: 2, relevant: 0, truncated: true } });
+  });
+
+  it("merges per-topic decisions across chunks", () => {
+    const reduced = reduceChunkAnalyses([
+      makeAnalysis({ relevant: true, topics: { ai: { relevant: true, confidence: 0.7 }, swiftui: { relevant: false, confidence: 0.9 } } }),
+      makeAnalysis({ relevant: false, topics: { ai: { relevant: false, confidence: 0.8 }, swiftui: { relevant: false, confidence: 0.6 } } }),
+    ]);
+
+    expect(reduced.topics).toEqual({
+      ai: { relevant: true, confidence: 0.7 },
+      swiftui: { relevant: false, confidence: 0.6 },
+    });
+  });
+
+  it("treats a negative decision with degraded chunks as partial", () => {
+    const reduced = reduceChunkAnalyses([makeAnalysis({ confidence: 0.8 }), makeAnalysis({ degraded: true, reason: "Timeout" })]);
+
+    expect(reduced).toMatchObject({ relevant: false, partial: true, chunks: { count: 2, relevant: 0 } });
+    expect(reduced.degraded).toBeUndefined();
+  });
+
+  it("keeps a positive decision even when other chunks degraded", () => {
+    const reduced = reduceChunkAnalyses([makeAnalysis({ relevant: true, confidence: 0.8 }), makeAnalysis({ degraded: true })]);
+
+    expect(reduced.relevant).toBe(true);
+    expect(reduced.degraded).toBeUndefined();
+  });
+
+  it("counts partial chunk decisions and passes the flag on", () => {
+    const reduced = reduceChunkAnalyses([makeAnalysis({ relevant: true, confidence: 0.8, partial: true }), makeAnalysis({ confidence: 0.9 })]);
+
+    expect(reduced).toMatchObject({ relevant: true, partial: true, chunks: { count: 2, relevant: 1 } });
+    expect(reduced.degraded).toBeUndefined();
+  });
+});
@@ -50,8 +50,8 @@ vi.mock("../src/blogs.js", async (importOriginal) => {
   const actual = await importOriginal<typeof import("../src/blogs.js")>();
   return {
     ...actual,
-    async loadBlogs() {
-      return actual.loadBlogs({ filePath: blogsFixturePath, schemaPath });
+    async loadBlogs(options?: { filePath?: string }) {
+      return actual.loadBlogs({ filePath: options?.filePath ?? blogsFixturePath, schemaPath });
     },
   };
 });
@@ -105,7 +105,7 @@ describe("CLI end-to-end", () => {
 
     const stdoutText = stdout.messages.join("");
     expect(stdoutText).toContain("Loaded 1 feed URLs (languages: en; categories: 1 categories).");
-    expect(stdoutText).toContain("Processing with up to 3 concurrent requests");
+    expect(stdoutText).toContain("Processing with up to 3 feed fetches and 2 model requests at a time");
     expect(stdoutText).toMatch(/Finished 1 feeds: 1 succeeded, 0 failed/);
     expect(stdoutText).toContain('"feeds"');
     expect(stdoutText).toContain("Integration Feed");
@@ -154,6 +154,7 @@ describe("CLI end-to-end", () => {
     expect(payload.summary.totalFeeds).toBe(1);
     expect(payload.summary.failed).toBe(0);
     expect(payload.parameters.parallel).toBe(3);
+    expect(payload.parameters.llmParallel).toBe(2);
     expect(payload.feeds).toHaveLength(1);
     expect(payload.feeds[0].feedUrl).toBe("https://integration.example/feed");
     expect(payload.feeds[0].status).toBe("fulfilled");
@@ -162,6 +163,182 @@ describe("CLI end-to-end", () => {
     await fs.rm(tempDir, { recursive: true, force: true });
   });
 
+  it("analyzes an explicit calendar window and reports it", async () => {
+    const stdout = createWriter();
+    const stderr = createWriter();
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-window-"));
+    const outputPath = path.join(tempDir, "report.json");
+    const perfLogPath = path.join(tempDir, "perf.json");
+
+    await main({
+      argv: [
+        "--max-blogs",
+        "1",
+        "--since",
+        "2025-11-01",
+        "--until",
+        "2025-11-07",
+        "--time-zone",
+        "Europe/Rome",
+        "--output",
+        `json:${outputPath}`,
+        "--perf-log",
+        perfLogPath,
+        "--model",
+        "llama3.1",
+      ],
+      stdout: stdout.writer,
+      stderr: stderr.writer,
+      env: {},
+    });
+
+    const expectedWindow = {
+      label: "custom window",
+      since: "2025-10-31T23:00:00.000Z",
+      until: "2025-11-07T23:00:00.000Z",
+      timeZone: "Europe/Rome",
+    };
+    const report = JSON.parse(await fs.readFile(outputPath, "utf8"));
+    expect(report.window).toEqual(expectedWindow);
+    expect(report.feeds[0].relevantPosts.map((post: { title: string }) => post.title)).toEqual(["Building AI assistants for iOS"]);
+    const perfLog = JSON.parse(await fs.readFile(perfLogPath, "utf8"));
+    expect(perfLog.parameters.window).toEqual(expectedWindow);
+    expect(stdout.messages.join("")).toContain(
+      "Window: custom window: 2025-11-01 00:00 – 2025-11-07 23:59 (Europe/Rome).",
+    );
+    expect(stderr.messages).toHaveLength(0);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reuses the on-disk feed cache on later runs", async () => {
+    const stdout = createWriter();
+    const stderr = createWriter();
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-state-"));
+    const stateDir = path.join(tempDir, "state");
+    const perfLogPath = path.join(tempDir, "perf.json");
+    const argv = ["--max-blogs", "1", "--state-dir", stateDir, "--perf-log", perfLogPath, "--model", "llama3.1"];
+
+    await main({ argv, stdout: stdout.writer, stderr: stderr.writer, env: {} });
+    const firstRun = JSON.parse(await fs.readFile(perfLogPath, "utf8"));
+    await main({ argv, stdout: stdout.writer, stderr: stderr.writer, env: {} });
+    const secondRun = JSON.parse(await fs.readFile(perfLogPath, "utf8"));
+
+    expect(firstRun.feeds[0].feedCache).toBe("downloaded");
+    expect(secondRun.feeds[0].feedCache).toBe("hit");
+    expect(secondRun.feeds[0].encoding).toBe("utf-8");
+    expect(secondRun.summary.feedCache).toEqual({ hits: 1, revalidations: 0, downloads: 0 });
+    expect(vi.mocked(fetch)).toHaveBeenCalledTimes(1);
+    expect(stderr.messages).toHaveLength(0);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("serves unchanged posts from the analysis cache and prunes it on request", async () => {
+    const stdout = createWriter();
+    const stderr = createWriter();
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-analysis-"));
+    const stateDir = path.join(tempDir, "state");
+    const argv = ["--max-blogs", "1", "--state-dir", stateDir, "--months", "240", "--model", "llama3.1"];
+
+    await main({ argv, stdout: stdout.writer, stderr: stderr.writer, env: {} });
+    const callsAfterFirstRun = ollamaMocks.analyze.mock.calls.length;
+    await main({ argv, stdout: stdout.writer, stderr: stderr.writer, env: {} });
+    await main({ argv: [...argv, "--no-analysis-cache"], stdout: stdout.writer, stderr: stderr.writer, env: {} });
+
+    const stdoutText = stdout.messages.join("");
+    expect(callsAfterFirstRun).toBeGreaterThan(0);
+    expect(ollamaMocks.analyze).toHaveBeenCalledTimes(callsAfterFirstRun * 2);
+    expect(stdoutText).toContain("0 analyses served from cache.");
+    expect(stdoutText).toContain(`${callsAfterFirstRun} analyses served from cache.`);
+
+    await main({
+      argv: ["cache", "prune", "--max-age-days", "0"],
+      stdout: stdout.writer,
+      stderr: stderr.writer,
+      env: { IOS_BLOGS_STATE_DIR: stateDir },
+      now: () => Date.now() + 1000,
+    });
+    expect(stdout.messages.join("")).toContain(`Pruned ${callsAfterFirstRun} analysis cache entries older than 0 days (0 remaining).`);
+    expect(stderr.messages).toHaveLength(0);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reports only unseen posts with --new-only until the ledger is reset", async () => {
+    const stderr = createWriter();
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-ledger-"));
+    const stateDir = path.join(tempDir, "state");
+    const csvPath = path.join(tempDir, "report.csv");
+    const argv = ["--max-blogs", "1", "--state-dir", stateDir, "--months", "240", "--model", "llama3.1"];
+
+    await main({ argv, stdout: createWriter().writer, stderr: stderr.writer, env: {} });
+
+    const repeated = createWriter();
+    await main({ argv: [...argv, "--new-only"], stdout: repeated.writer, stderr: stderr.writer, env: {} });
+    expect(repeated.messages.join("")).toContain("Skipped 1 previously reported post (--new-only).");
+    expect(repeated.messages.join("")).not.toContain("Building AI assistants for iOS");
+
+    const reset = createWriter();
+    await main({ argv: ["ledger", "reset", "--state-dir", stateDir], stdout: reset.writer, stderr: stderr.writer, env: {} });
+    expect(reset.messages.join("")).toContain("Removed 1 post from the seen-posts ledger (0 remaining).");
+
+    await main({
+      argv: [...argv, "--new-only", "--output", `csv:${csvPath}`],
+      stdout: createWriter().writer,
+      stderr: stderr.writer,
+      env: {},
+    });
+    expect(await fs.readFile(csvPath, "utf8")).toContain("Building AI assistants for iOS");
+    expect(stderr.messages).toHaveLength(0);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("keeps posts unseen when their report could not be written", async () => {
+    const stderr = createWriter();
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-ledger-"));
+    const stateDir = path.join(tempDir, "state");
+    const argv = ["--max-blogs", "1", "--state-dir", stateDir, "--months", "240", "--model", "llama3.1"];
+
+    await main({
+      argv: [...argv, "--output", `csv:${path.join(tempDir, "missing", "report.csv")}`],
+      stdout: createWriter().writer,
+      stderr: stderr.writer,
+      env: {},
+    });
+    expect(stderr.messages.join("")).toContain("Error:");
+
+    const retried = createWriter();
+    await main({ argv: [...argv, "--new-only"], stdout: retried.writer, stderr: createWriter().writer, env: {} });
+    expect(retried.messages.join("")).toContain("Skipped 0 previously reported posts (--new-only).");
+    expect(retried.messages.join("")).toContain("Building AI assistants for iOS");
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("records feed health across runs and reports it with the feeds health command", async () => {
+    const stderr = createWriter();
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-health-"));
+    const stateDir = path.join(tempDir, "state");
+    const healthPath = path.join(tempDir, "health.json");
+    const argv = ["--max-blogs", "1", "--state-dir", stateDir, "--months", "240", "--model", "llama3.1"];
+
+    await main({ argv, stdout: createWriter().writer, stderr: stderr.writer, env: {} });
+    await main({ argv, stdout: createWriter().writer, stderr: stderr.writer, env: {} });
+
+    const report = createWriter();
+    await main({ argv: ["feeds", "health", "--state-dir", stateDir], stdout: report.writer, stderr: stderr.writer, env: {} });
+    expect(report.messages.join("")).toMatch(/^Feed health for 1 feed: dead 0, moved 0, flaky 0, /);
+
+    await main({
+      argv: ["feeds", "health", "--output", `json:${healthPath}`],
+      stdout: createWriter().writer,
+      stderr: stderr.writer,
+      env: { IOS_BLOGS_STATE_DIR: stateDir },
+    });
+    const payload = JSON.parse(await fs.readFile(healthPath, "utf8"));
+    expect(payload.feeds).toHaveLength(1);
+    expect(payload.feeds[0]).toMatchObject({ checks: 2, recentFailures: 0, consecutiveFailures: 0 });
+    expect(stderr.messages).toHaveLength(0);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
   it("writes markdown output with checkboxes when requested", async () => {
     const stdout = createWriter();
     const stderr = createWriter();
@@ -183,6 +360,155 @@ describe("CLI end-to-end", () => {
     await fs.rm(tempDir, { recursive: true, force: true });
   });
 
+  it("groups markdown output by topic when several topics are selected", async () => {
+    const defaultAnalyze = ollamaMocks.analyze.getMockImplementation();
+    ollamaMocks.analyze.mockImplementation(async (text: string) => ({
+      relevant: text.toLowerCase().includes("ai"),
+      rawResponse: "{}",
+      reason: "AI content detected",
+      confidence: 0.8,
+      tags: ["ai"],
+      topics: { ai: { relevant: text.toLowerCase().includes("ai"), confidence: 0.8 }, accessibility: { relevant: false, confidence: 0.1 } },
+    }));
+    const stderr = createWriter();
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-topics-"));
+    const outputPath = path.join(tempDir, "topics.md");
+
+    await main({
+      argv: ["--max-blogs", "1", "--months", "240", "--topic", "ai,accessibility", "--output", `md:${outputPath}`, "--model", "llama3.1"],
+      stdout: createWriter().writer,
+      stderr: stderr.writer,
+      env: {},
+    });
+
+    const topics = (ollamaMocks.factory.mock.calls[0] as unknown[])[0] as { topics: Array<{ name: string }> };
+    expect(topics.topics.map((topic) => topic.name)).toEqual(["ai", "accessibility"]);
+    const mdContents = await fs.readFile(outputPath, "utf8");
+    expect(mdContents).toMatch(/## AI\/ML\n\n### Integration Feed\n- \[ \] \[Building AI assistants for iOS\]/);
+    expect(mdContents).toContain("## accessibility\n\n_No relevant posts found._");
+    expect(stderr.messages).toHaveLength(0);
+    ollamaMocks.analyze.mockImplementation(defaultAnalyze!);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("keeps every ensemble vote in the JSON report", async () => {
+    const stdout = createWriter();
+    const stderr = createWriter();
+
+    await main({
+      argv: ["--max-blogs", "1", "--months", "240", "--model", "llama3.1,qwq"],
+      stdout: stdout.writer,
+      stderr: stderr.writer,
+      env: {},
+    });
+
+    expect(ollamaMocks.factory.mock.calls.map((call) => (call as unknown[])[0])).toEqual([
+      expect.objectContaining({ model: "llama3.1" }),
+      expect.objectContaining({ model: "qwq" }),
+    ]);
+    const stdoutText = stdout.messages.join("");
+    const report = JSON.parse(stdoutText.slice(stdoutText.indexOf("{\n")));
+    expect(report.feeds[0].relevantPosts[0].votes).toEqual([
+      { model: "llama3.1", relevant: true, confidence: 0.91, reason: "AI content detected" },
+      { model: "qwq", relevant: true, confidence: 0.91, reason: "AI content detected" },
+    ]);
+    expect(stderr.messages).toHaveLength(0);
+  });
+
+  it("evaluates a labeled dataset and writes a results file", async () => {
+    const stdout = createWriter();
+    const stderr = createWriter();
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-eval-"));
+    const resultsPath = path.join(tempDir, "results.json");
+
+    await main({
+      argv: ["evaluate", "--dataset", path.join(fixturesDir, "evaluation-dataset.json"), "--results", resultsPath, "--model", "llama3.1"],
+      stdout: stdout.writer,
+      stderr: stderr.writer,
+      env: {},
+    });
+
+    const stdoutText = stdout.messages.join("");
+    expect(stdoutText).toContain("Loaded 4 labeled examples");
+    expect(stdoutText).toMatch(/Precision: \d\.\d{3}  Recall: \d\.\d{3}  F1: \d\.\d{3}/);
+    expect(stdoutText).toContain("Confusion matrix:");
+    const results = JSON.parse(await fs.readFile(resultsPath, "utf8"));
+    expect(results.total).toBe(4);
+    expect(results.examples).toHaveLength(4);
+    expect(stderr.messages).toHaveLength(0);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("reads feeds from OPML and exports the feeds with relevant posts", async () => {
+    const stdout = createWriter();
+    const stderr = createWriter();
+    const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-opml-"));
+    const exportPath = path.join(tempDir, "relevant.opml");
+
+    await main({
+      argv: ["--opml", path.join(fixturesDir, "feeds.opml"), "--months", "240", "--export-opml", exportPath, "--model", "llama3.1"],
+      stdout: stdout.writer,
+      stderr: stderr.writer,
+      env: {},
+    });
+
+    const stdoutText = stdout.messages.join("");
+    expect(stdoutText).toContain(`Loaded 1 feed URLs from OPML file ${path.join(fixturesDir, "feeds.opml")}`);
+    expect(stdoutText).toContain(`Exported 1 feeds with relevant posts to ${exportPath}`);
+    const exported = await fs.readFile(exportPath, "utf8");
+    expect(exported).toContain('<outline text="Indie" title="Indie">');
+    expect(exported).toContain('xmlUrl="https://integration.example/feed" htmlUrl="https://integration.example"');
+    expect(stderr.messages).toHaveLength(0);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("exports the filtered directory as OPML without a model", async () => {
+    const stdout = createWriter();
+    const stderr = createWriter();
+
+    await main({ argv: ["opml", "export"], stdout: stdout.writer, stderr: stderr.writer, now: () => 0, env: {} });
+
+    const stdoutText = stdout.messages.join("");
+    expect(stdoutText).toContain("<dateCreated>Thu, 01 Jan 1970 00:00:00 GMT</dateCreated>");
+    expect(stdoutText).toContain('title="Integration Blog" xmlUrl="https://integration.example/feed"');
+    expect(ollamaMocks.factory).not.toHaveBeenCalled();
+    expect(stderr.messages).toHaveLength(0);
+  });
+
+  it("merges several --blogs directories", async () => {
+    const stdout = createWriter();
+    const stderr = createWriter();
+
+    await main({
+      argv: ["opml", "export", "--blogs", blogsFixturePath, "--blogs", path.join(fixturesDir, "blogs-team.json")],
+      stdout: stdout.writer,
+      stderr: stderr.writer,
+      now: () => 0,
+      env: {},
+    });
+
+    const stdoutText = stdout.messages.join("");
+    expect(stdoutText.match(/xmlUrl="https:\/\/integration\.example\/feed"/g)).toHaveLength(1);
+    expect(stdoutText).toContain('title="Integration Blog (team notes)"');
+    expect(stdoutText).toContain('xmlUrl="https://team.example/feed"');
+    expect(stderr.messages).toHaveLength(0);
+  });
+
+  it("names the directory file that fails validation", async () => {
+    const stderr = createWriter();
+    const invalidPath = path.join(fixturesDir, "blogs-invalid-structure.json");
+
+    await main({
+      argv: ["--blogs", blogsFixturePath, "--blogs", invalidPath, "--model", "llama3.1"],
+      stdout: createWriter().writer,
+      stderr: stderr.writer,
+      env: {},
+    });
+
+    expect(stderr.messages.join("")).toContain(`Error: ${invalidPath}: `);
+    expect(ollamaMocks.analyze).not.toHaveBeenCalled();
+  });
+
   it("passes the CLI model to the Ollama client", async () => {
     const stdout = createWriter();
     const stderr = createWriter();
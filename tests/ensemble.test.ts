@@ -0,0 +1,129 @@
+import { describe, expect, it, vi } from "vitest";
+import { EnsembleClient, type EnsembleMember } from "../src/ensemble.js";
+import type { AnalysisResult } from "../src/llm-client.js";
+
+function member(model: string, result: Partial<AnalysisResult>): EnsembleMember & { analyze: ReturnType<typeof vi.fn> } {
+  const analyze = vi.fn().mockResolvedValue({ rawResponse: "{}", ...result });
+  return {
+    model,
+    analyze,
+    client: { model, promptVersion: "p1", analyze, checkConnection: vi.fn().mockResolvedValue(true) },
+  };
+}
+
+describe("EnsembleClient", () => {
+  it("takes the majority decision and keeps every vote", async () => {
+    const members = [
+      member("llama3.1", { relevant: true, confidence: 0.6, reason: "Core ML mentioned" }),
+      member("qwq", { relevant: false, confidence: 0.9, reason: "Core Data migration, not ML" }),
+      member("mistral", { relevant: false, confidence: 0.7, reason: "Persistence topic" }),
+    ];
+    const client = new EnsembleClient(members);
+
+    const result = await client.analyze("Migrating Core Data stores");
+
+    expect(result.relevant).toBe(false);
+    expect(result.confidence).toBeCloseTo(0.8);
+    expect(result.reason).toBe("Core Data migration, not ML");
+    expect(result.votes).toEqual([
+      { model: "llama3.1", relevant: true, confidence: 0.6, reason: "Core ML mentioned", degraded: undefined },
+      { model: "qwq", relevant: false, confidence: 0.9, reason: "Core Data migration, not ML", degraded: undefined },
+      { model: "mistral", relevant: false, confidence: 0.7, reason: "Persistence topic", degraded: undefined },
+    ]);
+    expect(client.model).toBe("llama3.1+qwq+mistral");
+    expect(client.promptVersion).toBe("p1:all:majority");
+  });
+
+  it("requires every model to agree in unanimous mode", async () => {
+    const client = new EnsembleClient(
+      [member("a", { relevant: true, confidence: 0.9 }), member("b", { relevant: false, confidence: 0.4 })],
+      { vote: "unanimous" },
+    );
+
+    expect((await client.analyze("text")).relevant).toBe(false);
+  });
+
+  it("weights votes by confidence", async () => {
+    const client = new EnsembleClient(
+      [
+        member("a", { relevant: true, confidence: 0.95 }),
+        member("b", { relevant: false, confidence: 0.3 }),
+        member("c", { relevant: false, confidence: 0.4 }),
+      ],
+      { vote: "weighted" },
+    );
+
+    const result = await client.analyze("text");
+
+    expect(result.relevant).toBe(true);
+    expect(result.confidence).toBeCloseTo(0.95 / 1.65);
+  });
+
+  it("only consults later models when the first one is borderline in cascade mode", async () => {
+    const confident = member("a", { relevant: true, confidence: 0.9 });
+    const second = member("b", { relevant: false, confidence: 0.8 });
+    const client = new EnsembleClient([confident, second], { mode: "cascade", cascadeThreshold: 0.75 });
+
+    const result = await client.analyze("text");
+    expect(result.relevant).toBe(true);
+    expect(result.votes).toHaveLength(1);
+    expect(second.analyze).not.toHaveBeenCalled();
+
+    confident.analyze.mockResolvedValueOnce({ relevant: true, confidence: 0.55, rawResponse: "{}" });
+    const escalated = await client.analyze("text");
+    expect(second.analyze).toHaveBeenCalledTimes(1);
+    expect(escalated.votes?.map((vote) => vote.model)).toEqual(["a", "b"]);
+  });
+
+  it("ignores degraded votes", async () => {
+    const client = new EnsembleClient([
+      member("a", { relevant: false, confidence: 0, degraded: true }),
+      member("b", { relevant: true, confidence: 0.8 }),
+    ]);
+
+    const result = await client.analyze("text");
+
+    expect(result.relevant).toBe(true);
+    expect(result.degraded).toBeUndefined();
+    expect(result.partial).toBe(true);
+    expect(result.votes?.[0].degraded).toBe(true);
+  });
+
+  it("asks one model at a time so each post holds a single model request", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    const slow = (model: string): EnsembleMember => ({
+      model,
+      client: {
+        model,
+        checkConnection: vi.fn().mockResolvedValue(true),
+        analyze: vi.fn(async () => {
+          inFlight += 1;
+          maxInFlight = Math.max(maxInFlight, inFlight);
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          inFlight -= 1;
+          return { relevant: true, confidence: 0.8, rawResponse: "{}" };
+        }),
+      },
+    });
+    const client = new EnsembleClient([slow("a"), slow("b"), slow("c")]);
+
+    const result = await client.analyze("text");
+
+    expect(result.votes).toHaveLength(3);
+    expect(maxInFlight).toBe(1);
+  });
+
+  it("votes per topic when members return topic maps", async () => {
+    const client = new EnsembleClient([
+      member("a", { relevant: true, topics: { ai: { relevant: true, confidence: 0.8 }, visionos: { relevant: false } } }),
+      member("b", { relevant: true, topics: { ai: { relevant: true, confidence: 0.6 }, visionos: { relevant: true } } }),
+      member("c", { relevant: false, topics: { ai: { relevant: false }, visionos: { relevant: false } } }),
+    ]);
+
+    const result = await client.analyze("text");
+
+    expect(result.topics?.ai).toEqual({ relevant: true, confidence: 0.7 });
+    expect(result.topics?.visionos.relevant).toBe(false);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, expect, it, vi } from "vitest";
+import path from "node:path";
+import {
+  computeMetrics,
+  evaluateClassifier,
+  EvaluationDatasetError,
+  formatEvaluationSummary,
+  loadEvaluationDataset,
+} from "../src/evaluation.js";
+
+const fixturesDir = path.resolve(process.cwd(), "tests/fixtures");
+const datasetPath = path.join(fixturesDir, "evaluation-dataset.json");
+
+describe("loadEvaluationDataset", () => {
+  it("loads labeled examples", async () => {
+    const examples = await loadEvaluationDataset(datasetPath);
+    expect(examples).toHaveLength(4);
+    expect(examples[0]).toMatchObject({ id: "coreml-widgets", relevant: true, tags: ["coreml", "ios"] });
+  });
+
+  it("rejects datasets without labels", async () => {
+    const promise = loadEvaluationDataset(path.join(fixturesDir, "blogs-mini.json"));
+    await expect(promise).rejects.toBeInstanceOf(EvaluationDatasetError);
+    await expect(promise).rejects.toMatchObject({ kind: "validation-error" });
+  });
+});
+
+describe("computeMetrics", () => {
+  it("derives precision, recall, F1 and accuracy from the confusion matrix", () => {
+    const metrics = computeMetrics({ truePositives: 6, falsePositives: 2, falseNegatives: 3, trueNegatives: 9 });
+    expect(metrics.precision).toBeCloseTo(0.75);
+    expect(metrics.recall).toBeCloseTo(6 / 9);
+    expect(metrics.f1).toBeCloseTo((2 * 0.75 * (6 / 9)) / (0.75 + 6 / 9));
+    expect(metrics.accuracy).toBeCloseTo(0.75);
+  });
+
+  it("returns zeros instead of NaN when nothing was predicted", () => {
+    expect(computeMetrics({ truePositives: 0, falsePositives: 0, falseNegatives: 2, trueNegatives: 1 })).toEqual({
+      precision: 0,
+      recall: 0,
+      f1: 0,
+      accuracy: 1 / 3,
+    });
+  });
+});
+
+describe("evaluateClassifier", () => {
+  it("classifies examples through buildAnalysisText and reports misclassifications", async () => {
+    const examples = await loadEvaluationDataset(datasetPath);
+    const analyze = vi.fn(async (text: string) => {
+      if (text.includes("Core Data")) {
+        return { relevant: true, confidence: 0.6, reason: "Core ML mentioned", tags: ["coredata"], rawResponse: "{}" };
+      }
+      if (text.includes("LLM")) {
+        return { relevant: false, confidence: 0, reason: "Timed out", rawResponse: "", degraded: true };
+      }
+      const relevant = text.includes("Core ML");
+      return { relevant, confidence: 0.9, reason: relevant ? "On-device ML" : "Business", tags: relevant ? ["coreml"] : [], rawResponse: "{}" };
+    });
+
+    const report = await evaluateClassifier(examples, { model: "llama3.1", promptVersion: "p1", analyze }, {
+      dataset: "dataset.json",
+      clock: () => Date.parse("2025-11-01T00:00:00.000Z"),
+    });
+
+    expect(analyze.mock.calls[0][0]).toBe(
+      "Running Core ML models in widgets\n\nHow to ship an on-device Core ML model inside a WidgetKit extension.",
+    );
+    expect(report).toMatchObject({
+      generatedAt: "2025-11-01T00:00:00.000Z",
+      model: "llama3.1",
+      promptVersion: "p1",
+      total: 4,
+      evaluated: 3,
+      skipped: 1,
+      confusionMatrix: { truePositives: 1, falsePositives: 1, falseNegatives: 0, trueNegatives: 1 },
+      tagMetrics: { examples: 1, precision: 1, recall: 0.5 },
+    });
+    expect(report.metrics.precision).toBeCloseTo(0.5);
+    expect(report.metrics.recall).toBe(1);
+
+    const summary = formatEvaluationSummary(report);
+    expect(summary).toContain("Evaluated 3 of 4 examples from dataset.json with llama3.1 (1 skipped without a decision).");
+    expect(summary).toContain("Precision: 0.500  Recall: 1.000  F1: 0.667  Accuracy: 0.667");
+    expect(summary).toContain("- [false-positive] Core Data migrations without tears (core-data-migration) — Core ML mentioned");
+  });
+
+  it("records examples whose analysis throws as failed and scores the rest", async () => {
+    const examples = await loadEvaluationDataset(datasetPath);
+    const analyze = vi.fn(async (text: string) => {
+      if (text.includes("Core Data")) {
+        throw new Error("Model returned malformed JSON");
+      }
+      const relevant = text.includes("Core ML");
+      return { relevant, confidence: 0.9, reason: relevant ? "On-device ML" : "Business", tags: [], rawResponse: "{}" };
+    });
+
+    const report = await evaluateClassifier(examples, { model: "llama3.1", analyze }, { dataset: "dataset.json", parallel: 2 });
+
+    expect(report).toMatchObject({ total: 4, evaluated: 3, skipped: 0, failed: 1 });
+    expect(report.examples.find((example) => example.id === "core-data-migration")).toMatchObject({
+      error: "Model returned malformed JSON",
+    });
+    expect(report.examples.find((example) => example.id === "core-data-migration")?.outcome).toBeUndefined();
+
+    const summary = formatEvaluationSummary(report);
+    expect(summary).toContain("Evaluated 3 of 4 examples from dataset.json with llama3.1 (1 failed).");
+    expect(summary).toContain("- Core Data migrations without tears (core-data-migration) — Model returned malformed JSON");
+  });
+});
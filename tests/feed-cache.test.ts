@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import * as fs from "node:fs/promises";
+import { FeedCache } from "../src/feed-cache.js";
+import { STATE_FILE_VERSION } from "../src/state-file.js";
+
+describe("FeedCache", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-feed-cache-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("starts empty when the cache file does not exist", async () => {
+    const cache = await FeedCache.load(path.join(tempDir, "feed-cache.json"));
+    expect(cache.size).toBe(0);
+    expect(cache.get("https://example.com/feed")).toBeUndefined();
+  });
+
+  it("persists validators and parsed feeds across loads", async () => {
+    const filePath = path.join(tempDir, "state", "feed-cache.json");
+    const cache = await FeedCache.load(filePath, { clock: () => Date.parse("2025-12-05T00:00:00.000Z") });
+
+    cache.store("https://example.com/feed", {
+      etag: '"abc"',
+      lastModified: "Fri, 05 Dec 2025 00:00:00 GMT",
+      feed: { title: "Example", items: [], fetchInfo: { cacheStatus: "downloaded" } },
+    });
+    await cache.save();
+
+    const reloaded = await FeedCache.load(filePath);
+    const entry = reloaded.get("https://example.com/feed");
+    expect(entry).toMatchObject({
+      etag: '"abc"',
+      lastModified: "Fri, 05 Dec 2025 00:00:00 GMT",
+      fetchedAt: "2025-12-05T00:00:00.000Z",
+    });
+    expect(entry?.feed).toEqual({ title: "Example", items: [] });
+    expect(entry).not.toHaveProperty("body");
+  });
+
+  it("drops raw bodies from entries written by older versions", async () => {
+    const filePath = path.join(tempDir, "feed-cache.json");
+    await fs.writeFile(
+      filePath,
+      JSON.stringify({
+        version: STATE_FILE_VERSION,
+        entries: { "https://example.com/feed": { body: "<rss />", feed: { items: [] }, fetchedAt: "2025-12-05T00:00:00.000Z" } },
+      }),
+    );
+
+    const cache = await FeedCache.load(filePath);
+    await cache.save();
+
+    expect(cache.get("https://example.com/feed")).toEqual({ feed: { items: [] }, fetchedAt: "2025-12-05T00:00:00.000Z" });
+    expect(await fs.readFile(filePath, "utf8")).not.toContain("<rss />");
+  });
+
+  it("treats entries younger than the TTL as fresh", async () => {
+    let currentTime = Date.parse("2025-12-05T00:00:00.000Z");
+    const cache = new FeedCache(path.join(tempDir, "feed-cache.json"), { ttlMs: 60_000, clock: () => currentTime });
+
+    cache.store("https://example.com/feed", { feed: { items: [] } });
+    const entry = cache.get("https://example.com/feed")!;
+    expect(cache.isFresh(entry)).toBe(true);
+
+    currentTime += 60_000;
+    expect(cache.isFresh(entry)).toBe(false);
+
+    cache.touch("https://example.com/feed");
+    expect(cache.isFresh(cache.get("https://example.com/feed")!)).toBe(true);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { buildDiscoveryCandidates, COMMON_FEED_PATHS, extractFeedLinks } from "../src/feed-discovery.js";
+
+const PAGE = `<!doctype html>
+<html>
+  <head>
+    <link rel="stylesheet" href="/style.css">
+    <link rel="alternate" type="application/rss+xml" title="Posts" href="/posts/index.xml">
+    <LINK REL="Alternate" TYPE="application/atom+xml" HREF='https://cdn.example.com/atom.xml?a=1&amp;b=2'>
+    <link rel=alternate type=application/feed+json href=feed.json>
+    <link rel="alternate" type="text/html" hreflang="de" href="/de/">
+    <link rel="alternate" type="application/rss+xml" href="/posts/index.xml">
+  </head>
+</html>`;
+
+describe("extractFeedLinks", () => {
+  it("returns advertised RSS, Atom, and JSON feeds resolved against the page", () => {
+    expect(extractFeedLinks(PAGE, "https://blog.example.com/home/")).toEqual([
+      "https://blog.example.com/posts/index.xml",
+      "https://cdn.example.com/atom.xml?a=1&b=2",
+      "https://blog.example.com/home/feed.json",
+    ]);
+  });
+
+  it("ignores pages without feed links", () => {
+    expect(extractFeedLinks("<html><head><title>Hi</title></head></html>", "https://blog.example.com")).toEqual([]);
+  });
+});
+
+describe("buildDiscoveryCandidates", () => {
+  it("tries advertised feeds before common paths and skips the broken URL", () => {
+    const candidates = buildDiscoveryCandidates("https://blog.example.com/feed", "https://blog.example.com/about", PAGE);
+
+    expect(candidates.slice(0, 3)).toEqual([
+      "https://blog.example.com/posts/index.xml",
+      "https://cdn.example.com/atom.xml?a=1&b=2",
+      "https://blog.example.com/feed.json",
+    ]);
+    expect(candidates).not.toContain("https://blog.example.com/feed");
+    expect(candidates).toHaveLength(3 + COMMON_FEED_PATHS.length - 1);
+  });
+});
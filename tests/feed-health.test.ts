@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import * as fs from "node:fs/promises";
+import {
+  classifyFeedHealth,
+  DEFAULT_FEED_HEALTH_THRESHOLDS,
+  FeedHealthStore,
+  formatFeedHealthReport,
+  observeFeedResult,
+  type FeedHealthEntry,
+} from "../src/feed-health.js";
+import { FeedFetchError } from "../src/rss-parser.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2025-12-01T00:00:00.000Z");
+
+function daysAgo(days: number): string {
+  return new Date(NOW - days * DAY_MS).toISOString();
+}
+
+function entry(overrides: Partial<FeedHealthEntry>): FeedHealthEntry {
+  return {
+    feedUrl: "https://example.com/feed",
+    checks: [{ checkedAt: daysAgo(0), ok: true }],
+    consecutiveFailures: 0,
+    lastSuccessAt: daysAgo(0),
+    newestItemAt: daysAgo(3),
+    ...overrides,
+  };
+}
+
+describe("classifyFeedHealth", () => {
+  const thresholds = DEFAULT_FEED_HEALTH_THRESHOLDS;
+
+  it("separates dead feeds from recent failures", () => {
+    const failing = [1, 2, 3].map((day) => ({ checkedAt: daysAgo(day), ok: false, errorKind: "http-error" as const, httpStatus: 404 }));
+
+    expect(classifyFeedHealth(entry({ checks: failing, consecutiveFailures: 3, lastSuccessAt: daysAgo(60) }), thresholds, NOW)).toEqual({
+      status: "dead",
+      reason: "3 consecutive failures (latest: http-error, HTTP 404); last success 2025-10-02",
+    });
+    expect(classifyFeedHealth(entry({ checks: failing, consecutiveFailures: 3, lastSuccessAt: daysAgo(5) }), thresholds, NOW).status).toBe(
+      "flaky",
+    );
+  });
+
+  it("classifies moved, flaky, dormant and healthy feeds", () => {
+    const mixed = [
+      { checkedAt: daysAgo(3), ok: false, errorKind: "timeout" as const },
+      { checkedAt: daysAgo(2), ok: true },
+      { checkedAt: daysAgo(1), ok: false, errorKind: "timeout" as const },
+      { checkedAt: daysAgo(0), ok: true },
+    ];
+
+    expect(classifyFeedHealth(entry({ movedTo: "https://example.com/rss.xml" }), thresholds, NOW).status).toBe("moved");
+    expect(classifyFeedHealth(entry({ checks: mixed }), thresholds, NOW)).toEqual({
+      status: "flaky",
+      reason: "2 of the last 4 checks failed",
+    });
+    expect(classifyFeedHealth(entry({ newestItemAt: daysAgo(400) }), thresholds, NOW).status).toBe("dormant");
+    expect(classifyFeedHealth(entry({ newestItemAt: daysAgo(400) }), { ...thresholds, dormantAfterDays: 500 }, NOW).status).toBe(
+      "healthy",
+    );
+  });
+});
+
+describe("FeedHealthStore", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-health-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("persists checks across runs and reports the most urgent feeds first", async () => {
+    const filePath = path.join(tempDir, "feed-health.json");
+    let currentTime = NOW - 10 * DAY_MS;
+    const store = await FeedHealthStore.load(filePath, { clock: () => currentTime });
+    store.record({ feedUrl: "https://a.example/feed", ok: true, newestItemAt: daysAgo(12) });
+    store.record({ feedUrl: "https://b.example/feed", ok: true, newestItemAt: daysAgo(12) });
+    await store.save();
+
+    const reloaded = await FeedHealthStore.load(filePath, { clock: () => currentTime });
+    for (let run = 0; run < 4; run += 1) {
+      currentTime += DAY_MS;
+      reloaded.record({ feedUrl: "https://a.example/feed", ok: true, newestItemAt: daysAgo(20) });
+      reloaded.record({ feedUrl: "https://b.example/feed", ok: false, errorKind: "http-error", httpStatus: 410 });
+    }
+
+    expect(reloaded.get("https://a.example/feed")).toMatchObject({ newestItemAt: daysAgo(12), consecutiveFailures: 0 });
+    const report = reloaded.report({ ...DEFAULT_FEED_HEALTH_THRESHOLDS, deadAfterDays: 3 });
+    expect(report.map((feed) => [feed.feedUrl, feed.status])).toEqual([
+      ["https://b.example/feed", "dead"],
+      ["https://a.example/feed", "healthy"],
+    ]);
+    expect(report[0]).toMatchObject({ checks: 5, recentFailures: 4, lastErrorKind: "http-error", lastHttpStatus: 410 });
+    expect(formatFeedHealthReport(report, DEFAULT_FEED_HEALTH_THRESHOLDS)).toContain(
+      "Feed health for 2 feeds: dead 1, moved 0, flaky 0, dormant 0, healthy 1.",
+    );
+  });
+});
+
+describe("observeFeedResult", () => {
+  it("records fetch errors, redirects and the newest post", () => {
+    const error = new FeedFetchError("Feed responded with HTTP 404", "http-error", { status: 404 });
+
+    expect(observeFeedResult({ feedUrl: "https://example.com/feed", status: "rejected", error })).toEqual({
+      feedUrl: "https://example.com/feed",
+      ok: false,
+      errorKind: "http-error",
+      httpStatus: 404,
+    });
+    expect(
+      observeFeedResult({
+        feedUrl: "https://example.com/feed",
+        status: "fulfilled",
+        feed: {
+          items: [
+            { title: "Old", link: "https://example.com/old", publishedAt: "2025-01-01T00:00:00.000Z" },
+            { title: "New", link: "https://example.com/new", publishedAt: "2025-11-07T18:00:00.000Z" },
+          ],
+          fetchInfo: { cacheStatus: "downloaded", permanentRedirect: "https://example.com/rss.xml" },
+        },
+      }),
+    ).toEqual({
+      feedUrl: "https://example.com/feed",
+      ok: true,
+      movedTo: "https://example.com/rss.xml",
+      newestItemAt: "2025-11-07T18:00:00.000Z",
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import * as fs from "node:fs/promises";
+import { FirstSeenLedger } from "../src/first-seen-ledger.js";
+
+describe("FirstSeenLedger", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-first-seen-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("keeps the first sighting of each post across runs", async () => {
+    const filePath = path.join(tempDir, "first-seen.json");
+    let currentTime = Date.parse("2025-11-01T00:00:00.000Z");
+    const ledger = await FirstSeenLedger.load(filePath, { clock: () => currentTime });
+
+    expect(ledger.firstSeen({ guid: "post-1", link: "https://example.com/one" }).toISOString()).toBe("2025-11-01T00:00:00.000Z");
+    await ledger.save();
+
+    currentTime = Date.parse("2025-12-01T00:00:00.000Z");
+    const reloaded = await FirstSeenLedger.load(filePath, { clock: () => currentTime });
+    expect(reloaded.size).toBe(1);
+    expect(reloaded.firstSeen({ guid: "post-1", link: "https://example.com/moved" }).toISOString()).toBe("2025-11-01T00:00:00.000Z");
+    expect(reloaded.firstSeen({ link: "https://example.com/two" }).toISOString()).toBe("2025-12-01T00:00:00.000Z");
+  });
+
+  it("ignores payloads from other state file versions", async () => {
+    const filePath = path.join(tempDir, "first-seen.json");
+    await fs.writeFile(filePath, JSON.stringify({ version: 999, entries: [{ id: "link:x", link: "x", firstSeenAt: "2020-01-01" }] }));
+
+    const ledger = await FirstSeenLedger.load(filePath);
+    expect(ledger.size).toBe(0);
+  });
+});
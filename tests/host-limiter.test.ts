@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { HostLimiter, parseRetryAfter } from "../src/host-limiter.js";
+
+function createFakeTime() {
+  let now = 0;
+  const sleeps: number[] = [];
+  return {
+    clock: () => now,
+    sleep: async (milliseconds: number) => {
+      sleeps.push(milliseconds);
+      now += milliseconds;
+    },
+    sleeps,
+  };
+}
+
+describe("HostLimiter", () => {
+  it("shares one bucket across a platform's subdomains and applies overrides", () => {
+    const limiter = new HostLimiter({ limits: { "medium.com": { concurrency: 3 }, "*": { concurrency: 4 } } });
+
+    expect(limiter.resolve("https://swiftwithmajid.medium.com/feed")).toEqual({
+      key: "medium.com",
+      limit: { concurrency: 3, minDelayMs: 1000 },
+    });
+    expect(limiter.resolve("https://example.com/feed")).toEqual({
+      key: "example.com",
+      limit: { concurrency: 4, minDelayMs: 0 },
+    });
+  });
+
+  it("caps concurrent requests per host", async () => {
+    const limiter = new HostLimiter({ limits: { "example.com": { concurrency: 2 } } });
+    let active = 0;
+    let peak = 0;
+    const task = async () => {
+      active += 1;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      active -= 1;
+    };
+
+    await Promise.all([
+      ...Array.from({ length: 5 }, () => limiter.schedule("https://example.com/feed", task)),
+      limiter.schedule("https://other.example/feed", task),
+    ]);
+
+    expect(peak).toBe(3);
+  });
+
+  it("spaces request starts by the minimum delay and honours deferrals", async () => {
+    const time = createFakeTime();
+    const limiter = new HostLimiter({ limits: { "example.com": { concurrency: 2, minDelayMs: 500 } }, ...time });
+    const noop = async () => undefined;
+
+    await Promise.all([1, 2, 3].map(() => limiter.schedule("https://blog.example.com/feed", noop)));
+    expect(time.sleeps).toEqual([500, 500]);
+
+    limiter.defer("https://example.com/rss", 5000);
+    await limiter.schedule("https://example.com/rss", noop);
+    expect(time.sleeps.at(-1)).toBe(5000);
+  });
+});
+
+describe("parseRetryAfter", () => {
+  it("reads seconds and HTTP dates", () => {
+    const now = Date.parse("2025-11-07T18:00:00.000Z");
+
+    expect(parseRetryAfter("30", now)).toBe(30_000);
+    expect(parseRetryAfter("Fri, 07 Nov 2025 18:00:10 GMT", now)).toBe(10_000);
+    expect(parseRetryAfter("soon", now)).toBeUndefined();
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+  });
+});
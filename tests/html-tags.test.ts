@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { hasRel, readTags, resolveHttpUrl } from "../src/html-tags.js";
+
+describe("readTags", () => {
+  it("reads quoted, unquoted, and boolean attributes with decoded values", () => {
+    const html = `<head><LINK Rel="Alternate" TYPE=application/rss+xml href='/feed?a=1&amp;b=2&#38;c=&quot;3&quot;' title="It&rsquo;s &gt; &#x263A;"><link crossorigin href="/style.css"></head>`;
+
+    expect(readTags(html, "link")).toEqual([
+      { rel: "Alternate", type: "application/rss+xml", href: '/feed?a=1&b=2&c="3"', title: "It’s > ☺" },
+      { crossorigin: "", href: "/style.css" },
+    ]);
+  });
+
+  it("keeps a > inside quoted values and the first of repeated attributes", () => {
+    expect(readTags('<meta content="a > b" content="ignored" name=x>', "meta")).toEqual([{ content: "a > b", name: "x" }]);
+    expect(readTags("<linked-data><link-preview>", "link")).toEqual([]);
+  });
+});
+
+describe("hasRel", () => {
+  it("matches one link type in a space-separated rel value", () => {
+    expect(hasRel({ rel: "Canonical  shortlink" }, "canonical")).toBe(true);
+    expect(hasRel({ rel: "alternate-canonical" }, "canonical")).toBe(false);
+    expect(hasRel({}, "canonical")).toBe(false);
+  });
+});
+
+describe("resolveHttpUrl", () => {
+  it("resolves relative hrefs and drops non-web schemes", () => {
+    expect(resolveHttpUrl("../feed", "https://example.com/blog/post")).toBe("https://example.com/feed");
+    expect(resolveHttpUrl("javascript:void(0)", "https://example.com/")).toBeUndefined();
+    expect(resolveHttpUrl("http://[bad", "https://example.com/")).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { buildAnalysisText } from "../src/analyzer.js";
+import { decodeEntities, htmlToText } from "../src/html-text.js";
+import { fetchFeed } from "../src/rss-parser.js";
+
+const SWIFT_CODE_FEED = readFileSync(new URL("./fixtures/rss-swift-code.xml", import.meta.url), "utf8");
+const ENTITIES_FEED = readFileSync(new URL("./fixtures/rss-entities.xml", import.meta.url), "utf8");
+
+describe("decodeEntities", () => {
+  it("decodes named, decimal and hexadecimal entities", () => {
+    expect(decodeEntities("Tom &amp; Jerry &mdash; &#8220;quoted&#x201D; &hellip;")).toBe("Tom & Jerry — “quoted” …");
+  });
+
+  it("decodes Latin-1 and typographic names, keeping their case", () => {
+    expect(decodeEntities("&Eacute;t&eacute; &AElig;&aelig; &THORN;&thorn; &yuml;&Yuml; &AMP; &sbquo;&bdquo;&dagger;")).toBe(
+      "Été Ææ Þþ ÿŸ & ‚„†",
+    );
+    expect(decodeEntities("soft&shy;hyphen a&nbsp;b")).toBe("softhyphen a b");
+  });
+
+  it("leaves unknown and out-of-range entities untouched", () => {
+    expect(decodeEntities("&bogus; &#0; &#x110000;")).toBe("&bogus; &#0; &#x110000;");
+  });
+});
+
+describe("htmlToText", () => {
+  it("keeps paragraph breaks, headings, list items and link text", () => {
+    const html =
+      '<h2>Setup</h2><p>Install <a href="https://example.com">the toolchain</a>.<br>Then build.</p><ul><li>One</li><li>Two</li></ul>';
+
+    expect(htmlToText(html)).toBe("Setup\n\nInstall the toolchain.\nThen build.\n\n- One\n- Two");
+  });
+
+  it("drops scripts, styles, navigation, footers and comments", () => {
+    const html =
+      '<nav><a href="/">Home</a></nav><!-- tracking --><p>Body</p><script>var a = "<p>no</p>";</script><style>p{}</style><footer>Share</footer>';
+
+    expect(htmlToText(html)).toBe("Body");
+  });
+
+  it("summarizes code blocks with their language", () => {
+    expect(htmlToText('<pre><code class="language-swift">let a = 1\n\nprint(a)\n</code></pre>')).toBe("[swift code: 2 lines]");
+    expect(htmlToText("<pre>ls -la</pre>")).toBe("[code: 1 line]");
+  });
+
+  it("does not split words around inline markup", () => {
+    expect(htmlToText("<p>Use <code>coremltools</code>, then <strong>ship</strong>.</p>")).toBe("Use coremltools, then ship.");
+  });
+});
+
+describe("feed content", () => {
+  it("turns a real-world feed post into readable analysis text", async () => {
+    const fetcher: typeof fetch = async () =>
+      new Response(SWIFT_CODE_FEED, { status: 200, headers: { "Content-Type": "application/rss+xml" } });
+
+    const feed = await fetchFeed("https://swift-by-example.example/feed.xml", { fetcher });
+
+    expect(buildAnalysisText(feed.items[0])).toBe(
+      [
+        "Streaming Core ML tokens into SwiftUI",
+        "Why stream?",
+        "Users don’t want to stare at a spinner while a 3 billion parameter model thinks — so we render tokens as they arrive.",
+        "The model runs through Core ML and the view observes an AsyncStream:",
+        "[swift code: 4 lines]",
+        "What you need",
+        "- Xcode 16\n- An iPhone with an A17 Pro & 8 GB of RAM",
+      ].join("\n\n"),
+    );
+  });
+
+  it("decodes accented and typographic entities in a French feed post", async () => {
+    const fetcher: typeof fetch = async () =>
+      new Response(ENTITIES_FEED, { status: 200, headers: { "Content-Type": "application/rss+xml" } });
+
+    const feed = await fetchFeed("https://amelie.example/feed.xml", { fetcher });
+
+    expect(feed.title).toBe("Le Blog d’Amélie");
+    expect(buildAnalysisText(feed.items[0])).toBe(
+      [
+        "Core ML sur l’iPhone : premières impressions",
+        "J’ai testé un modèle de 3 Go sur l’iPhone… « Ça marche », dit François.",
+        "München – Zürich — São Paulo: “naïve” cafés, Œuvre & Æsir, 25°C ± 2°, ½ × €10 ™.",
+        "Été 2025 • § 3 → résultats − 12‰.",
+      ].join("\n\n"),
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { isJsonFeed, parseJsonFeed } from "../src/json-feed.js";
+
+const JSON_FEED = readFileSync(new URL("./fixtures/json-feed.json", import.meta.url), "utf8");
+
+describe("isJsonFeed", () => {
+  it("detects JSON Feeds by content type or by sniffing the body", () => {
+    expect(isJsonFeed("not even json", "application/feed+json; charset=utf-8")).toBe(true);
+    expect(isJsonFeed(JSON_FEED, "application/json")).toBe(true);
+    expect(isJsonFeed(JSON_FEED, "text/xml")).toBe(true);
+    expect(isJsonFeed('{"items": []}', "application/json")).toBe(false);
+    expect(isJsonFeed("<rss></rss>", "application/rss+xml")).toBe(false);
+  });
+});
+
+describe("parseJsonFeed", () => {
+  it("maps JSON Feed items onto feed items", () => {
+    const feed = parseJsonFeed(JSON_FEED);
+
+    expect(feed.title).toBe("Swift Notes");
+    expect(feed.description).toBe("Short notes about Swift and iOS");
+    expect(feed.items).toEqual([
+      {
+        title: "Running LLMs on device with Core ML",
+        link: "https://notes.example.com/on-device-llms",
+        guid: "https://notes.example.com/on-device-llms",
+        description: "Converting a small language model for Core ML.",
+        content: "<p>Converting a small language model with <code>coremltools</code>.</p>",
+        publishedAt: "2025-11-03T08:30:00.000Z",
+      },
+      {
+        title: "Linked: what is new in Swift 6",
+        link: "https://swift.org/blog/swift-6",
+        guid: "42",
+        description: "Linked: what is new in Swift 6\nStrict concurrency by default.",
+        content: "Linked: what is new in Swift 6\nStrict concurrency by default.",
+        publishedAt: "2025-10-20T12:00:00.000Z",
+      },
+    ]);
+  });
+
+  it("rejects documents that are not JSON Feeds", () => {
+    expect(() => parseJsonFeed('{"items": []}')).toThrow("Missing JSON Feed version");
+    expect(() => parseJsonFeed('{"version": "https://jsonfeed.org/version/1.1"}')).toThrow("no items array");
+  });
+});
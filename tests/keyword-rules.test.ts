@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import { compileRuleSet, createKeywordRuleSet, KeywordRuleError } from "../src/keyword-rules.js";
+
+describe("compileRuleSet", () => {
+  it("sums include weights and compares them against the minimum score", () => {
+    const rules = compileRuleSet({
+      minScore: 2,
+      rules: [
+        { pattern: "swiftui", weight: 1 },
+        { id: "perf", pattern: "(performance|hitches?)", regex: true, weight: 1.5, fields: ["title"] },
+      ],
+    });
+
+    expect(rules.evaluate({ title: "SwiftUI tips", body: "Fixing hitches" })).toEqual({
+      confirmed: false,
+      score: 1,
+      minScore: 2,
+      matches: [{ rule: "swiftui", kind: "include", field: "title", weight: 1 }],
+      vetoedBy: undefined,
+    });
+    expect(rules.evaluate({ title: "SwiftUI hitches" })).toMatchObject({ confirmed: true, score: 2.5 });
+  });
+
+  it("counts each rule once, on the first field that matches", () => {
+    const rules = compileRuleSet({ rules: [{ pattern: "realitykit", fields: ["reason", "body"] }] });
+
+    expect(rules.evaluate({ body: "RealityKit scenes", reason: "About RealityKit" }).matches).toEqual([
+      { rule: "realitykit", kind: "include", field: "reason", weight: 1 },
+    ]);
+  });
+
+  it("subtracts weighted excludes and vetoes on unweighted ones", () => {
+    const rules = compileRuleSet({
+      rules: [
+        { pattern: "accessibility", weight: 2 },
+        { pattern: "webinar", kind: "exclude", weight: 1.5 },
+        { pattern: "job opening", kind: "exclude" },
+      ],
+    });
+
+    expect(rules.evaluate({ title: "Accessibility webinar" })).toMatchObject({ confirmed: false, score: 0.5 });
+    expect(rules.evaluate({ title: "Job opening: accessibility lead" })).toMatchObject({
+      confirmed: false,
+      score: 2,
+      vetoedBy: "job opening",
+    });
+  });
+
+  it("checks excludes against the post only unless fields are given", () => {
+    const rules = compileRuleSet(createKeywordRuleSet(["visionos"], ["sponsored"]));
+
+    expect(rules.evaluate({ title: "visionOS windows", reason: "Not sponsored" }).confirmed).toBe(true);
+    expect(rules.evaluate({ title: "visionOS windows", body: "Sponsored post" }).vetoedBy).toBe("sponsored");
+  });
+
+  it("reports invalid regular expressions", () => {
+    expect(() => compileRuleSet({ rules: [{ id: "broken", pattern: "(", regex: true }] })).toThrow(KeywordRuleError);
+  });
+});
@@ -192,6 +192,142 @@ describe("OllamaClient", () => {
     await expect(client.analyze("Ambiguous content")).rejects.toThrowError(OllamaParseError);
   });
 
+  it("sends the decision schema as the format parameter", async () => {
+    const { mock, fetcher } = createMockFetcher(async () =>
+      createJsonResponse({
+        response: JSON.stringify({ relevant: true, confidence: 0.7, reason: "Core ML", tags: ["coreml"] }),
+      }),
+    );
+    const client = new OllamaClient({ fetcher, model: "llama3.1" });
+
+    const analysis = await client.analyze("Core ML on device");
+
+    const [, init] = mock.mock.calls[0];
+    const parsedBody = JSON.parse(init?.body ?? "{}");
+    expect(parsedBody.format).toMatchObject({ type: "object", required: ["relevant", "confidence", "reason", "tags"] });
+    expect(analysis.schemaViolation).toBe(false);
+    expect(analysis.tags).toEqual(["coreml"]);
+  });
+
+  it("flags replies that violate the schema but still parses them leniently", async () => {
+    const { fetcher } = createMockFetcher(async () =>
+      createJsonResponse({ response: 'Sure! {"relevant": true, "reason": "Uses Create ML"}' }),
+    );
+    const client = new OllamaClient({ fetcher, model: "llama3.1" });
+
+    const analysis = await client.analyze("Create ML tutorial");
+
+    expect(analysis.relevant).toBe(true);
+    expect(analysis.reason).toBe("Uses Create ML");
+    expect(analysis.schemaViolation).toBe(true);
+  });
+
+  it("retries without format when the server rejects it", async () => {
+    const { mock, fetcher } = createMockFetcher(async (_url, init) => {
+      const payload = JSON.parse(init?.body ?? "{}");
+      if (payload.format) {
+        return createJsonResponse(
+          { error: "invalid format: expected \"json\"" },
+          { ok: false, status: 400, statusText: "Bad Request", text: async () => 'invalid format: expected "json"' },
+        );
+      }
+      return createJsonResponse({ response: "YES" });
+    });
+    const client = new OllamaClient({ fetcher, model: "llama3.1" });
+
+    const first = await client.analyze("Vision framework update");
+    const second = await client.analyze("Another Vision post");
+
+    expect(first.relevant).toBe(true);
+    expect(first.schemaViolation).toBeUndefined();
+    expect(second.relevant).toBe(true);
+    // The rejection is remembered, so only the first analysis pays for the extra request.
+    expect(mock).toHaveBeenCalledTimes(3);
+  });
+
+  it("can use the chat endpoint", async () => {
+    const { mock, fetcher } = createMockFetcher(async () =>
+      createJsonResponse({
+        message: {
+          role: "assistant",
+          content: JSON.stringify({ relevant: false, confidence: 0.1, reason: "Marketing", tags: [] }),
+        },
+      }),
+    );
+    const client = new OllamaClient({ fetcher, model: "llama3.1", api: "chat" });
+
+    const analysis = await client.analyze("Launch marketing tips");
+
+    const [url, init] = mock.mock.calls[0];
+    expect(url).toBe("http://127.0.0.1:11434/api/chat");
+    const parsedBody = JSON.parse(init?.body ?? "{}");
+    expect(parsedBody.messages).toEqual([{ role: "user", content: expect.stringMatching(/Launch marketing tips/) }]);
+    expect(parsedBody.format).toBeDefined();
+    expect(analysis.relevant).toBe(false);
+    expect(analysis.schemaViolation).toBe(false);
+  });
+
+  it("builds the prompt from the topic profile and keeps only allowed tags", async () => {
+    const { mock, fetcher } = createMockFetcher(async () =>
+      createJsonResponse({
+        response: JSON.stringify({ relevant: true, confidence: 0.8, reason: "RealityKit", tags: ["realitykit", "vr"] }),
+      }),
+    );
+    const client = new OllamaClient({
+      fetcher,
+      model: "llama3.1",
+      topics: [
+        {
+          name: "visionos",
+          label: "visionOS",
+          instructions: ["Triage posts about visionOS development."],
+          rules: ["Hardware reviews are not relevant."],
+          keywords: ["visionos"],
+          allowedTags: ["visionos", "realitykit"],
+        },
+      ],
+    });
+
+    const analysis = await client.analyze("Immersive spaces with RealityKit");
+
+    const [, init] = mock.mock.calls[0];
+    const { prompt } = JSON.parse(init?.body ?? "{}");
+    expect(prompt).toMatch(/^Triage posts about visionOS development\./);
+    expect(prompt).toContain("- Hardware reviews are not relevant.");
+    expect(prompt).toContain("tags must be 1-3 keywords chosen from: visionos, realitykit.");
+    expect(prompt).not.toMatch(/developer-focused AI topics/);
+    expect(analysis.tags).toEqual(["realitykit"]);
+  });
+
+  it("classifies several topics in one call and returns a per-topic map", async () => {
+    const { mock, fetcher } = createMockFetcher(async () =>
+      createJsonResponse({
+        response: JSON.stringify({
+          topics: { ai: { relevant: false, confidence: 0.2 }, visionos: { relevant: true, confidence: 0.85 } },
+          reason: "RealityKit immersive spaces",
+          tags: ["visionos"],
+        }),
+      }),
+    );
+    const topic = (name: string) => ({ name, label: name, instructions: [`Triage ${name} posts.`], rules: [], keywords: [name] });
+    const client = new OllamaClient({ fetcher, model: "llama3.1", topics: [topic("ai"), topic("visionos")] });
+
+    const analysis = await client.analyze("Immersive spaces with RealityKit");
+
+    const [, init] = mock.mock.calls[0];
+    const payload = JSON.parse(init?.body ?? "{}");
+    expect(payload.prompt).toContain('Topic "ai" (ai):\nTriage ai posts.');
+    expect(payload.prompt).toContain("Include every topic key exactly once: ai, visionos.");
+    expect(payload.format.properties.topics.required).toEqual(["ai", "visionos"]);
+    expect(analysis.topics).toEqual({
+      ai: { relevant: false, confidence: 0.2 },
+      visionos: { relevant: true, confidence: 0.85 },
+    });
+    expect(analysis.relevant).toBe(true);
+    expect(analysis.confidence).toBeCloseTo(0.85);
+    expect(analysis.schemaViolation).toBe(false);
+  });
+
   it("retries transient failures and eventually succeeds", async () => {
     const failures = [new TypeError("network down"), new TypeError("still down")];
     const fetcher = vi.fn<[string, FetchInit?], Promise<FetchResponse>>(async () => {
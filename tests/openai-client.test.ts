@@ -0,0 +1,85 @@
+import { describe, expect, it, vi } from "vitest";
+import { OpenAICompatibleClient } from "../src/openai-client.js";
+import { LlmRequestError, LlmUnavailableError, type FetchInit, type FetchResponse } from "../src/llm-client.js";
+import { OllamaClient } from "../src/ollama-client.js";
+import { createProviderClient } from "../src/providers.js";
+
+function createJsonResponse(body: unknown, overrides: Partial<FetchResponse> = {}): FetchResponse {
+  return {
+    ok: overrides.ok ?? true,
+    status: overrides.status ?? (overrides.ok === false ? 500 : 200),
+    statusText: overrides.statusText ?? "OK",
+    json: async () => body,
+    text: async () => (typeof body === "string" ? body : JSON.stringify(body)),
+  } satisfies FetchResponse;
+}
+
+function chatResponse(content: string): FetchResponse {
+  return createJsonResponse({ choices: [{ message: { role: "assistant", content } }] });
+}
+
+describe("OpenAICompatibleClient", () => {
+  it("posts the prompt to /chat/completions with the API key", async () => {
+    const fetcher = vi.fn<[string, FetchInit?], Promise<FetchResponse>>(async () =>
+      chatResponse(JSON.stringify({ relevant: true, confidence: 0.8, reason: "LLM tooling", tags: ["llm"] })),
+    );
+    const client = new OpenAICompatibleClient({
+      fetcher,
+      model: "qwen2.5-7b-instruct",
+      baseUrl: "http://localhost:1234/v1/",
+      apiKey: "secret",
+    });
+
+    const result = await client.analyze("Running LLMs locally for Swift code review");
+
+    expect(result).toMatchObject({ relevant: true, confidence: 0.8, reason: "LLM tooling", tags: ["llm"] });
+    const [url, init] = fetcher.mock.calls[0];
+    expect(url).toBe("http://localhost:1234/v1/chat/completions");
+    expect(init?.headers).toMatchObject({ Authorization: "Bearer secret", "Content-Type": "application/json" });
+    const payload = JSON.parse(init?.body ?? "{}");
+    expect(payload.model).toBe("qwen2.5-7b-instruct");
+    expect(payload.messages[0].content).toMatch(/Running LLMs locally/);
+  });
+
+  it("checks connectivity via /models without an API key", async () => {
+    const fetcher = vi.fn<[string, FetchInit?], Promise<FetchResponse>>(async () => createJsonResponse({ data: [] }));
+    const client = new OpenAICompatibleClient({ fetcher, model: "local" });
+
+    await expect(client.checkConnection()).resolves.toBe(true);
+    const [url, init] = fetcher.mock.calls[0];
+    expect(url).toBe("http://127.0.0.1:8080/v1/models");
+    expect(init?.headers).not.toHaveProperty("Authorization");
+  });
+
+  it("shares retry and graceful degradation behavior with other providers", async () => {
+    const fetcher = vi.fn<[string, FetchInit?], Promise<FetchResponse>>(async () =>
+      createJsonResponse("overloaded", { ok: false, status: 503, statusText: "Service Unavailable" }),
+    );
+    const client = new OpenAICompatibleClient({ fetcher, model: "local", maxRetries: 1, retryDelayMs: 0 });
+
+    await expect(client.analyze("Busy server")).rejects.toThrowError(LlmUnavailableError);
+    expect(fetcher).toHaveBeenCalledTimes(2);
+
+    const degraded = await client.analyze("Busy server", { gracefulDegradation: true });
+    expect(degraded).toMatchObject({ relevant: false, confidence: 0, degraded: true });
+  });
+
+  it("does not retry client errors", async () => {
+    const fetcher = vi.fn<[string, FetchInit?], Promise<FetchResponse>>(async () =>
+      createJsonResponse("unknown model", { ok: false, status: 404, statusText: "Not Found" }),
+    );
+    const client = new OpenAICompatibleClient({ fetcher, model: "missing" });
+
+    await expect(client.analyze("Anything")).rejects.toThrowError(LlmRequestError);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("createProviderClient", () => {
+  it("builds the backend registered for each provider name", () => {
+    expect(createProviderClient("ollama", { model: "llama3.1" })).toBeInstanceOf(OllamaClient);
+    expect(createProviderClient("openai", { model: "local", baseUrl: "http://localhost:8000/v1" })).toBeInstanceOf(
+      OpenAICompatibleClient,
+    );
+  });
+});
@@ -0,0 +1,79 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { extractFeedUrls, BlogDataError } from "../src/blogs.js";
+import { loadOpml, parseOpml, serializeOpml } from "../src/opml.js";
+
+const fixturesDir = path.dirname(fileURLToPath(new URL("./fixtures/feeds.opml", import.meta.url)));
+const opmlPath = path.join(fixturesDir, "feeds.opml");
+
+describe("loadOpml", () => {
+  it("maps folders to categories in a single language group", async () => {
+    const blogs = await loadOpml(opmlPath);
+
+    expect(blogs).toHaveLength(1);
+    expect(blogs[0]).toMatchObject({ language: "en", title: "Team feeds" });
+    expect(blogs[0].categories.map((category) => [category.title, category.slug])).toEqual([
+      ["Uncategorized", "uncategorized"],
+      ["Indie", "indie"],
+      ["Swift & SwiftUI", "swift-swiftui"],
+    ]);
+    expect(blogs[0].categories[1].sites).toEqual([
+      {
+        title: "Integration Blog",
+        author: "",
+        site_url: "https://integration.example",
+        feed_url: "https://integration.example/feed",
+      },
+    ]);
+  });
+
+  it("keeps category filters working and normalizes feed URLs", async () => {
+    const blogs = await loadOpml(opmlPath);
+
+    expect(extractFeedUrls(blogs, { languages: ["en"], categories: ["indie", "swift & swiftui"] })).toEqual([
+      "https://integration.example/feed",
+      "https://nested.example/rss",
+    ]);
+  });
+
+  it("reports unreadable and malformed files", async () => {
+    await expect(loadOpml(path.join(fixturesDir, "missing.opml"))).rejects.toMatchObject({ kind: "read-error" });
+    await expect(loadOpml(path.join(fixturesDir, "not-json.txt"))).rejects.toBeInstanceOf(BlogDataError);
+    expect(() => parseOpml('<opml><body><outline text="Open"></body></opml>')).toThrow(/Unclosed <outline>/);
+  });
+
+  it("leaves out-of-range character references undecoded", () => {
+    const [directory] = parseOpml(
+      '<opml><body><outline text="Bad &#x110000; ref &#233;" type="rss" xmlUrl="https://example.com/feed"/></body></opml>',
+    );
+
+    expect(directory.categories[0].sites[0].title).toBe("Bad &#x110000; ref é");
+  });
+
+  it("gives non-Latin and symbol-only folders distinct slugs", () => {
+    const [directory] = parseOpml(
+      [
+        "<opml><body>",
+        '<outline text="日本語"><outline text="A" type="rss" xmlUrl="https://a.example.com/feed"/></outline>',
+        '<outline text="Русский"><outline text="B" type="rss" xmlUrl="https://b.example.com/feed"/></outline>',
+        '<outline text="🍎"><outline text="C" type="rss" xmlUrl="https://c.example.com/feed"/></outline>',
+        '<outline text="★"><outline text="D" type="rss" xmlUrl="https://d.example.com/feed"/></outline>',
+        "</body></opml>",
+      ].join(""),
+    );
+
+    expect(directory.categories.map((category) => category.slug)).toEqual(["日本語", "русский", "category-3", "category-4"]);
+  });
+});
+
+describe("serializeOpml", () => {
+  it("round-trips categories and escapes attribute values", async () => {
+    const blogs = await loadOpml(opmlPath);
+    const xml = serializeOpml(blogs, { title: "Export", dateCreated: new Date("2025-11-01T00:00:00.000Z") });
+
+    expect(xml).toContain("<dateCreated>Sat, 01 Nov 2025 00:00:00 GMT</dateCreated>");
+    expect(xml).toContain('<outline text="Swift &amp; SwiftUI" title="Swift &amp; SwiftUI">');
+    expect(parseOpml(xml)[0].categories).toEqual(blogs[0].categories);
+  });
+});
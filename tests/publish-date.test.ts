@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { parseDateFromUrl, parsePublishDate, resolvePublishDate } from "../src/publish-date.js";
+
+function iso(value: string | undefined): string | undefined {
+  return parsePublishDate(value)?.toISOString();
+}
+
+describe("parsePublishDate", () => {
+  it("parses RFC 822 and ISO 8601 dates", () => {
+    expect(iso("Sun, 08 Jun 2025 10:00:00 GMT")).toBe("2025-06-08T10:00:00.000Z");
+    expect(iso("2025-06-08T10:00:00+02:00")).toBe("2025-06-08T08:00:00.000Z");
+  });
+
+  it("reads zone-less and space-separated timestamps as UTC", () => {
+    expect(iso("2025-06-08 14:30:00")).toBe("2025-06-08T14:30:00.000Z");
+    expect(iso("2025-06-08")).toBe("2025-06-08T00:00:00.000Z");
+  });
+
+  it("parses dotted day-first dates and Unix timestamps", () => {
+    expect(iso("08.06.2025")).toBe("2025-06-08T00:00:00.000Z");
+    expect(iso("8. 6. 2025, 09:15")).toBe("2025-06-08T09:15:00.000Z");
+    expect(iso("1749376800")).toBe("2025-06-08T10:00:00.000Z");
+  });
+
+  it("understands zone abbreviations, ordinals and trailing zone comments", () => {
+    expect(iso("Sun, 8 Jun 2025 10:00:00 CEST")).toBe("2025-06-08T08:00:00.000Z");
+    expect(iso("Sun, 08 Jun 2025 10:00:00 +0200 (CEST)")).toBe("2025-06-08T08:00:00.000Z");
+    expect(iso("Sun, 8 Jun 2025 18:00:00 JST")).toBe("2025-06-08T09:00:00.000Z");
+    expect(iso("June 8th, 2025 10:00 UTC")).toBe("2025-06-08T10:00:00.000Z");
+  });
+
+  it("translates month names from other languages", () => {
+    expect(iso("8 juin 2025 10:00 UTC")).toBe("2025-06-08T10:00:00.000Z");
+    expect(iso("8. März 2025 10:00 UTC")).toBe("2025-03-08T10:00:00.000Z");
+    expect(iso("8 de junio de 2025 10:00 UTC")).toBe("2025-06-08T10:00:00.000Z");
+    expect(iso("8 févr. 2025 10:00 UTC")).toBe("2025-02-08T10:00:00.000Z");
+  });
+
+  it("rejects empty, unparseable and implausible values", () => {
+    expect(parsePublishDate(undefined)).toBeUndefined();
+    expect(parsePublishDate("  ")).toBeUndefined();
+    expect(parsePublishDate("yesterday-ish")).toBeUndefined();
+    expect(parsePublishDate("0")).toBeUndefined();
+  });
+});
+
+describe("parseDateFromUrl", () => {
+  it("reads dates from permalink paths", () => {
+    expect(parseDateFromUrl("https://example.com/2025/06/08/core-ml/")?.toISOString()).toBe("2025-06-08T00:00:00.000Z");
+    expect(parseDateFromUrl("https://example.com/blog/2025/06/core-ml")?.toISOString()).toBe("2025-06-01T00:00:00.000Z");
+    expect(parseDateFromUrl("https://example.com/posts/2025-06-08-core-ml")?.toISOString()).toBe("2025-06-08T00:00:00.000Z");
+  });
+
+  it("ignores numbers that are not dates", () => {
+    expect(parseDateFromUrl("https://example.com/posts/12345")).toBeUndefined();
+    expect(parseDateFromUrl("https://example.com/2025/02/31/typo")).toBeUndefined();
+    expect(parseDateFromUrl("https://example.com/iphone-2025-review")).toBeUndefined();
+    expect(parseDateFromUrl("not a url")).toBeUndefined();
+  });
+});
+
+describe("resolvePublishDate", () => {
+  const firstSeen = () => new Date("2025-12-01T00:00:00.000Z");
+
+  it("prefers the feed date, then the URL, then the first-seen date", () => {
+    expect(resolvePublishDate({ link: "https://example.com/2025/06/08/a", publishedAt: "2025-06-09" }, firstSeen)).toEqual({
+      date: new Date("2025-06-09T00:00:00.000Z"),
+      source: "feed",
+    });
+    expect(resolvePublishDate({ link: "https://example.com/2025/06/08/a", publishedAt: "soon" }, firstSeen)).toEqual({
+      date: new Date("2025-06-08T00:00:00.000Z"),
+      source: "url",
+    });
+    expect(resolvePublishDate({ link: "https://example.com/a" }, firstSeen)).toEqual({
+      date: new Date("2025-12-01T00:00:00.000Z"),
+      source: "first-seen",
+    });
+    expect(resolvePublishDate({ link: "https://example.com/a" })).toBeUndefined();
+  });
+});
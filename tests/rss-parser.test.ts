@@ -2,7 +2,9 @@ import { readFileSync } from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 import { describe, expect, it } from "vitest";
-import { fetchFeed, FeedFetchError } from "../src/rss-parser.js";
+import { fetchFeed, fetchPage, FeedFetchError } from "../src/rss-parser.js";
+import { FeedCache } from "../src/feed-cache.js";
+import { HostLimiter } from "../src/host-limiter.js";
 
 const fixturesDir = path.dirname(fileURLToPath(new URL("./fixtures/atom-sample.xml", import.meta.url)));
 const atomFeedPath = path.join(fixturesDir, "atom-sample.xml");
@@ -47,6 +49,29 @@ describe("fetchFeed", () => {
     });
   });
 
+  it("normalizes non-standard and dc:date publish dates", async () => {
+    const xml = `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:dc="http://purl.org/dc/elements/1.1/">
+  <channel>
+    <title>Odd dates</title>
+    <item><title>Zone abbreviation</title><link>https://example.com/cest</link><pubDate>Sun, 8 Jun 2025 10:00:00 CEST</pubDate></item>
+    <item><title>Dublin Core</title><link>https://example.com/dc</link><dc:date>2025-06-08 14:30:00</dc:date></item>
+    <item><title>Localized</title><link>https://example.com/fr</link><pubDate>8 juin 2025</pubDate></item>
+    <item><title>Unparseable</title><link>https://example.com/soon</link><pubDate>soon</pubDate></item>
+  </channel>
+</rss>`;
+    const fetcher: typeof fetch = async () => new Response(xml, { status: 200, headers: { "Content-Type": "application/rss+xml" } });
+
+    const feed = await fetchFeed("https://example.com/feed", { fetcher });
+
+    expect(feed.items.map((item) => item.publishedAt)).toEqual([
+      "2025-06-08T08:00:00.000Z",
+      "2025-06-08T14:30:00.000Z",
+      new Date("8 Jun 2025").toISOString(),
+      "soon",
+    ]);
+  });
+
   it("throws an error for HTTP failures", async () => {
     const fetcher: typeof fetch = async () =>
       new Response("Internal Server Error", {
@@ -56,9 +81,55 @@ describe("fetchFeed", () => {
 
     await expect(fetchFeed("https://example.com/missing", { fetcher })).rejects.toMatchObject({
       kind: "http-error",
+      status: 500,
     });
   });
 
+  it("waits out Retry-After on 429 responses before retrying", async () => {
+    const sleeps: number[] = [];
+    const hostLimiter = new HostLimiter({
+      sleep: async (milliseconds) => {
+        sleeps.push(milliseconds);
+      },
+    });
+    let calls = 0;
+    const fetcher: typeof fetch = async () => {
+      calls += 1;
+      return calls === 1
+        ? new Response("Too Many Requests", { status: 429, headers: { "Retry-After": "2" } })
+        : new Response(SAMPLE_FEED, { status: 200 });
+    };
+
+    const feed = await fetchFeed("https://example.com/feed", { fetcher, hostLimiter });
+
+    expect(feed.items).toHaveLength(1);
+    expect(calls).toBe(2);
+    expect(sleeps).toHaveLength(1);
+    expect(sleeps[0]).toBeGreaterThan(1900);
+  });
+
+  it("gives up when Retry-After asks for too long a pause", async () => {
+    const fetcher: typeof fetch = async () =>
+      new Response("Too Many Requests", { status: 429, headers: { "Retry-After": "3600" } });
+
+    await expect(fetchFeed("https://example.com/feed", { fetcher })).rejects.toMatchObject({ kind: "http-error", status: 429 });
+  });
+
+  it("reports chains of permanent redirects as the feed's new URL", async () => {
+    const redirects: Record<string, Response> = {
+      "https://example.com/feed": new Response(null, { status: 301, headers: { Location: "/rss.xml" } }),
+      "https://example.com/old": new Response(null, { status: 302, headers: { Location: "https://example.com/rss.xml" } }),
+    };
+    const fetcher: typeof fetch = async (input) => redirects[String(input)] ?? new Response(SAMPLE_FEED, { status: 200 });
+
+    const moved = await fetchFeed("https://example.com/feed", { fetcher });
+    const temporary = await fetchFeed("https://example.com/old", { fetcher });
+
+    expect(moved.fetchInfo?.permanentRedirect).toBe("https://example.com/rss.xml");
+    expect(moved.items).toHaveLength(1);
+    expect(temporary.fetchInfo?.permanentRedirect).toBeUndefined();
+  });
+
   it("parses an Atom feed and normalises entries", async () => {
     const atomXml = readFileSync(atomFeedPath, "utf8");
     const fetcher: typeof fetch = async () =>
@@ -79,6 +150,40 @@ describe("fetchFeed", () => {
     });
   });
 
+  it("decodes feeds in the charset their XML declaration names", async () => {
+    const latin1Feed = SAMPLE_FEED.replace('encoding="UTF-8"', 'encoding="ISO-8859-1"').replace("First Post", "Caf\xe9 notes");
+    const fetcher: typeof fetch = async () =>
+      new Response(Uint8Array.from(latin1Feed, (character) => character.charCodeAt(0)), {
+        status: 200,
+        headers: { "Content-Type": "application/rss+xml" },
+      });
+
+    const feed = await fetchFeed("https://example.com/feed", { fetcher });
+
+    expect(feed.items[0].title).toBe("Café notes");
+    expect(feed.fetchInfo?.encoding).toBe("windows-1252");
+  });
+
+  it("parses JSON Feeds served as feed+json or sniffed from the body", async () => {
+    const jsonFeed = readFileSync(path.join(fixturesDir, "json-feed.json"), "utf8");
+    const contentTypes = ["application/feed+json", "text/plain"];
+
+    for (const contentType of contentTypes) {
+      const fetcher: typeof fetch = async () => new Response(jsonFeed, { status: 200, headers: { "Content-Type": contentType } });
+      const feed = await fetchFeed("https://notes.example.com/feed.json", { fetcher });
+
+      expect(feed.title).toBe("Swift Notes");
+      expect(feed.items.map((item) => item.link)).toEqual(["https://notes.example.com/on-device-llms", "https://swift.org/blog/swift-6"]);
+    }
+  });
+
+  it("reports malformed JSON Feeds as parse errors", async () => {
+    const fetcher: typeof fetch = async () =>
+      new Response("{ not json", { status: 200, headers: { "Content-Type": "application/feed+json" } });
+
+    await expect(fetchFeed("https://notes.example.com/feed.json", { fetcher })).rejects.toMatchObject({ kind: "parse-error" });
+  });
+
   it("throws an error for invalid URLs", async () => {
     await expect(fetchFeed("notaurl")).rejects.toMatchObject({
       kind: "invalid-url",
@@ -120,4 +225,152 @@ describe("fetchFeed", () => {
       kind: "parse-error",
     });
   });
+
+  it("stores validators and revalidates cached feeds with conditional requests", async () => {
+    let currentTime = Date.parse("2025-12-05T00:00:00.000Z");
+    const cache = new FeedCache("unused.json", { ttlMs: 0, clock: () => currentTime });
+    const requests: Array<Record<string, string>> = [];
+    const fetcher: typeof fetch = async (_url, init) => {
+      const headers = (init?.headers ?? {}) as Record<string, string>;
+      requests.push(headers);
+      if (headers["if-none-match"] === '"v1"') {
+        return new Response(null, { status: 304 });
+      }
+      return new Response(SAMPLE_FEED, {
+        status: 200,
+        headers: { ETag: '"v1"', "Last-Modified": "Fri, 07 Nov 2025 18:00:00 GMT" },
+      });
+    };
+
+    const first = await fetchFeed("https://example.com/feed", { fetcher, cache });
+    currentTime += 1000;
+    const second = await fetchFeed("https://example.com/feed", { fetcher, cache });
+
+    expect(first.fetchInfo?.cacheStatus).toBe("downloaded");
+    expect(second.fetchInfo?.cacheStatus).toBe("revalidated");
+    expect(second.items).toEqual(first.items);
+    expect(requests[0]["if-none-match"]).toBeUndefined();
+    expect(requests[1]).toMatchObject({
+      "if-none-match": '"v1"',
+      "if-modified-since": "Fri, 07 Nov 2025 18:00:00 GMT",
+    });
+    expect(cache.get("https://example.com/feed")?.fetchedAt).toBe("2025-12-05T00:00:01.000Z");
+  });
+
+  it("serves fresh cache entries without hitting the network", async () => {
+    const cache = new FeedCache("unused.json", { ttlMs: 60_000 });
+    let calls = 0;
+    const fetcher: typeof fetch = async () => {
+      calls += 1;
+      return new Response(SAMPLE_FEED, { status: 200 });
+    };
+
+    await fetchFeed("https://example.com/feed", { fetcher, cache });
+    const cached = await fetchFeed("https://example.com/feed", { fetcher, cache });
+
+    expect(calls).toBe(1);
+    expect(cached.fetchInfo?.cacheStatus).toBe("hit");
+    expect(cached.title).toBe("Sample Feed");
+  });
+
+  it("discovers a working feed on the site when the feed URL serves HTML", async () => {
+    const requested: string[] = [];
+    const fetcher: typeof fetch = async (input) => {
+      const url = String(input);
+      requested.push(url);
+      if (url === "https://example.com/blog") {
+        return new Response('<html><head><link rel="alternate" type="application/rss+xml" href="/blog/rss"></head></html>', {
+          status: 200,
+          headers: { "Content-Type": "text/html" },
+        });
+      }
+      if (url === "https://example.com/blog/rss") {
+        return new Response(SAMPLE_FEED, { status: 200 });
+      }
+      return new Response("<html><body>Moved</body></html>", { status: 200, headers: { "Content-Type": "text/html" } });
+    };
+
+    const feed = await fetchFeed("https://example.com/old-feed", { fetcher, autodiscover: true, siteUrl: "https://example.com/blog" });
+
+    expect(feed.title).toBe("Sample Feed");
+    expect(feed.fetchInfo).toEqual({ cacheStatus: "downloaded", discoveredUrl: "https://example.com/blog/rss", encoding: "utf-8" });
+    expect(requested).toEqual(["https://example.com/old-feed", "https://example.com/blog", "https://example.com/blog/rss"]);
+  });
+
+  it("decodes the site's home page in its declared charset during discovery", async () => {
+    const homePage = '<html><head><link rel="alternate" type="application/rss+xml" href="/caf\xe9/rss"></head></html>';
+    const fetcher: typeof fetch = async (input) => {
+      const url = String(input);
+      if (url === "https://example.com") {
+        return new Response(Uint8Array.from(homePage, (character) => character.charCodeAt(0)), {
+          status: 200,
+          headers: { "Content-Type": "text/html; charset=iso-8859-1" },
+        });
+      }
+      if (url === "https://example.com/caf%C3%A9/rss") {
+        return new Response(SAMPLE_FEED, { status: 200 });
+      }
+      return new Response("Not Found", { status: 404 });
+    };
+
+    const feed = await fetchFeed("https://example.com/feed", { fetcher, autodiscover: true });
+
+    expect(feed.fetchInfo?.discoveredUrl).toBe("https://example.com/caf%C3%A9/rss");
+  });
+
+  it("falls back to common feed paths on the feed's origin", async () => {
+    const fetcher: typeof fetch = async (input) =>
+      String(input) === "https://example.com/index.xml"
+        ? new Response(SAMPLE_FEED, { status: 200 })
+        : new Response("Not Found", { status: 404 });
+
+    const feed = await fetchFeed("https://example.com/feeds/posts", { fetcher, autodiscover: true });
+
+    expect(feed.fetchInfo?.discoveredUrl).toBe("https://example.com/index.xml");
+  });
+
+  it("does not probe a throttled or failing host for other feed URLs", async () => {
+    for (const status of [429, 500, 502]) {
+      const requested: string[] = [];
+      const fetcher: typeof fetch = async (input) => {
+        requested.push(String(input));
+        return new Response("Unavailable", { status, headers: { "Retry-After": "3600" } });
+      };
+
+      await expect(fetchFeed("https://example.com/feed", { fetcher, autodiscover: true })).rejects.toMatchObject({
+        kind: "http-error",
+        status,
+      });
+      expect(requested).toEqual(["https://example.com/feed"]);
+    }
+  });
+
+  it("keeps the original error when discovery finds nothing or is disabled", async () => {
+    let calls = 0;
+    const fetcher: typeof fetch = async () => {
+      calls += 1;
+      return new Response("Not Found", { status: 404 });
+    };
+
+    await expect(fetchFeed("https://example.com/feed", { fetcher, autodiscover: true })).rejects.toThrow(
+      "Feed responded with HTTP 404 for https://example.com/feed",
+    );
+    expect(calls).toBeGreaterThan(1);
+
+    calls = 0;
+    await expect(fetchFeed("https://example.com/feed", { fetcher })).rejects.toMatchObject({ kind: "http-error" });
+    expect(calls).toBe(1);
+  });
+});
+
+describe("fetchPage", () => {
+  it("returns the decoded page and reports HTTP failures", async () => {
+    const fetcher: typeof fetch = async (input) =>
+      String(input).endsWith("/missing")
+        ? new Response("Not Found", { status: 404 })
+        : new Response("<article><p>Core ML</p></article>", { status: 200, headers: { "Content-Type": "text/html" } });
+
+    await expect(fetchPage("https://example.com/post", { fetcher })).resolves.toBe("<article><p>Core ML</p></article>");
+    await expect(fetchPage("https://example.com/missing", { fetcher })).rejects.toMatchObject({ kind: "http-error", status: 404 });
+  });
 });
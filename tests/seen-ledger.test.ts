@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import os from "node:os";
+import path from "node:path";
+import * as fs from "node:fs/promises";
+import { SeenLedger } from "../src/seen-ledger.js";
+
+describe("SeenLedger", () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), "ios-blogs-ledger-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it("identifies posts by GUID and falls back to links", () => {
+    const ledger = new SeenLedger(path.join(tempDir, "seen-posts.json"));
+    ledger.record({ guid: "post-1", link: "https://example.com/one" });
+    ledger.record({ link: "https://example.com/two" });
+
+    expect(ledger.has({ guid: "post-1", link: "https://example.com/moved" })).toBe(true);
+    expect(ledger.has({ guid: "post-2", link: "https://example.com/two" })).toBe(true);
+    expect(ledger.has({ link: "https://example.com/three" })).toBe(false);
+  });
+
+  it("persists entries and rewinds to a date", async () => {
+    const filePath = path.join(tempDir, "seen-posts.json");
+    let currentTime = Date.parse("2025-11-01T00:00:00.000Z");
+    const ledger = await SeenLedger.load(filePath, { clock: () => currentTime });
+    ledger.record({ link: "https://example.com/old" });
+    currentTime = Date.parse("2025-12-01T00:00:00.000Z");
+    ledger.record({ link: "https://example.com/new" });
+    await ledger.save();
+
+    const reloaded = await SeenLedger.load(filePath);
+    expect(reloaded.size).toBe(2);
+    expect(reloaded.rewind(new Date("2025-11-15T00:00:00.000Z"))).toBe(1);
+    expect(reloaded.has({ link: "https://example.com/old" })).toBe(true);
+    expect(reloaded.has({ link: "https://example.com/new" })).toBe(false);
+    expect(reloaded.rewind()).toBe(1);
+    expect(reloaded.size).toBe(0);
+  });
+});
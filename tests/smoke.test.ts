@@ -3,8 +3,9 @@ import { readFile, writeFile } from "node:fs/promises";
 import { main, parseArguments } from "../src/index.js";
 import type { BlogsDirectory } from "../src/types.js";
 import { extractFeedUrls, loadBlogs } from "../src/blogs.js";
-import { analyzeFeeds, DEFAULT_MONTH_WINDOW, DEFAULT_PARALLEL } from "../src/analyzer.js";
+import { analyzeFeeds, DEFAULT_LLM_PARALLEL, DEFAULT_MONTH_WINDOW, DEFAULT_PARALLEL } from "../src/analyzer.js";
 import { loadFilterConfig } from "../src/config.js";
+import { DEFAULT_TOPIC_PROFILE, loadDefaultTopicProfile } from "../src/topics.js";
 
 const { ollamaFactory } = vi.hoisted(() => ({
   ollamaFactory: {
@@ -26,6 +27,11 @@ vi.mock("../src/ollama-client.js", () => ({
   OllamaClient: vi.fn(() => ollamaFactory.createInstance()),
 }));
 vi.mock("../src/config.js");
+// node:fs/promises is mocked, so the default profile cannot be read from config/topics.
+vi.mock("../src/topics.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../src/topics.js")>()),
+  loadDefaultTopicProfile: vi.fn(),
+}));
 
 const mockedWriteFile = vi.mocked(writeFile);
 const mockedReadFile = vi.mocked(readFile);
@@ -34,6 +40,7 @@ const mockedLoadBlogs = vi.mocked(loadBlogs);
 const mockedExtractFeedUrls = vi.mocked(extractFeedUrls);
 const mockedAnalyzeFeeds = vi.mocked(analyzeFeeds);
 const mockedLoadFilterConfig = vi.mocked(loadFilterConfig);
+const mockedLoadDefaultTopicProfile = vi.mocked(loadDefaultTopicProfile);
 
 function createWriter() {
   const messages: string[] = [];
@@ -77,8 +84,13 @@ describe("parseArguments", () => {
     expect(parseArguments(["--max-blogs", "2", "--model", "llama3.1"])).toEqual({ maxBlogs: 2, model: "llama3.1" });
   });
 
-  it("parses --parallel when provided", () => {
-    expect(parseArguments(["--parallel", "4", "--model", "llama3.1"])).toEqual({ parallel: 4, model: "llama3.1" });
+  it("parses --fetch-parallel (or its --parallel alias) and --llm-parallel when provided", () => {
+    expect(parseArguments(["--parallel", "4", "--model", "llama3.1"])).toEqual({ fetchParallel: 4, model: "llama3.1" });
+    expect(parseArguments(["--fetch-parallel", "6", "--llm-parallel", "1", "--model", "llama3.1"])).toEqual({
+      fetchParallel: 6,
+      llmParallel: 1,
+      model: "llama3.1",
+    });
   });
 
   it("parses model and trims value", () => {
@@ -119,6 +131,32 @@ describe("parseArguments", () => {
     });
   });
 
+  it("collects repeated --blogs paths", () => {
+    expect(parseArguments(["--blogs", "team.json", "--blogs=blogs.json", "--blogs", "team.json", "--model", "llama3.1"])).toEqual({
+      blogs: ["team.json", "blogs.json"],
+      model: "llama3.1",
+    });
+    expect(() => parseArguments(["--blogs", "--model", "llama3.1"])).toThrow(/--blogs must be followed by a file path/);
+    expect(() => parseArguments(["--blogs", "a.json", "--retry-file", "retry.json", "--model", "x"])).toThrow(
+      /--blogs cannot be combined with --retry-file/,
+    );
+  });
+
+  it("parses OPML import and export arguments", () => {
+    expect(parseArguments(["--opml", "feeds.opml", "--export-opml", "relevant.opml", "--model", "llama3.1"])).toEqual({
+      opml: "feeds.opml",
+      exportOpml: "relevant.opml",
+      model: "llama3.1",
+    });
+    expect(parseArguments(["opml", "export", "--export-opml", "all.opml"])).toEqual({
+      command: "opml-export",
+      exportOpml: "all.opml",
+    });
+    expect(() => parseArguments(["--opml", "feeds.opml", "--retry-file", "retry.json", "--model", "x"])).toThrow(
+      /--opml cannot be combined with --retry-file/,
+    );
+  });
+
   it("parses --perf-log argument", () => {
     expect(parseArguments(["--perf-log", "perf.json", "--model", "llama3.1"])).toEqual({
       perfLog: "perf.json",
@@ -126,6 +164,119 @@ describe("parseArguments", () => {
     });
   });
 
+  it("parses --state-dir argument", () => {
+    expect(parseArguments(["--state-dir", ".state", "--model", "llama3.1"])).toEqual({
+      stateDir: ".state",
+      model: "llama3.1",
+    });
+  });
+
+  it("parses --no-analysis-cache switch", () => {
+    expect(parseArguments(["--no-analysis-cache", "--model", "llama3.1"])).toEqual({
+      analysisCache: false,
+      model: "llama3.1",
+    });
+  });
+
+  it("parses --no-autodiscover switch", () => {
+    expect(parseArguments(["--no-autodiscover", "--model", "llama3.1"])).toEqual({
+      autodiscover: false,
+      model: "llama3.1",
+    });
+  });
+
+  it("parses repeated --host-limit options", () => {
+    expect(
+      parseArguments(["--host-limit", "Medium.com=1/2000", "--host-limit=*=4", "--model", "llama3.1"]),
+    ).toEqual({
+      hostLimits: { "medium.com": { concurrency: 1, minDelayMs: 2000 }, "*": { concurrency: 4 } },
+      model: "llama3.1",
+    });
+    expect(() => parseArguments(["--host-limit", "medium.com=0", "--model", "llama3.1"])).toThrow(/--host-limit must look like/);
+  });
+
+  it("parses full-article options", () => {
+    expect(parseArguments(["--full-articles", "--full-article-min-chars", "300", "--model", "llama3.1"])).toEqual({
+      fullArticles: true,
+      fullArticleMinChars: 300,
+      model: "llama3.1",
+    });
+    expect(() => parseArguments(["--full-article-min-chars", "0", "--model", "llama3.1"])).toThrow(/positive integer/);
+  });
+
+  it("parses the chunk cap", () => {
+    expect(parseArguments(["--max-chunks", "2", "--model", "llama3.1"])).toEqual({ maxChunks: 2, model: "llama3.1" });
+    expect(() => parseArguments(["--max-chunks", "0", "--model", "llama3.1"])).toThrow(/--max-chunks must be a positive integer/);
+  });
+
+  it("parses the cache prune command without requiring a model", () => {
+    expect(parseArguments(["cache", "prune", "--max-age-days", "7"])).toEqual({
+      command: "cache-prune",
+      maxAgeDays: 7,
+    });
+  });
+
+  it("parses --new-only and the ledger reset command", () => {
+    expect(parseArguments(["--new-only", "--model", "llama3.1"])).toEqual({ newOnly: true, model: "llama3.1" });
+    expect(parseArguments(["ledger", "reset", "--to", "2025-06-01"])).toEqual({ command: "ledger-reset", to: "2025-06-01" });
+  });
+
+  it("parses the feeds health command and its thresholds", () => {
+    expect(parseArguments(["feeds", "health", "--dead-after-failures", "5", "--dormant-after-days", "90"])).toEqual({
+      command: "feeds-health",
+      deadAfterFailures: 5,
+      dormantAfterDays: 90,
+    });
+    expect(() => parseArguments(["feeds", "health", "--flaky-failures", "0"])).toThrow(/--flaky-failures must be a positive integer/);
+  });
+
+  it("rejects invalid ledger reset dates", () => {
+    expect(() => parseArguments(["ledger", "reset", "--to", "someday"])).toThrow(/--to must be a valid date/);
+  });
+
+  it("parses provider selection options", () => {
+    expect(
+      parseArguments(["--provider", "OpenAI", "--base-url", "http://localhost:8080/v1", "--api-key", "key", "--model", "local"]),
+    ).toEqual({ provider: "openai", baseUrl: "http://localhost:8080/v1", apiKey: "key", model: "local" });
+  });
+
+  it("parses --topic as a comma-separated list", () => {
+    expect(parseArguments(["--topic", " VisionOS ", "--model", "llama3.1"])).toEqual({ topics: ["visionos"], model: "llama3.1" });
+    expect(parseArguments(["--topic", "ai, accessibility,ai", "--model", "llama3.1"])).toEqual({
+      topics: ["ai", "accessibility"],
+      model: "llama3.1",
+    });
+    expect(() => parseArguments(["--topic", " , ", "--model", "llama3.1"])).toThrow(/--topic must name at least one/);
+  });
+
+  it("parses several models and ensemble options", () => {
+    expect(
+      parseArguments(["--model", "llama3.1, qwq", "--ensemble-mode", "cascade", "--vote", "weighted", "--cascade-threshold", "0.8"]),
+    ).toEqual({ model: "llama3.1", models: ["llama3.1", "qwq"], ensembleMode: "cascade", vote: "weighted", cascadeThreshold: 0.8 });
+    expect(() => parseArguments(["--model", "a,b", "--vote", "plurality"])).toThrow(/--vote must be one of: majority, unanimous, weighted/);
+    expect(() => parseArguments(["--model", "a,b", "--cascade-threshold", "2"])).toThrow(/between 0 and 1/);
+    expect(() => parseArguments(["--model", "llama3.1", "--vote", "majority"])).toThrow(/require several --model values/);
+  });
+
+  it("parses the evaluate command", () => {
+    expect(parseArguments(["evaluate", "--dataset", "labels.json", "--results", "out.json", "--model", "llama3.1"])).toEqual({
+      command: "evaluate",
+      dataset: "labels.json",
+      results: "out.json",
+      model: "llama3.1",
+    });
+    expect(() => parseArguments(["evaluate", "--model", "llama3.1"])).toThrow(/evaluate requires --dataset/);
+    expect(() => parseArguments(["evaluate", "--dataset", "labels.json"])).toThrow(/--model is required/);
+  });
+
+  it("rejects unknown providers", () => {
+    expect(() => parseArguments(["--provider", "bard", "--model", "x"])).toThrow(/--provider must be one of: ollama, openai/);
+  });
+
+  it("rejects unknown commands", () => {
+    expect(() => parseArguments(["cache", "explode"])).toThrow(/Unknown command: cache explode/);
+  });
+
   it("parses --months when provided", () => {
     expect(parseArguments(["--months", "6", "--model", "llama3.1"])).toEqual({ months: 6, model: "llama3.1" });
   });
@@ -143,7 +294,8 @@ describe("parseArguments", () => {
   });
 
   it("rejects invalid --parallel values", () => {
-    expect(() => parseArguments(["--parallel", "0"])).toThrow(/--parallel must be a positive integer/);
+    expect(() => parseArguments(["--parallel", "0"])).toThrow(/--fetch-parallel must be a positive integer/);
+    expect(() => parseArguments(["--llm-parallel", "1.5"])).toThrow(/--llm-parallel must be a positive integer/);
   });
 
   it("rejects empty model values", () => {
@@ -161,6 +313,26 @@ describe("parseArguments", () => {
   it("rejects invalid --months values", () => {
     expect(() => parseArguments(["--months", "0"])).toThrow(/--months must be a positive integer/);
   });
+
+  it("parses --since, --until and --time-zone", () => {
+    expect(parseArguments(["--since", "last-week", "--time-zone", "Europe/Rome", "--model", "llama3.1"])).toEqual({
+      since: { kind: "preset", preset: "last-week" },
+      timeZone: "Europe/Rome",
+      model: "llama3.1",
+    });
+    expect(parseArguments(["--since", "14d", "--until", "2025-06-08", "--model", "llama3.1"])).toMatchObject({
+      since: { kind: "relative", days: 14 },
+      until: { kind: "local", dateOnly: true },
+    });
+  });
+
+  it("rejects invalid window options", () => {
+    expect(() => parseArguments(["--since", "someday", "--model", "llama3.1"])).toThrow(/--since: Unrecognized window value/);
+    expect(() => parseArguments(["--since", "7d", "--months", "2", "--model", "llama3.1"])).toThrow(
+      /--since cannot be combined with --months/,
+    );
+    expect(() => parseArguments(["--time-zone", "Mars/Olympus", "--model", "llama3.1"])).toThrow(/--time-zone must be an IANA time zone/);
+  });
 });
 
 describe("main", () => {
@@ -171,6 +343,7 @@ describe("main", () => {
     mockedReadFile.mockReset();
     mockedReadFile.mockResolvedValue("");
     mockedLoadFilterConfig.mockResolvedValue({ allowedLanguages: ["en"], allowedCategories: undefined });
+    mockedLoadDefaultTopicProfile.mockResolvedValue(DEFAULT_TOPIC_PROFILE);
     ollamaFactory.createInstance = () => ({
       checkConnection: vi.fn().mockResolvedValue(true),
       analyze: vi.fn().mockResolvedValue({ relevant: false, rawResponse: "{}" }),
@@ -187,6 +360,7 @@ describe("main", () => {
         total: 1,
         status: "fulfilled",
         durationMs: 1200,
+        posts: { analyzed: 1, queued: 1 },
       });
       return [
         {
@@ -223,7 +397,8 @@ describe("main", () => {
     expect(mockedAnalyzeFeeds).toHaveBeenCalledWith(
       ["https://example.com/feed"],
       expect.objectContaining({
-        parallel: DEFAULT_PARALLEL,
+        fetchParallel: DEFAULT_PARALLEL,
+        llmParallel: DEFAULT_LLM_PARALLEL,
         months: DEFAULT_MONTH_WINDOW,
         dependencies: expect.objectContaining({ analysisClient: expect.any(Object) }),
       }),
@@ -281,11 +456,17 @@ describe("main", () => {
     const stdout = createWriter();
     const stderr = createWriter();
 
-    await main({ argv: ["--parallel", "5", ...REQUIRED_MODEL_ARGS], stdout: stdout.writer, stderr: stderr.writer, now: () => 0, env: {} });
+    await main({
+      argv: ["--parallel", "5", "--llm-parallel", "1", ...REQUIRED_MODEL_ARGS],
+      stdout: stdout.writer,
+      stderr: stderr.writer,
+      now: () => 0,
+      env: {},
+    });
 
     expect(mockedAnalyzeFeeds).toHaveBeenCalledWith(
       expect.any(Array),
-      expect.objectContaining({ parallel: 5 }),
+      expect.objectContaining({ fetchParallel: 5, llmParallel: 1 }),
     );
   });
 
@@ -319,6 +500,7 @@ describe("main", () => {
         status: "rejected",
         error,
         durationMs: 0,
+        posts: { analyzed: 0, queued: 0 },
       });
       return [
         { feedUrl: "https://example.com/feed", status: "rejected", error, durationMs: 0 },
@@ -364,6 +546,19 @@ describe("main", () => {
     expect(process.exitCode).toBe(1);
   });
 
+  it("fails fast when the topic profile does not exist", async () => {
+    mockedReadFile.mockRejectedValueOnce(Object.assign(new Error("missing"), { code: "ENOENT" }));
+
+    const stdout = createWriter();
+    const stderr = createWriter();
+
+    await main({ argv: ["--topic", "gardening", ...REQUIRED_MODEL_ARGS], stdout: stdout.writer, stderr: stderr.writer, env: {} });
+
+    expect(stderr.messages.join("")).toMatch(/Unknown topic "gardening"/);
+    expect(mockedLoadBlogs).not.toHaveBeenCalled();
+    expect(process.exitCode).toBe(1);
+  });
+
   it("shows help when requested", async () => {
     const stdout = createWriter();
 
@@ -523,6 +718,97 @@ describe("main", () => {
     expect(stdout.messages.join("")).toContain("Failed feeds saved to failed.json");
   });
 
+  it("stops on SIGINT, writes partial reports, and exits with 130", async () => {
+    mockedLoadBlogs.mockResolvedValue(sampleBlogs);
+    mockedExtractFeedUrls.mockReturnValue(["https://example.com/feed", "https://late.example/feed"]);
+    mockedAnalyzeFeeds.mockImplementation(async (_feeds, options) => {
+      process.emit("SIGINT");
+      expect(options?.signal?.aborted).toBe(true);
+      return [
+        {
+          feedUrl: "https://example.com/feed",
+          status: "fulfilled",
+          feed: { title: "Example", items: [] },
+          durationMs: 100,
+          unanalyzedPosts: 2,
+        },
+        { feedUrl: "https://late.example/feed", status: "skipped" },
+      ];
+    });
+    const listeners = process.listenerCount("SIGINT");
+
+    const stdout = createWriter();
+    const stderr = createWriter();
+
+    await main({
+      argv: ["--output", "results.json", "--failed-log", "failed.json", ...REQUIRED_MODEL_ARGS],
+      stdout: stdout.writer,
+      stderr: stderr.writer,
+      env: {},
+    });
+
+    const payload = JSON.parse(mockedWriteFile.mock.calls.find(([path]) => path === "results.json")?.[1] as string);
+    expect(payload.incomplete).toEqual({
+      reason: "Interrupted by SIGINT",
+      analyzedFeeds: 1,
+      totalFeeds: 2,
+      skippedFeeds: ["https://late.example/feed"],
+      unanalyzedPosts: 2,
+    });
+    const failedLog = JSON.parse(mockedWriteFile.mock.calls.find(([path]) => path === "failed.json")?.[1] as string);
+    expect(failedLog.failedFeeds).toEqual([{ feedUrl: "https://late.example/feed", error: "Skipped: Interrupted by SIGINT" }]);
+    expect(stderr.messages.join("")).toContain("Received SIGINT; finishing the analyses in flight");
+    expect(stdout.messages.join("")).toMatch(/Stopped after 1 of 2 feeds: 1 succeeded, 0 failed/);
+    expect(process.exitCode).toBe(130);
+    expect(process.listenerCount("SIGINT")).toBe(listeners);
+  });
+
+  it("marks CSV written after SIGINT as incomplete", async () => {
+    mockedLoadBlogs.mockResolvedValue(sampleBlogs);
+    mockedExtractFeedUrls.mockReturnValue(["https://example.com/feed", "https://late.example/feed"]);
+    mockedAnalyzeFeeds.mockImplementation(async () => {
+      process.emit("SIGINT");
+      return [
+        { feedUrl: "https://example.com/feed", status: "fulfilled", feed: { title: "Example", items: [] }, durationMs: 100 },
+        { feedUrl: "https://late.example/feed", status: "skipped" },
+      ];
+    });
+
+    const stdout = createWriter();
+
+    await main({ argv: ["--output", "csv:results.csv", ...REQUIRED_MODEL_ARGS], stdout: stdout.writer, stderr: createWriter().writer, env: {} });
+
+    const [windowComment, comment, header] = String(mockedWriteFile.mock.calls.find(([path]) => path === "results.csv")?.[1]).split(
+      "\n",
+    );
+    expect(windowComment).toMatch(/^# Window: /);
+    expect(comment).toBe("# Incomplete report: Interrupted by SIGINT after 1 of 2 feeds; 0 queued posts were not analyzed");
+    expect(header).toMatch(/^feed_title,feed_url,/);
+    expect(process.exitCode).toBe(130);
+  });
+
+  it("exits immediately on a second stop signal", async () => {
+    mockedLoadBlogs.mockResolvedValue(sampleBlogs);
+    mockedExtractFeedUrls.mockReturnValue(["https://example.com/feed"]);
+    const exit = vi.spyOn(process, "exit").mockImplementation((() => undefined) as never);
+    mockedAnalyzeFeeds.mockImplementation(async () => {
+      process.emit("SIGTERM");
+      process.emit("SIGTERM");
+      return [{ feedUrl: "https://example.com/feed", status: "skipped" }];
+    });
+
+    const stderr = createWriter();
+
+    try {
+      await main({ argv: [...REQUIRED_MODEL_ARGS], stdout: createWriter().writer, stderr: stderr.writer, env: {} });
+      expect(exit).toHaveBeenCalledWith(143);
+    } finally {
+      exit.mockRestore();
+    }
+
+    expect(stderr.messages.join("")).toContain("Received SIGTERM again; exiting without reports.");
+  });
+
   it("writes CSV output to a file when --output csv:<path> is provided", async () => {
     mockedLoadBlogs.mockResolvedValue(sampleBlogs);
     mockedExtractFeedUrls.mockReturnValue(["https://example.com/feed"]);
@@ -556,6 +842,7 @@ describe("main", () => {
 
     expect(mockedWriteFile).toHaveBeenCalledTimes(1);
     const csvPayload = mockedWriteFile.mock.calls[0][1];
+    expect(String(csvPayload).split("\n")[0]).toMatch(/^# Window: the last 3 months: \d{4}-\d{2}-\d{2} \d{2}:\d{2} – now \(UTC\)$/);
     expect(csvPayload).toContain("feed_title,feed_url,post_title,post_link,published_at,confidence,tags,reason");
     expect(csvPayload).toMatch(/Example,https:\/\/example\.com\/feed,AI in iOS,https:\/\/example\.com\/post,2025-11-01T00:00:00.000Z,0.92,ai;ios,"Matches keywords, including frameworks"/);
     expect(stdout.messages.join("")).toContain("Results written to results.csv");
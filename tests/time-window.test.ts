@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { formatWindow, isValidTimeZone, parseWindowBound, resolveAnalysisWindow } from "../src/time-window.js";
+
+// A Wednesday; Europe/Rome is on summer time (UTC+2).
+const NOW = Date.parse("2025-06-11T10:00:00.000Z");
+
+function resolve(since?: string, until?: string, timeZone = "Europe/Rome", now = NOW) {
+  return resolveAnalysisWindow({
+    since: since ? parseWindowBound(since) : undefined,
+    until: until ? parseWindowBound(until) : undefined,
+    months: 3,
+    timeZone,
+    now,
+  });
+}
+
+describe("parseWindowBound", () => {
+  it("recognizes presets, durations, local and zoned ISO dates", () => {
+    expect(parseWindowBound("Last-Week")).toEqual({ kind: "preset", preset: "last-week" });
+    expect(parseWindowBound("2w")).toEqual({ kind: "relative", days: 14, text: "2 weeks" });
+    expect(parseWindowBound("1 day")).toEqual({ kind: "relative", days: 1, text: "1 day" });
+    expect(parseWindowBound("2025-06-02")).toEqual({
+      kind: "local",
+      fields: { year: 2025, month: 6, day: 2, hour: 0, minute: 0, second: 0 },
+      dateOnly: true,
+    });
+    expect(parseWindowBound("2025-06-02T08:30")).toMatchObject({ kind: "local", dateOnly: false });
+    expect(parseWindowBound("2025-06-02T08:30:00+02:00")).toEqual({ kind: "instant", date: new Date("2025-06-02T06:30:00.000Z") });
+  });
+
+  it("rejects unknown values, impossible dates and empty durations", () => {
+    expect(() => parseWindowBound("last-fortnight")).toThrow(/Unrecognized window value/);
+    expect(() => parseWindowBound("2025-02-30")).toThrow(/Unrecognized window value/);
+    expect(() => parseWindowBound("0d")).toThrow(/must be positive/);
+  });
+});
+
+describe("resolveAnalysisWindow", () => {
+  it("falls back to the last N calendar months", () => {
+    expect(resolve(undefined, undefined, "UTC")).toEqual({
+      since: new Date("2025-03-11T10:00:00.000Z"),
+      timeZone: "UTC",
+      label: "the last 3 months",
+    });
+  });
+
+  it("covers the last ISO week from Monday to Sunday in the given time zone", () => {
+    const window = resolve("last-week");
+
+    expect(window.since.toISOString()).toBe("2025-06-01T22:00:00.000Z");
+    expect(window.until?.toISOString()).toBe("2025-06-08T22:00:00.000Z");
+    expect(formatWindow(window)).toBe("the last ISO week: 2025-06-02 00:00 – 2025-06-08 23:59 (Europe/Rome)");
+  });
+
+  it("resolves calendar months and quarters across daylight saving changes", () => {
+    expect(resolve("last-month")).toMatchObject({
+      since: new Date("2025-04-30T22:00:00.000Z"),
+      until: new Date("2025-05-31T22:00:00.000Z"),
+      label: "the last calendar month",
+    });
+    expect(resolve("this-quarter")).toMatchObject({
+      since: new Date("2025-03-31T22:00:00.000Z"),
+      until: new Date("2025-06-30T22:00:00.000Z"),
+    });
+    expect(resolve("last-quarter")).toMatchObject({
+      since: new Date("2024-12-31T23:00:00.000Z"),
+      until: new Date("2025-03-31T22:00:00.000Z"),
+    });
+    expect(resolve("last-month", undefined, "America/New_York", Date.parse("2026-01-05T12:00:00.000Z"))).toMatchObject({
+      since: new Date("2025-12-01T05:00:00.000Z"),
+      until: new Date("2026-01-01T05:00:00.000Z"),
+    });
+  });
+
+  it("includes the whole --until day and accepts durations", () => {
+    expect(resolve("2025-06-02", "2025-06-08")).toMatchObject({
+      since: new Date("2025-06-01T22:00:00.000Z"),
+      until: new Date("2025-06-08T22:00:00.000Z"),
+      label: "custom window",
+    });
+    expect(resolve("7d")).toEqual({
+      since: new Date("2025-06-04T10:00:00.000Z"),
+      timeZone: "Europe/Rome",
+      label: "the last 7 days",
+    });
+    expect(resolve("2w", "this-week").until?.toISOString()).toBe("2025-06-15T22:00:00.000Z");
+  });
+
+  it("rejects windows that end before they start", () => {
+    expect(() => resolve("2025-06-08", "2025-06-01")).toThrow(/must start before it ends/);
+  });
+});
+
+describe("isValidTimeZone", () => {
+  it("accepts IANA zones only", () => {
+    expect(isValidTimeZone("Europe/Rome")).toBe(true);
+    expect(isValidTimeZone("Mars/Olympus")).toBe(false);
+  });
+});
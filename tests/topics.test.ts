@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  createTopicRules,
+  DEFAULT_TOPIC,
+  DEFAULT_TOPIC_PROFILE,
+  loadDefaultTopicProfile,
+  loadTopicProfile,
+  TopicProfileError,
+} from "../src/topics.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const fixturesDirectory = path.resolve(__dirname, "fixtures/topics");
+
+describe("loadTopicProfile", () => {
+  it("keeps the built-in default in sync with config/topics/ai.json", async () => {
+    const profile = await loadTopicProfile(DEFAULT_TOPIC);
+    expect(profile).toEqual(DEFAULT_TOPIC_PROFILE);
+  });
+
+  it("loads the default profile from its file and falls back to the built-in copy when it is missing", async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "ios-blogs-topics-"));
+    try {
+      await expect(loadDefaultTopicProfile({ directory })).resolves.toEqual(DEFAULT_TOPIC_PROFILE);
+
+      const bundled = JSON.parse(await readFile(path.resolve(__dirname, "../config/topics/ai.json"), "utf8"));
+      await writeFile(path.join(directory, "ai.json"), JSON.stringify({ ...bundled, label: "Edited AI" }));
+      await expect(loadDefaultTopicProfile({ directory })).resolves.toMatchObject({ name: "ai", label: "Edited AI" });
+
+      await writeFile(path.join(directory, "ai.json"), "{");
+      await expect(loadDefaultTopicProfile({ directory })).rejects.toMatchObject({ kind: "parse-error" });
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  it.each(["swiftui-performance", "accessibility", "visionos"])("loads the bundled %s profile", async (name) => {
+    const profile = await loadTopicProfile(name);
+    expect(profile.name).toBe(name);
+    expect(profile.keywords.length).toBeGreaterThan(0);
+  });
+
+  it("reports unknown topics", async () => {
+    await expect(loadTopicProfile("gardening")).rejects.toMatchObject({ kind: "not-found" });
+    await expect(loadTopicProfile("../blogs")).rejects.toMatchObject({ kind: "not-found" });
+  });
+
+  it("validates profiles against the schema", async () => {
+    const promise = loadTopicProfile("broken", { directory: fixturesDirectory });
+    await expect(promise).rejects.toBeInstanceOf(TopicProfileError);
+    await expect(promise).rejects.toMatchObject({ kind: "validation-error" });
+    await expect(promise).rejects.toThrow(/instructions/);
+  });
+
+  it("rejects confirmation rules with invalid patterns", async () => {
+    await expect(loadTopicProfile("bad-pattern", { directory: fixturesDirectory })).rejects.toMatchObject({
+      kind: "validation-error",
+      message: expect.stringContaining('rule "unclosed"'),
+    });
+  });
+
+  it("requires the profile name to match its file", async () => {
+    await expect(loadTopicProfile("renamed", { directory: fixturesDirectory })).rejects.toThrow(
+      /does not match its file name/,
+    );
+  });
+});
+
+describe("createTopicRules", () => {
+  it("matches keywords on word boundaries regardless of spacing", () => {
+    const rules = createTopicRules(DEFAULT_TOPIC_PROFILE);
+
+    expect(rules.evaluate({ title: "Shipping a CoreML model" }).confirmed).toBe(true);
+    expect(rules.evaluate({ body: "Uses an LLM for summaries" }).confirmed).toBe(true);
+    expect(rules.evaluate({ title: "Said goodbye to UIKit" }).confirmed).toBe(false);
+  });
+
+  it("does not let the model's own reason or tags confirm a decision", () => {
+    const rules = createTopicRules(DEFAULT_TOPIC_PROFILE);
+
+    expect(rules.evaluate({ title: "Migrating Core Data stores", reason: "Core ML mentioned", tags: "ai;llm" })).toMatchObject({
+      confirmed: false,
+      // Only the bare-ML rule that explicitly opts into the model's answer.
+      score: 0.5,
+    });
+  });
+
+  it("needs a bare ML mention in both the post and the model's answer", () => {
+    const rules = createTopicRules(DEFAULT_TOPIC_PROFILE);
+
+    expect(rules.evaluate({ body: "Charts for game data", reason: "Mentions ML" })).toMatchObject({
+      confirmed: false,
+      score: 0.5,
+    });
+    expect(rules.evaluate({ body: "Tuning ML pipelines", reason: "ML workflow" }).confirmed).toBe(true);
+  });
+
+  it("expands the keyword shorthand and vetoes on the first matching exclusion", () => {
+    const rules = createTopicRules({
+      ...DEFAULT_TOPIC_PROFILE,
+      confirmation: undefined,
+      keywords: ["core ml"],
+      exclusions: ["sponsored", "job opening"],
+    });
+
+    expect(rules.evaluate({ title: "A Job  Opening at Example", reason: "Core ML" })).toMatchObject({
+      confirmed: false,
+      vetoedBy: "job opening",
+    });
+    expect(rules.evaluate({ title: "Core ML tips" }).matches).toEqual([
+      { rule: "core ml", kind: "include", field: "title", weight: 1 },
+    ]);
+  });
+
+  it("applies exclusions on top of configured rules", () => {
+    const rules = createTopicRules({ ...DEFAULT_TOPIC_PROFILE, exclusions: ["sponsored"] });
+
+    expect(rules.evaluate({ title: "Sponsored: Claude for iOS" }).vetoedBy).toBe("sponsored");
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, expect, it, vi } from "vitest";
-import { asyncPool } from "../src/utils.js";
+import { asyncPool, createLimiter } from "../src/utils.js";
 
 function delay(ms: number): Promise<void> {
   return new Promise((resolve) => {
@@ -45,3 +45,57 @@ describe("asyncPool", () => {
     expect(worker).not.toHaveBeenCalled();
   });
 });
+
+describe("createLimiter", () => {
+  it("caps running tasks and starts queued ones in order", async () => {
+    const limit = createLimiter({ concurrency: 2 });
+    const started: number[] = [];
+    let active = 0;
+    let maxActive = 0;
+
+    const results = await Promise.all(
+      [0, 1, 2, 3, 4].map((value) =>
+        limit(async () => {
+          started.push(value);
+          active += 1;
+          maxActive = Math.max(maxActive, active);
+          await delay(value === 0 ? 10 : 2);
+          active -= 1;
+          return value * 2;
+        }),
+      ),
+    );
+
+    expect(maxActive).toBe(2);
+    expect(started).toEqual([0, 1, 2, 3, 4]);
+    expect(results).toEqual([0, 2, 4, 6, 8]);
+  });
+
+  it("keeps going after a task fails", async () => {
+    const limit = createLimiter({ concurrency: 1 });
+
+    await expect(limit(async () => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    await expect(limit(async () => "next")).resolves.toBe("next");
+  });
+
+  it("rejects queued tasks once the signal aborts", async () => {
+    const controller = new AbortController();
+    const limit = createLimiter({ concurrency: 1, signal: controller.signal });
+    const queued = vi.fn(async () => "late");
+
+    const running = limit(async () => {
+      await delay(5);
+      return "first";
+    });
+    const waiting = limit(queued);
+    controller.abort(new Error("stop"));
+
+    await expect(running).resolves.toBe("first");
+    await expect(waiting).rejects.toThrow("stop");
+    expect(queued).not.toHaveBeenCalled();
+  });
+
+  it("rejects invalid concurrency", () => {
+    expect(() => createLimiter({ concurrency: 0 })).toThrow(RangeError);
+  });
+});